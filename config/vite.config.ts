@@ -22,7 +22,7 @@ export default defineConfig({
     sourcemap: true,
     rollupOptions: {
       // Externalize dependencies that shouldn't be bundled
-      external: [],
+      external: ['crypto', 'child_process', 'readline', 'http', 'fs/promises'],
       output: {
         globals: {},
       },
@@ -0,0 +1,101 @@
+/**
+ * Tests for Batch Verification
+ */
+
+import { BehavioralAttestationChain, BehavioralAttestationChainFactory } from '../core/behavioral-attestation-chain';
+import { verifyAttestationsBatch, verifyChainSignatures, VerificationKeyCache } from '../utils/batch-verification';
+import { exportPublicKey } from '../utils/crypto';
+import { getSignatureSuite, ecdsaP256Suite } from '../utils/signature-suites';
+
+describe('Batch Verification', () => {
+  const action = (id: string) => ({
+    id,
+    type: 'decision' as const,
+    relatedLaw: 'law1' as const,
+    description: 'Batch test action',
+    justification: 'Testing',
+    timestamp: Date.now(),
+    hash: 'test-hash',
+    signature: 'test-signature'
+  });
+
+  async function createChain(length: number): Promise<{ bac: BehavioralAttestationChain; publicKey: string }> {
+    const keyPair = await getSignatureSuite().generateKeyPair();
+    const bac = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'agent-1');
+    for (let i = 0; i < length; i++) {
+      await bac.addAction(action(`action-${i}`));
+    }
+    return { bac, publicKey: (await exportPublicKey(keyPair.publicKey)).spki };
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should verify every entry and import the key once', async () => {
+    const { bac, publicKey } = await createChain(12);
+    const keyCache = new VerificationKeyCache();
+
+    const results = await verifyChainSignatures(bac.getChain(), { publicKey }, { keyCache, concurrency: 4 });
+
+    expect(results).toHaveLength(12);
+    expect(results.every(result => result.isValid)).toBe(true);
+    expect(results.map(result => result.index)).toEqual(Array.from({ length: 12 }, (_, i) => i));
+    expect(keyCache.size).toBe(1);
+  });
+
+  test('should report tampered entries individually', async () => {
+    const { bac, publicKey } = await createChain(5);
+    const attestations = bac.getChain().map(entry => entry.attestation);
+    attestations[3] = { ...attestations[3], data: { ...attestations[3].data, relatedLaw: 'law5' } };
+    attestations[1] = { ...attestations[1], disclosureProof: attestations[2].disclosureProof };
+
+    const results = await verifyAttestationsBatch(attestations, { publicKey });
+
+    expect(results.map(result => result.isValid)).toEqual([true, false, true, false, true]);
+  });
+
+  test('should pick keys by fingerprint across a rotation', async () => {
+    const first = await createChain(2);
+    const second = await createChain(2);
+    const attestations = [...first.bac.getChain(), ...second.bac.getChain()].map(entry => entry.attestation);
+
+    const both = await verifyAttestationsBatch(attestations, [{ publicKey: first.publicKey }, { publicKey: second.publicKey }]);
+    const onlyFirst = await verifyAttestationsBatch(attestations, [{ publicKey: first.publicKey }]);
+
+    expect(both.every(result => result.isValid)).toBe(true);
+    expect(onlyFirst.map(result => result.isValid)).toEqual([true, true, false, false]);
+    expect(onlyFirst[2].error).toContain('No public key with fingerprint');
+  });
+
+  test('should verify with the key\'s suite and reject attestations claiming another', async () => {
+    const { bac, publicKey } = await createChain(2);
+    const attestations = bac.getChain().map(entry => entry.attestation);
+    attestations[1] = { ...attestations[1], signatureSuite: 'ed25519' };
+
+    const results = await verifyAttestationsBatch(attestations, { publicKey, signatureSuite: 'ecdsa-p256-sha256' });
+    const mismatched = await verifyAttestationsBatch(attestations.slice(0, 1), { publicKey, signatureSuite: 'ed25519' });
+
+    expect(results.map(result => result.isValid)).toEqual([true, false]);
+    expect(mismatched[0].isValid).toBe(false);
+  });
+
+  test('should keep no more checks in flight than the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const verify = ecdsaP256Suite.verify.bind(ecdsaP256Suite);
+    jest.spyOn(ecdsaP256Suite, 'verify').mockImplementation(async (data, signature, publicKey) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+      return await verify(data, signature, publicKey);
+    });
+
+    const { bac, publicKey } = await createChain(10);
+    const results = await verifyAttestationsBatch(bac.getChain().map(entry => entry.attestation), { publicKey }, { concurrency: 3 });
+
+    expect(results.every(result => result.isValid)).toBe(true);
+    expect(maxInFlight).toBe(3);
+  });
+});
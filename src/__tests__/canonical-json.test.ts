@@ -0,0 +1,62 @@
+/**
+ * Tests for Canonical JSON (RFC 8785)
+ */
+
+import { canonicalize } from '../utils/canonical-json';
+import { ConstitutionalIdentityFactory } from '../core/constitutional-identity';
+import { ConstitutionalLaws } from '../types/constitutional';
+
+describe('canonicalize', () => {
+  test('should sort members by UTF-16 code units', () => {
+    const input = {
+      '\u20ac': 'Euro Sign',
+      '\r': 'Carriage Return',
+      '\ufb33': 'Hebrew Letter Dalet With Dagesh',
+      '1': 'One',
+      '\ud83d\ude00': 'Emoji: Grinning Face',
+      '\u0080': 'Control',
+      '\u00f6': 'Latin Small Letter O With Diaeresis',
+    };
+
+    const expectedOrder = ['\r', '1', '\u0080', '\u00f6', '\u20ac', '\ud83d\ude00', '\ufb33'];
+    const expected = expectedOrder
+      .map(key => `${JSON.stringify(key)}:${JSON.stringify(input[key as keyof typeof input])}`)
+      .join(',');
+
+    expect(canonicalize(input)).toBe(`{${expected}}`);
+  });
+
+  test('should serialize numbers in ECMAScript shortest form', () => {
+    expect(canonicalize([4.50, 2e-3, 1e30, 1e-7, -0, 333333333.33333329])).toBe(
+      '[4.5,0.002,1e+30,1e-7,0,333333333.3333333]'
+    );
+    expect(() => canonicalize(NaN)).toThrow('non-finite');
+    expect(() => canonicalize({ value: Infinity })).toThrow('non-finite');
+  });
+
+  test('should be independent of key insertion order', () => {
+    const a = { b: [1, { y: 2, x: 1 }], a: 'text', c: null };
+    const b = { c: null, a: 'text', b: [1, { x: 1, y: 2 }] };
+
+    expect(canonicalize(a)).toBe('{"a":"text","b":[1,{"x":1,"y":2}],"c":null}');
+    expect(canonicalize(a)).toBe(canonicalize(b));
+  });
+
+  test('should omit undefined members like JSON.stringify', () => {
+    expect(canonicalize({ a: undefined, b: [undefined], c: 1 })).toBe('{"b":[null],"c":1}');
+  });
+
+  test('should give the same laws hash for differently ordered laws', async () => {
+    const law = { name: 'Options and Consent', principle: 'p', parameters: ['x'] };
+    const laws = { law1: law, law2: law, law3: law, law4: law, law5: law } as unknown as ConstitutionalLaws;
+    const reordered = {
+      law5: law, law4: law, law3: law, law2: law,
+      law1: { parameters: ['x'], principle: 'p', name: 'Options and Consent' },
+    } as unknown as ConstitutionalLaws;
+
+    const first = await ConstitutionalIdentityFactory.create(laws);
+    const second = await ConstitutionalIdentityFactory.create(reordered);
+
+    expect(first.getCommitment().lawsHash).toBe(second.getCommitment().lawsHash);
+  });
+});
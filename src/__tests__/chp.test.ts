@@ -4,6 +4,7 @@
 
 import { CHP, CHPFactory } from '../chp';
 import { ConstitutionalLaws } from '../types/constitutional';
+import { MIN_KEYSTORE_ITERATIONS } from '../utils/keystore';
 
 describe('CHP', () => {
   let laws: ConstitutionalLaws;
@@ -101,5 +102,77 @@ describe('CHP', () => {
     expect(chp.hasCapability('handshake_sequence')).toBe(true);
     expect(chp.hasCapability('nonexistent_capability')).toBe(false);
   });
-});
 
+  test('should create agents with the Ed25519 signature suite', async () => {
+    chp = await CHPFactory.create(laws, 'test-agent-7', 'ed25519');
+    const verifier = await CHPFactory.create(laws, 'test-agent-8');
+
+    expect(chp.getCommitment().signatureSuite).toBe('ed25519');
+    expect(await verifier.verifyCommitment(chp.getCommitment())).toBe(true);
+  });
+
+  test('should encrypt messages to another agent\'s identity', async () => {
+    chp = await CHPFactory.create(laws, 'test-agent-9');
+    const recipient = await CHPFactory.create(laws, 'test-agent-10', 'ed25519');
+
+    const envelope = await chp.encryptFor(recipient.getCommitment(), 'handshake message', 'session-1');
+
+    expect(await recipient.decrypt(envelope, 'session-1')).toBe('handshake message');
+    await expect(chp.decrypt(envelope)).rejects.toThrow('not addressed to this identity');
+  });
+
+  test('should rotate keys without changing the agent identity', async () => {
+    chp = await CHPFactory.create(laws, 'test-agent-11');
+    const identityBefore = chp.getIdentity();
+    const fingerprintBefore = chp.getPublicKey().fingerprint;
+
+    const record = await chp.rotateKey();
+    await chp.recordAction({
+      id: 'post-rotation-action',
+      type: 'decision',
+      relatedLaw: 'law1',
+      description: 'Signed with the new key',
+      justification: 'Testing',
+      timestamp: Date.now(),
+      hash: 'test-hash',
+      signature: 'test-signature'
+    });
+
+    expect(chp.getIdentity()).toBe(identityBefore);
+    expect(record.previousKeyFingerprint).toBe(fingerprintBefore);
+    expect(chp.getPublicKey().fingerprint).toBe(record.nextKeyFingerprint);
+    expect(await chp.verifyCommitment(chp.getCommitment())).toBe(true);
+  });
+
+  test('should keep the current key when the trust graph rejects a rotation', async () => {
+    chp = await CHPFactory.create(laws, 'test-agent-13');
+    const fingerprintBefore = chp.getPublicKey().fingerprint;
+    const provider = chp['constitutionalIdentity'].getKeyProvider();
+    await chp.revoke('key', 'key_compromise');
+
+    await expect(chp.rotateKey()).rejects.toThrow('Key succession was rejected');
+    expect(chp.getPublicKey().fingerprint).toBe(fingerprintBefore);
+    expect(chp['constitutionalIdentity'].getKeyProvider()).toBe(provider);
+  });
+
+  test('should keep the current commitment when the trust graph rejects a renewal', async () => {
+    chp = await CHPFactory.create(laws, 'test-agent-14');
+    const commitmentBefore = chp.getCommitment();
+    await chp.revoke('commitment', 'superseded');
+
+    await expect(chp.renewCommitment()).rejects.toThrow('Commitment renewal was rejected');
+    expect(chp.getCommitment()).toBe(commitmentBefore);
+  });
+
+  test('should restore an agent from its keystore', async () => {
+    chp = await CHPFactory.create(laws, 'test-agent-12', 'ed25519');
+    const keystore = await chp.exportKeystore('deploy-password', { iterations: MIN_KEYSTORE_ITERATIONS });
+
+    const restored = await CHPFactory.fromKeystore(JSON.stringify(keystore), 'deploy-password', laws, undefined, { validFor: 60000 });
+
+    expect(restored.getPublicKey().fingerprint).toBe(chp.getPublicKey().fingerprint);
+    expect(restored.getCommitment().signatureSuite).toBe('ed25519');
+    expect(restored.getCommitment().expiresAt).toBe(restored.getCommitment().timestamp + 60000);
+    await expect(CHPFactory.fromKeystore(keystore, 'wrong-password', laws)).rejects.toThrow('Failed to load keystore');
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Tests for Constitution Loading
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  loadConstitution,
+  loadConstitutionFile,
+  validateConstitutionDocument,
+  getLawsHash,
+  getConstitutionVersion,
+  getAmendmentPayload,
+  verifyConstitutionAmendment,
+  getSharedConstitutionVersion,
+  compareConstitutionVersions,
+  extendConstitution,
+  getLawKeys,
+} from '../utils/constitution';
+import { FREEDOM_PRESERVING_FIVE, FREEDOM_PRESERVING_FIVE_DOCUMENT } from '../constitutions/freedom-preserving-five';
+import { CHPFactory } from '../chp';
+import { parseYaml } from '../utils/yaml';
+import { createQuorumPolicy, createMultiSignature, addSignature } from '../utils/multisig';
+import { exportPublicKey } from '../utils/crypto';
+import { getSignatureSuite } from '../utils/signature-suites';
+import {
+  ConstitutionalIdentity,
+  ConstitutionalIdentityFactory,
+  ConstitutionalIdentityVerifier,
+} from '../core/constitutional-identity';
+import { ConstitutionAmendment, ConstitutionVersion, LoadedConstitution } from '../types/constitutional';
+import { QuorumPolicy } from '../types/crypto';
+
+describe('Constitution Loading', () => {
+  const jsonPath = resolve(__dirname, '../../constitution-machine-readable.json');
+  const yamlPath = resolve(__dirname, '../../constitution-machine-readable.yaml');
+
+  function readDocument(): any {
+    return JSON.parse(readFileSync(jsonPath, 'utf8'));
+  }
+
+  test('should load the same constitution from the JSON and YAML files', async () => {
+    const fromJson = await loadConstitutionFile(jsonPath);
+    const fromYaml = await loadConstitutionFile(yamlPath);
+
+    expect(fromYaml.document).toEqual(fromJson.document);
+    expect(fromYaml.lawsHash).toBe(fromJson.lawsHash);
+    expect(fromJson.name).toBe('Paulsens-Freedom-Preserving-Five');
+    expect(fromJson.version).toBe('1.0.0');
+    expect(fromJson.laws.law1).toEqual({
+      name: 'Options and Consent',
+      principle: fromJson.document.constitution.laws.law1.primary_sentence,
+      parameters: fromJson.document.constitution.laws.law1.defining_parameters,
+    });
+    expect(fromJson.lawMetadata.law5).toMatchObject({
+      id: 'scoped_exploration',
+      order: 5,
+      enforcementPriority: 'medium',
+      referencesLaws: ['law1', 'law2', 'law3', 'law4'],
+    });
+    expect(fromJson.precedence).toEqual(['law1', 'law2', 'law3', 'law4', 'law5']);
+    expect(fromJson.metaClause?.triggers).toEqual(['unclear norms', 'values conflict']);
+  });
+
+  test('should hash the canonical document regardless of formatting', () => {
+    const document = readDocument();
+    const reformatted = loadConstitution(JSON.stringify(document, null, 8));
+    const changed = readDocument();
+    changed.constitution.laws.law2.keywords.push('stewardship');
+
+    expect(reformatted.lawsHash).toBe(loadConstitution(document).lawsHash);
+    expect(loadConstitution(changed).lawsHash).not.toBe(reformatted.lawsHash);
+    expect(getLawsHash(reformatted)).toBe(reformatted.lawsHash);
+  });
+
+  test('should commit identities to the loaded constitution', async () => {
+    const constitution = await loadConstitutionFile(yamlPath);
+    const identity = await ConstitutionalIdentityFactory.create(constitution);
+
+    expect(identity.getCommitment().lawsHash).toBe(constitution.lawsHash);
+  });
+
+  test('should reject documents that do not match the embedded schema', () => {
+    const missingParameters = readDocument();
+    delete missingParameters.constitution.laws.law3.defining_parameters;
+    const reordered = readDocument();
+    reordered.constitution.hierarchy.precedence_order = ['law2', 'law1', 'law3', 'law4', 'law5'];
+    const unknownReference = readDocument();
+    unknownReference.constitution.laws.law4.references_laws = ['law9'];
+
+    expect(validateConstitutionDocument(missingParameters).errors)
+      .toContain('Law law3 is missing required field: defining_parameters');
+    expect(validateConstitutionDocument(reordered).errors)
+      .toContain('Law law1 order does not match the hierarchy');
+    expect(validateConstitutionDocument(unknownReference).errors)
+      .toContain('Law law4 refers to an unknown law: law9');
+    expect(validateConstitutionDocument({ constitution: {} }).errors).toEqual(['Missing or invalid schema']);
+    expect(() => loadConstitution(reordered)).toThrow('Invalid constitution document');
+  });
+
+  test('should parse the YAML subset and reject what it does not support', () => {
+    const yaml = [
+      '# comment',
+      'name: \'it\'\'s\'  # trailing comment',
+      'tag: "#not-a-comment"',
+      'items:',
+      '- id: a',
+      '  count: 2',
+      '- [x, "y, z"]',
+      'empty: {}',
+      'flag: false',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      name: 'it\'s',
+      tag: '#not-a-comment',
+      items: [{ id: 'a', count: 2 }, ['x', 'y, z']],
+      empty: {},
+      flag: false,
+    });
+    expect(() => parseYaml('a:\n\tb: 1')).toThrow('Invalid YAML at line 2');
+    expect(() => parseYaml('a: &anchor 1')).toThrow('not supported');
+    expect(() => parseYaml('a: 1\na: 2')).toThrow('duplicate key');
+  });
+
+  test('should bundle the Freedom-Preserving Five as in the document file', () => {
+    expect(FREEDOM_PRESERVING_FIVE_DOCUMENT).toEqual(readDocument());
+    expect(FREEDOM_PRESERVING_FIVE.lawsHash).toBe(loadConstitution(readDocument()).lawsHash);
+    expect(getLawKeys(FREEDOM_PRESERVING_FIVE)).toEqual(['law1', 'law2', 'law3', 'law4', 'law5']);
+  });
+
+  test('should extend a constitution with organization-specific laws', async () => {
+    const extended = extendConstitution(FREEDOM_PRESERVING_FIVE, {
+      name: 'Example-Org-Seven',
+      version: '1.0.0',
+      laws: {
+        law6: {
+          id: 'data_residency',
+          name: 'Data Residency',
+          primary_sentence: 'Keep customer data in the region the customer chose.',
+          defining_parameters: ['region recorded per customer'],
+          references_laws: ['law1'],
+        },
+        law7: {
+          id: 'incident_disclosure',
+          name: 'Incident Disclosure',
+          primary_sentence: 'Disclose security incidents to affected customers within three days.',
+          defining_parameters: ['disclosure deadline tracked'],
+        },
+      },
+    });
+
+    expect(extended.precedence).toEqual(['law1', 'law2', 'law3', 'law4', 'law5', 'law6', 'law7']);
+    expect(extended.lawMetadata.law7.order).toBe(7);
+    expect(extended.laws.law6.principle).toBe('Keep customer data in the region the customer chose.');
+    expect(extended.metaClause).toEqual(FREEDOM_PRESERVING_FIVE.metaClause);
+    expect(() => extendConstitution(FREEDOM_PRESERVING_FIVE, {
+      name: 'Duplicate',
+      version: '1.0.0',
+      laws: { law5: { id: 'other', name: 'Other', primary_sentence: 'Other.', defining_parameters: [] } },
+    })).toThrow('Constitution already defines law5');
+
+    const agent = await CHPFactory.create(extended, 'org-agent');
+    expect(agent.getCommitment().lawsHash).toBe(extended.lawsHash);
+    expect(agent.getComplianceStatus().laws).toEqual(extended.precedence);
+  });
+
+  describe('versions and amendments', () => {
+    let v1: LoadedConstitution;
+    let v11: LoadedConstitution;
+    let maintainers: CryptoKeyPair[];
+    let policy: QuorumPolicy;
+
+    beforeAll(async () => {
+      v1 = loadConstitution(readDocument());
+      const amended = readDocument();
+      amended.constitution.version = '1.1.0';
+      amended.constitution.laws.law5.defining_parameters.push('exploration budgets reviewed quarterly');
+      v11 = loadConstitution(amended);
+
+      maintainers = [
+        await getSignatureSuite('ed25519').generateKeyPair(),
+        await getSignatureSuite('ed25519').generateKeyPair(),
+      ];
+      policy = createQuorumPolicy(2, await Promise.all(maintainers.map(async maintainer => ({
+        publicKey: (await exportPublicKey(maintainer.publicKey)).spki,
+        signatureSuite: 'ed25519',
+      }))));
+    });
+
+    async function amend(from: ConstitutionVersion, to: ConstitutionVersion): Promise<ConstitutionAmendment> {
+      const unsigned = { from, to, backwardCompatible: true, description: 'Quarterly budget review', timestamp: Date.now() };
+      let approval = createMultiSignature(policy);
+      for (const maintainer of maintainers) {
+        approval = await addSignature(approval, policy, getAmendmentPayload(unsigned), maintainer);
+      }
+      return { ...unsigned, approval };
+    }
+
+    async function commit(constitution: LoadedConstitution, compatibleWith?: ConstitutionVersion[]): Promise<ConstitutionalIdentity> {
+      const identity = new ConstitutionalIdentity(await getSignatureSuite('ed25519').generateKeyPair(), constitution);
+      await identity.initializeCommitment(constitution, { compatibleWith });
+      return identity;
+    }
+
+    test('should compare dotted versions numerically', () => {
+      expect(compareConstitutionVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+      expect(compareConstitutionVersions('1.0', '1.0.0')).toBe(0);
+      expect(compareConstitutionVersions('1.0.0', '1.1.0')).toBeLessThan(0);
+    });
+
+    test('should sign the declared version and compatibility into commitments', async () => {
+      const identity = await commit(v11, [getConstitutionVersion(v1)]);
+      const commitment = identity.getCommitment();
+
+      expect(commitment.constitution).toEqual({ name: v11.name, version: '1.1.0' });
+      expect(commitment.compatibleWith).toEqual([getConstitutionVersion(v1)]);
+      expect(await ConstitutionalIdentityVerifier.verify(commitment)).toBe(true);
+      expect(await ConstitutionalIdentityVerifier.verify({ ...commitment, compatibleWith: [] })).toBe(false);
+
+      await identity.rotateKey(await getSignatureSuite('ed25519').generateKeyPair());
+      expect(identity.getCommitment().compatibleWith).toEqual([getConstitutionVersion(v1)]);
+
+      await expect(commit(v1, [getConstitutionVersion(v11)]))
+        .rejects.toThrow('Compatible versions must be earlier versions of the committed constitution');
+    });
+
+    test('should verify amendments against the maintainers\' policy', async () => {
+      const amendment = await amend(getConstitutionVersion(v1), getConstitutionVersion(v11));
+      const otherPolicy = createQuorumPolicy(1, [{
+        publicKey: (await exportPublicKey((await getSignatureSuite('ed25519').generateKeyPair()).publicKey)).spki,
+        signatureSuite: 'ed25519',
+      }]);
+
+      expect(await verifyConstitutionAmendment(amendment, policy)).toBe(true);
+      expect(await verifyConstitutionAmendment(amendment, otherPolicy)).toBe(false);
+      expect(await verifyConstitutionAmendment({ ...amendment, backwardCompatible: false }, policy)).toBe(false);
+      expect(await verifyConstitutionAmendment(
+        await amend(getConstitutionVersion(v11), getConstitutionVersion(v1)), policy
+      )).toBe(false);
+    });
+
+    test('should find the latest version two commitments share', async () => {
+      const upgraded = (await commit(v11, [getConstitutionVersion(v1)])).getCommitment();
+      const current = (await commit(v11)).getCommitment();
+      const legacy = (await commit(v1)).getCommitment();
+      const amendment = await amend(getConstitutionVersion(v1), getConstitutionVersion(v11));
+
+      expect(getSharedConstitutionVersion(upgraded, current)).toEqual(getConstitutionVersion(v11));
+      expect(getSharedConstitutionVersion(upgraded, legacy)).toEqual(getConstitutionVersion(v1));
+      expect(getSharedConstitutionVersion(current, legacy)).toBeNull();
+      expect(getSharedConstitutionVersion(upgraded, legacy, [])).toBeNull();
+      expect(getSharedConstitutionVersion(upgraded, legacy, [amendment])).toEqual(getConstitutionVersion(v1));
+    });
+  });
+});
@@ -2,8 +2,12 @@
  * Tests for Constitutional Identity
  */
 
-import { ConstitutionalIdentity, ConstitutionalIdentityFactory } from '../core/constitutional-identity';
+import { ConstitutionalIdentity, ConstitutionalIdentityFactory, ConstitutionalIdentityVerifier } from '../core/constitutional-identity';
+import { TrustGraphProtocolFactory } from '../core/trust-graph-protocol';
 import { ConstitutionalLaws } from '../types/constitutional';
+import { TrustLevel } from '../types/trust';
+import { getSignatureSuite } from '../utils/signature-suites';
+import { validateConstitutionalCommitment, DEFAULT_COMMITMENT_VALIDITY } from '../utils/validation';
 
 describe('ConstitutionalIdentity', () => {
   let laws: ConstitutionalLaws;
@@ -75,5 +79,200 @@ describe('ConstitutionalIdentity', () => {
     expect(metadata.timestamp).toBeDefined();
     expect(metadata.publicKey).toBeDefined();
   });
-});
 
+  test('should verify a genuine commitment signature', async () => {
+    identity = await ConstitutionalIdentityFactory.create(laws);
+    const other = await ConstitutionalIdentityFactory.create(laws);
+
+    expect(await other.verifyCommitment(identity.getCommitment())).toBe(true);
+    expect(await ConstitutionalIdentityVerifier.verify(identity.getCommitment())).toBe(true);
+  });
+
+  test('should reject forged commitments', async () => {
+    identity = await ConstitutionalIdentityFactory.create(laws);
+    const other = await ConstitutionalIdentityFactory.create(laws);
+    const commitment = identity.getCommitment();
+
+    const tampered = { ...commitment, lawsHash: 'forged-laws-hash' };
+    const wrongKey = { ...commitment, publicKey: other.getCommitment().publicKey };
+
+    expect(await ConstitutionalIdentityVerifier.verify(tampered)).toBe(false);
+    expect(await ConstitutionalIdentityVerifier.verify(wrongKey)).toBe(false);
+  });
+
+  test('should publish the real public key with a fingerprint', async () => {
+    identity = await ConstitutionalIdentityFactory.create(laws);
+    const other = await ConstitutionalIdentityFactory.create(laws);
+
+    const commitment = identity.getCommitment();
+    const keyInfo = identity.getPublicKeyInfo();
+
+    expect(commitment.publicKey).toBe(keyInfo.spki);
+    expect(commitment.keyFingerprint).toBe(keyInfo.fingerprint);
+    expect(keyInfo.fingerprint).toHaveLength(32);
+    expect(keyInfo.jwk).toEqual(expect.objectContaining({ kty: 'EC', crv: 'P-256' }));
+    expect(keyInfo.jwk).not.toHaveProperty('d');
+    expect(commitment.publicKey).not.toBe(other.getCommitment().publicKey);
+  });
+
+  test('should derive the public key from a lone private key', async () => {
+    const keyPair = await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    );
+    identity = new ConstitutionalIdentity(keyPair.privateKey, laws);
+    await identity.initializeCommitment(laws);
+
+    const spki = new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+    const expected = btoa(String.fromCharCode(...spki))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+
+    expect(identity.getCommitment().publicKey).toBe(expected);
+    expect(await ConstitutionalIdentityVerifier.verify(identity.getCommitment())).toBe(true);
+  });
+
+  test('should reject a commitment whose fingerprint does not match its key', async () => {
+    identity = await ConstitutionalIdentityFactory.create(laws);
+    const commitment = { ...identity.getCommitment(), keyFingerprint: '0'.repeat(32) };
+
+    expect(await ConstitutionalIdentityVerifier.verify(commitment)).toBe(false);
+  });
+
+  test('should create and verify Ed25519 identities', async () => {
+    identity = await ConstitutionalIdentityFactory.create(laws, 'ed25519');
+    const commitment = identity.getCommitment();
+
+    expect(commitment.signatureSuite).toBe('ed25519');
+    expect(identity.getPublicKeyInfo().jwk).toEqual(expect.objectContaining({ kty: 'OKP', crv: 'Ed25519' }));
+    expect(await ConstitutionalIdentityVerifier.verify(commitment)).toBe(true);
+    expect(await ConstitutionalIdentityVerifier.verify({ ...commitment, signatureSuite: 'ecdsa-p256-sha256' })).toBe(false);
+  });
+
+  describe('key rotation', () => {
+    test('should keep the identity and sign a succession record with both keys', async () => {
+      identity = await ConstitutionalIdentityFactory.create(laws);
+      const original = identity.getCommitment();
+
+      const record = await identity.rotateKey(await getSignatureSuite('ed25519').generateKeyPair());
+      const rotated = identity.getCommitment();
+
+      expect(identity.getIdentity()).toBe(original.id);
+      expect(rotated.identityId).toBe(original.id);
+      expect(rotated.signatureSuite).toBe('ed25519');
+      expect(record.previousKeyFingerprint).toBe(original.keyFingerprint);
+      expect(record.nextKeyFingerprint).toBe(rotated.keyFingerprint);
+      expect(await ConstitutionalIdentityVerifier.verify(rotated)).toBe(true);
+      expect(await ConstitutionalIdentityVerifier.verifySuccession(record)).toBe(true);
+    });
+
+    test('should verify a chain of rotations and reject gaps or forgeries', async () => {
+      identity = await ConstitutionalIdentityFactory.create(laws);
+      const original = identity.getCommitment();
+      const first = await identity.rotateKey(await getSignatureSuite().generateKeyPair());
+      const second = await identity.rotateKey(await getSignatureSuite().generateKeyPair());
+      const current = identity.getCommitment();
+
+      expect(await ConstitutionalIdentityVerifier.verifySuccessionChain(original, [first, second], current)).toBe(true);
+      expect(await ConstitutionalIdentityVerifier.verifySuccessionChain(original, [second], current)).toBe(false);
+      expect(await ConstitutionalIdentityVerifier.verifySuccession({ ...second, nextPublicKey: first.nextPublicKey })).toBe(false);
+
+      // A key the retired key never named cannot take over the identity
+      const impostor = await ConstitutionalIdentityFactory.create(laws);
+      expect(await ConstitutionalIdentityVerifier.verifySuccessionChain(original, [first, second], impostor.getCommitment())).toBe(false);
+    });
+
+    test('should carry trust and reputation over to the new key in the trust graph', async () => {
+      const trustGraph = TrustGraphProtocolFactory.create();
+      identity = await ConstitutionalIdentityFactory.create(laws);
+      const peer = await ConstitutionalIdentityFactory.create(laws);
+
+      trustGraph.addAgent('agent', identity.getIdentity(), identity.getCommitment());
+      trustGraph.addAgent('peer', peer.getIdentity(), peer.getCommitment());
+      trustGraph.establishTrustRelationship('agent', 'peer', TrustLevel.HIGH, TrustLevel.HIGH);
+      trustGraph.updateReputation('agent', 'positive', { reliability: 0.9 });
+
+      const record = await identity.rotateKey(await getSignatureSuite().generateKeyPair());
+
+      expect(await trustGraph.applyKeySuccession('agent', record, identity.getCommitment())).toBe(true);
+      expect(trustGraph.getAgent('agent')?.keyFingerprint).toBe(identity.getKeyFingerprint());
+      expect(trustGraph.getAgent('agent')?.reputation.reliability).toBe(0.9);
+      expect(trustGraph.getTrustRelationship('agent', 'peer')?.trustAB).toBe(TrustLevel.HIGH);
+      expect(trustGraph.getUpdateEvents().some(event => event.type === 'key_rotated')).toBe(true);
+
+      // Replaying the same record no longer starts from the agent's current key
+      expect(await trustGraph.applyKeySuccession('agent', record, identity.getCommitment())).toBe(false);
+    });
+  });
+
+  describe('commitment renewal', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should sign a validity window into commitments', async () => {
+      identity = await ConstitutionalIdentityFactory.create(laws);
+      const yearLong = identity.getCommitment();
+      const shortLived = new ConstitutionalIdentity(await getSignatureSuite().generateKeyPair(), laws);
+      await shortLived.initializeCommitment(laws, { validFor: 1000 });
+      const commitment = shortLived.getCommitment();
+
+      expect(yearLong.expiresAt).toBe(yearLong.timestamp + DEFAULT_COMMITMENT_VALIDITY);
+      expect(commitment.expiresAt).toBe(commitment.timestamp + 1000);
+      expect(validateConstitutionalCommitment(commitment).isValid).toBe(true);
+      expect(await ConstitutionalIdentityVerifier.verify({ ...commitment, expiresAt: commitment.timestamp + 5000 })).toBe(false);
+      await expect(shortLived.initializeCommitment(laws, { validFor: 0 }))
+        .rejects.toThrow('Validity period must be a positive number of milliseconds');
+
+      jest.spyOn(Date, 'now').mockReturnValue(commitment.timestamp + 2000);
+      expect(validateConstitutionalCommitment(commitment).errors).toContain('Commitment has expired');
+      expect(validateConstitutionalCommitment({ ...yearLong, expiresAt: undefined }).isValid).toBe(true);
+    });
+
+    test('should chain renewals to the commitment they renew', async () => {
+      identity = await ConstitutionalIdentityFactory.create(laws);
+      const original = identity.getCommitment();
+      const first = await identity.renewCommitment({ validFor: 60000 });
+      const second = await identity.renewCommitment();
+
+      expect(identity.getIdentity()).toBe(original.id);
+      expect(identity.getDID()).toBe(`did:chp:${original.id}`);
+      expect(first.renews).toEqual({ id: original.id, signature: original.signature });
+      expect(first.expiresAt).toBe(first.timestamp + 60000);
+      expect(await ConstitutionalIdentityVerifier.verifyRenewal(original, first)).toBe(true);
+      expect(await ConstitutionalIdentityVerifier.verifyRenewalChain([original, first, second])).toBe(true);
+      expect(await ConstitutionalIdentityVerifier.verifyRenewalChain([original, second])).toBe(false);
+      expect(await ConstitutionalIdentityVerifier.verifyRenewal(original, { ...first, expiresAt: first.expiresAt! + 1 })).toBe(false);
+
+      // Another identity cannot claim to renew this one's commitment
+      const impostor = await ConstitutionalIdentityFactory.create(laws);
+      const forged = await impostor.renewCommitment();
+      expect(await ConstitutionalIdentityVerifier.verifyRenewal(original, forged)).toBe(false);
+    });
+
+    test('should carry trust and reputation over to the renewed commitment in the trust graph', async () => {
+      const trustGraph = TrustGraphProtocolFactory.create();
+      identity = await ConstitutionalIdentityFactory.create(laws);
+      const peer = await ConstitutionalIdentityFactory.create(laws);
+
+      trustGraph.addAgent('agent', identity.getIdentity(), identity.getCommitment());
+      trustGraph.addAgent('peer', peer.getIdentity(), peer.getCommitment());
+      trustGraph.establishTrustRelationship('agent', 'peer', TrustLevel.HIGH, TrustLevel.HIGH);
+      trustGraph.updateReputation('agent', 'positive', { reliability: 0.9 });
+
+      const previous = identity.getCommitment();
+      const renewed = await identity.renewCommitment();
+
+      expect(await trustGraph.applyCommitmentRenewal('agent', previous, renewed)).toBe(true);
+      expect(trustGraph.getAgent('agent')?.commitmentId).toBe(renewed.id);
+      expect(trustGraph.getAgent('agent')?.reputation.reliability).toBe(0.9);
+      expect(trustGraph.getTrustRelationship('agent', 'peer')?.trustAB).toBe(TrustLevel.HIGH);
+      expect(trustGraph.getUpdateEvents().some(event => event.type === 'commitment_renewed')).toBe(true);
+
+      // Replaying the renewal no longer starts from the agent's current commitment
+      expect(await trustGraph.applyCommitmentRenewal('agent', previous, renewed)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Tests for Cryptographic Utilities
+ */
+
+import {
+  generateHash,
+  digest,
+  generateLegacyHash,
+  generateLegacyMerkleRoot,
+  getHashAlgorithm,
+  verifyHash,
+  generateMerkleRoot,
+  createMerkleProof,
+  verifyMerkleProof,
+  createMerkleConsistencyProof,
+  verifyMerkleConsistencyProof,
+  createSignature,
+  verifySignature,
+  exportPublicKey,
+  encrypt,
+  decrypt,
+  HashAlgorithm,
+} from '../utils/crypto';
+import { getSignatureSuite } from '../utils/signature-suites';
+import { BehavioralAttestationChainFactory } from '../core/behavioral-attestation-chain';
+
+describe('Crypto Utilities', () => {
+  describe('generateHash', () => {
+    test('should produce SHA-256 multihashes by default', () => {
+      expect(generateHash('abc')).toBe(
+        '1220ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      );
+    });
+
+    test('should produce SHA-384 and SHA-512 multihashes', () => {
+      expect(generateHash('abc', 'sha-384')).toBe(
+        '2030cb00753f45a35e8bb5a03d699ac65007272c32ab0eded1631a8b605a43ff5bed8086072ba1e7cc2358baeca134c825a7'
+      );
+      expect(generateHash('abc', 'sha-512')).toBe(
+        '1340ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f'
+      );
+    });
+
+    test('should match the Web Crypto digest for multi-block and non-ASCII input', async () => {
+      const inputs = ['', 'a'.repeat(55), 'b'.repeat(111), 'c'.repeat(1000), 'Law 1 — options & consent ✓'];
+      const algorithms: HashAlgorithm[] = ['sha-256', 'sha-384', 'sha-512'];
+
+      for (const input of inputs) {
+        for (const algorithm of algorithms) {
+          expect(generateHash(input, algorithm)).toBe(await digest(input, algorithm));
+        }
+      }
+    });
+
+    test('should reject unsupported algorithms', () => {
+      expect(() => generateHash('abc', 'md5' as HashAlgorithm)).toThrow('Unsupported hash algorithm');
+    });
+  });
+
+  describe('algorithm agility', () => {
+    test('should identify the algorithm behind a hash', () => {
+      expect(getHashAlgorithm(generateHash('x'))).toBe('sha-256');
+      expect(getHashAlgorithm(generateHash('x', 'sha-384'))).toBe('sha-384');
+      expect(getHashAlgorithm(generateHash('x', 'sha-512'))).toBe('sha-512');
+      expect(getHashAlgorithm(generateLegacyHash('x'))).toBe('legacy');
+      expect(getHashAlgorithm('not-a-hash')).toBeNull();
+    });
+
+    test('should only accept legacy hashes when asked to', () => {
+      expect(verifyHash('data', generateHash('data'))).toBe(true);
+      expect(verifyHash('data', generateHash('data', 'sha-512'))).toBe(true);
+      expect(verifyHash('data', generateLegacyHash('data'))).toBe(false);
+      expect(verifyHash('data', generateLegacyHash('data'), true)).toBe(true);
+      expect(verifyHash('other', generateHash('data'))).toBe(false);
+    });
+
+    test('should only import chains hashed before SHA-2 when asked to', async () => {
+      const keyPair = await getSignatureSuite().generateKeyPair();
+      const bac = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'agent-1');
+      for (let i = 0; i < 3; i++) {
+        await bac.addAction({
+          id: `action-${i}`,
+          type: 'decision',
+          relatedLaw: 'law1',
+          description: 'Legacy action',
+          justification: 'Testing',
+          timestamp: Date.now(),
+          hash: 'test-hash',
+          signature: 'test-signature'
+        });
+      }
+
+      // Rehash the chain the way it was hashed before the move to SHA-2
+      const exported = { ...bac.exportChain(), difficulty: undefined };
+      const entries: typeof exported.entries = [];
+      for (const entry of exported.entries) {
+        const previousHash = entries.length ? entries[entries.length - 1].hash : entry.previousHash;
+        const { attestation, nonce, timestamp } = entry;
+        entries.push({ ...entry, previousHash, hash: generateLegacyHash(JSON.stringify({ previousHash, attestation, nonce, timestamp })) });
+      }
+      const legacy = { ...exported, entries, merkleRoot: generateLegacyMerkleRoot(entries.map(entry => entry.hash)) };
+      const importer = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'importer');
+
+      expect(await importer.importChain(legacy)).toBe(false);
+      expect(await importer.importChain(legacy, undefined, { allowLegacy: true })).toBe(true);
+      expect(await importer.importChain({ ...legacy, merkleRoot: generateLegacyMerkleRoot([...entries.map(entry => entry.hash), 'x']) },
+        undefined, { allowLegacy: true })).toBe(false);
+    });
+
+    test('should only verify Merkle proofs against legacy roots when asked to', () => {
+      const leaves = ['a', 'b', 'c'].map(leaf => generateLegacyHash(leaf));
+      const proof = {
+        leaf: leaves[2],
+        path: [{ hash: leaves[2], position: 'right' as const }, { hash: generateLegacyHash(leaves[0] + leaves[1]), position: 'left' as const }],
+        root: generateLegacyMerkleRoot(leaves),
+        index: 2,
+        treeSize: 3,
+      };
+
+      expect(verifyMerkleProof(proof)).toBe(false);
+      expect(verifyMerkleProof(proof, true)).toBe(true);
+    });
+  });
+
+  describe('Merkle proofs', () => {
+    const leaves = ['a', 'b', 'c', 'd', 'e'].map(leaf => generateHash(leaf));
+
+    test('should verify proofs for every leaf', () => {
+      leaves.forEach((_, index) => {
+        const proof = createMerkleProof(leaves, index);
+        expect(proof.root).toBe(generateMerkleRoot(leaves));
+        expect(verifyMerkleProof(proof)).toBe(true);
+      });
+    });
+
+    test('should give different roots to lists that differ only by a duplicated leaf', () => {
+      expect(generateMerkleRoot(leaves)).not.toBe(generateMerkleRoot([...leaves, leaves[4]]));
+      expect(generateMerkleRoot(leaves.slice(0, 3))).not.toBe(generateMerkleRoot([...leaves.slice(0, 3), leaves[2]]));
+    });
+
+    test('should not accept an interior node as a leaf', () => {
+      const proof = createMerkleProof(leaves, 0);
+      const interior = createMerkleProof(leaves, 2).path[1].hash;
+
+      expect(verifyMerkleProof({ ...proof, leaf: interior, path: proof.path.slice(1), index: 0, treeSize: 3 })).toBe(false);
+    });
+
+    test('should record the tree size and use the RFC 6962 empty root', () => {
+      expect(createMerkleProof(leaves, 4).treeSize).toBe(5);
+      expect(createMerkleProof(leaves, 4).path).toHaveLength(1);
+      expect(generateMerkleRoot([])).toBe(generateHash(''));
+      expect(() => createMerkleProof(leaves, 5)).toThrow('outside a tree');
+    });
+
+    test('should reject proofs whose index, size or positions disagree with the path', () => {
+      const proof = createMerkleProof(leaves, 1);
+      const flipped = proof.path.map((step, i) =>
+        i === 0 ? { ...step, position: step.position === 'left' ? 'right' as const : 'left' as const } : step
+      );
+
+      expect(verifyMerkleProof({ ...proof, index: 0 })).toBe(false);
+      expect(verifyMerkleProof({ ...proof, treeSize: 9 })).toBe(false);
+      expect(verifyMerkleProof({ ...proof, path: flipped })).toBe(false);
+    });
+
+    test('should reject a proof with a tampered leaf', () => {
+      const proof = createMerkleProof(leaves, 2);
+
+      expect(verifyMerkleProof({ ...proof, leaf: generateHash('tampered') })).toBe(false);
+    });
+  });
+
+  describe('Merkle consistency proofs', () => {
+    const leaves = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map(leaf => generateHash(leaf));
+
+    test('should prove every prefix of a tree is consistent with it', () => {
+      for (let newSize = 1; newSize <= leaves.length; newSize++) {
+        for (let oldSize = 0; oldSize <= newSize; oldSize++) {
+          const proof = createMerkleConsistencyProof(leaves.slice(0, newSize), oldSize);
+
+          expect(proof.oldRoot).toBe(generateMerkleRoot(leaves.slice(0, oldSize)));
+          expect(proof.newRoot).toBe(generateMerkleRoot(leaves.slice(0, newSize)));
+          expect(verifyMerkleConsistencyProof(proof)).toBe(true);
+        }
+      }
+    });
+
+    test('should reject a rewritten history', () => {
+      const rewritten = [...leaves];
+      rewritten[1] = generateHash('rewritten');
+      const honest = createMerkleConsistencyProof(leaves.slice(0, 7), 3);
+      const forged = createMerkleConsistencyProof(rewritten.slice(0, 7), 3);
+
+      expect(verifyMerkleConsistencyProof({ ...forged, oldRoot: honest.oldRoot })).toBe(false);
+      expect(verifyMerkleConsistencyProof({ ...honest, newRoot: forged.newRoot })).toBe(false);
+    });
+
+    test('should reject mismatched sizes and truncated paths', () => {
+      const proof = createMerkleConsistencyProof(leaves.slice(0, 6), 3);
+
+      expect(verifyMerkleConsistencyProof({ ...proof, oldSize: 2 })).toBe(false);
+      expect(verifyMerkleConsistencyProof({ ...proof, newSize: 12 })).toBe(false);
+      expect(verifyMerkleConsistencyProof({ ...proof, path: proof.path.slice(1) })).toBe(false);
+      expect(() => createMerkleConsistencyProof(leaves, 9)).toThrow('outside a tree');
+    });
+  });
+
+  describe('signatures', () => {
+    let keyPair: CryptoKeyPair;
+
+    const toBase64Url = (buffer: ArrayBuffer): string =>
+      btoa(String.fromCharCode(...new Uint8Array(buffer)))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+
+    beforeAll(async () => {
+      keyPair = await crypto.subtle.generateKey(
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        true,
+        ['sign', 'verify']
+      );
+    });
+
+    test('should verify with SPKI, JWK and raw compressed public keys', async () => {
+      const signature = await createSignature('signed payload', keyPair.privateKey);
+
+      const spki = toBase64Url(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+      const jwk = JSON.stringify(await crypto.subtle.exportKey('jwk', keyPair.publicKey));
+      const raw = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+      const compressed = new Uint8Array(33);
+      compressed[0] = 0x02 | (raw[64] & 1);
+      compressed.set(raw.slice(1, 33), 1);
+
+      expect(await verifySignature('signed payload', signature, spki)).toBe(true);
+      expect(await verifySignature('signed payload', signature, jwk)).toBe(true);
+      expect(await verifySignature('signed payload', signature, toBase64Url(compressed.buffer))).toBe(true);
+    });
+
+    test('should reject tampered data and placeholder keys', async () => {
+      const signature = await createSignature('signed payload', keyPair.privateKey);
+      const jwk = JSON.stringify(await crypto.subtle.exportKey('jwk', keyPair.publicKey));
+
+      expect(await verifySignature('tampered payload', signature, jwk)).toBe(false);
+      expect(await verifySignature('signed payload', signature, 'public-key-placeholder')).toBe(false);
+      expect(await verifySignature('signed payload', '', jwk)).toBe(false);
+    });
+  });
+
+  describe('hybrid encryption', () => {
+    test.each(['ecdsa-p256-sha256', 'ed25519'])('should round-trip to a %s identity key', async suiteId => {
+      const keyPair = await getSignatureSuite(suiteId).generateKeyPair();
+      const { spki, fingerprint } = await exportPublicKey(keyPair.publicKey);
+
+      const envelope = await encrypt('attestation payload', spki, {
+        signatureSuite: suiteId,
+        associatedData: 'session-123',
+      });
+
+      expect(envelope.version).toBe(1);
+      expect(envelope.recipientKeyId).toBe(fingerprint);
+      expect(envelope.ciphertext).not.toContain('attestation');
+      expect(await decrypt(envelope, keyPair.privateKey, 'session-123')).toBe('attestation payload');
+      expect(await decrypt(JSON.stringify(envelope), keyPair.privateKey)).toBe('attestation payload');
+    });
+
+    test('should reject tampered headers and the wrong recipient', async () => {
+      const suite = getSignatureSuite('ecdsa-p256-sha256');
+      const recipient = await suite.generateKeyPair();
+      const stranger = await suite.generateKeyPair();
+      const { spki } = await exportPublicKey(recipient.publicKey);
+
+      const envelope = await encrypt('secret', spki, { associatedData: 'context' });
+
+      await expect(decrypt({ ...envelope, associatedData: 'other' }, recipient.privateKey)).rejects.toThrow();
+      await expect(decrypt(envelope, recipient.privateKey, 'other')).rejects.toThrow();
+      await expect(decrypt(envelope, stranger.privateKey)).rejects.toThrow();
+      await expect(decrypt({ ...envelope, algorithm: 'ECDH-P384+HKDF-SHA256+A256GCM' }, recipient.privateKey)).rejects.toThrow();
+      await expect(decrypt({ ...envelope, algorithm: 'X25519+HKDF-SHA256+A256GCM' }, recipient.privateKey)).rejects.toThrow();
+    });
+  });
+});
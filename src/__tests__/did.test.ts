@@ -0,0 +1,194 @@
+/**
+ * Tests for DIDs and the DID Resolver
+ */
+
+import { DIDResolver, InMemoryDIDRegistry } from '../core/did-resolver';
+import { ConstitutionalIdentity, ConstitutionalIdentityVerifier } from '../core/constitutional-identity';
+import { RevocationRegistry } from '../core/revocation-registry';
+import { createDidKey, decodeDidKey, parseDID } from '../utils/did';
+import { toBase58, fromBase58 } from '../utils/encoding';
+import { exportPublicKey } from '../utils/crypto';
+import { getSignatureSuite, ECDSA_P256_SUITE_ID, ED25519_SUITE_ID } from '../utils/signature-suites';
+import { ConstitutionalLaws } from '../types/constitutional';
+
+describe('DIDs', () => {
+  const laws: ConstitutionalLaws = {
+    law1: {
+      name: 'Options and Consent',
+      principle: 'Do not unjustifiably reduce another\'s options; when feasible and consented, increase them; if expansion conflicts with privacy or agreed fairness, protect those first.',
+      parameters: ['justification recorded']
+    },
+    law2: {
+      name: 'Corrigibility and Oversight',
+      principle: 'Remain correctable by stewards who are both authorized and accountable to affected users; provide auditable logs; allow safe interruption with safeguards.',
+      parameters: ['steward legitimacy']
+    },
+    law3: {
+      name: 'Reversibility and Proportion',
+      principle: 'Prefer reversible, low impact actions justified by reasons; escalate to higher impact only with explicit proportionality or urgent prevention of Law 1 violations.',
+      parameters: ['reversible means']
+    },
+    law4: {
+      name: 'Commitments with a Safety Valve',
+      principle: 'Keep explicit promises; if fulfillment would cause a serious Law 1 violation, pause, notify parties, and seek renegotiation with transparent logging.',
+      parameters: ['commitment registry']
+    },
+    law5: {
+      name: 'Scoped Exploration',
+      principle: 'Explore to improve understanding and competence within the bounds of Laws 1 through 4; declare scope and budget; obtain consent when shared resources or people are affected.',
+      parameters: ['scope declaration']
+    }
+  };
+
+  async function createIdentity(suiteId: string = ECDSA_P256_SUITE_ID): Promise<ConstitutionalIdentity> {
+    const identity = new ConstitutionalIdentity(await getSignatureSuite(suiteId).generateKeyPair(), laws);
+    await identity.initializeCommitment(laws);
+    return identity;
+  }
+
+  test('should encode base58btc with leading zeros', () => {
+    const bytes = new Uint8Array([0, 0, 1, 255, 16]);
+
+    expect(toBase58(new Uint8Array([0, 0, 1]))).toBe('112');
+    expect(toBase58(new TextEncoder().encode('hello'))).toBe('Cn8eVZg');
+    expect(fromBase58(toBase58(bytes))).toEqual(bytes);
+    expect(() => fromBase58('0OIl')).toThrow('Invalid base58 string');
+  });
+
+  test('should parse DIDs and DID URLs', () => {
+    expect(parseDID('did:chp:1220ab#key-1')).toEqual({ method: 'chp', id: '1220ab', fragment: 'key-1' });
+    expect(parseDID('did:key:z6Mk')).toEqual({ method: 'key', id: 'z6Mk', fragment: undefined });
+    expect(parseDID('chp:1220ab')).toBeNull();
+    expect(parseDID('did:chp:')).toBeNull();
+  });
+
+  test.each([
+    [ED25519_SUITE_ID, 'did:key:z6Mk'],
+    [ECDSA_P256_SUITE_ID, 'did:key:zDn'],
+  ])('should round-trip %s keys through did:key', async (suiteId, prefix) => {
+    const keyPair = await getSignatureSuite(suiteId).generateKeyPair();
+    const { spki, jwk } = await exportPublicKey(keyPair.publicKey);
+    const did = await createDidKey(spki, suiteId);
+
+    expect(did.startsWith(prefix)).toBe(true);
+    expect(await decodeDidKey(did)).toEqual({ signatureSuite: suiteId, publicKey: spki });
+
+    const { didDocument } = await new DIDResolver().resolve(did);
+    expect(didDocument?.id).toBe(did);
+    expect(didDocument?.verificationMethod[0].publicKeyJwk).toEqual(jwk);
+    expect(didDocument?.authentication).toEqual([didDocument?.verificationMethod[0].id]);
+  });
+
+  test('should resolve the did:key specification test vector', async () => {
+    const did = 'did:key:z6MkiTBz1ymuepAQ4HEHYSF1H8quG5GLVVQR3djdX3mDooWp';
+    const { didDocument } = await new DIDResolver().resolve(did);
+
+    expect(didDocument?.verificationMethod[0].publicKeyJwk).toEqual({
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: 'O2onvM62pC1io6jQKm8Nc2UyFXcd4kOmOsBIoYtZ2ik',
+    });
+    expect(await createDidKey((await decodeDidKey(did)).publicKey, ED25519_SUITE_ID)).toBe(did);
+  });
+
+  test('should resolve a registered did:chp identity', async () => {
+    const identity = await createIdentity(ED25519_SUITE_ID);
+    const resolver = new DIDResolver();
+    const service = { id: `${identity.getDID()}#handshake`, type: 'CHPHandshake', serviceEndpoint: 'https://agent.example/chp' };
+
+    const did = await resolver.register(identity, [service]);
+    const { didDocument, didDocumentMetadata } = await resolver.resolve(did);
+
+    expect(did).toBe(`did:chp:${identity.getIdentity()}`);
+    expect(didDocument?.verificationMethod[0]).toEqual({
+      id: `${did}#${identity.getKeyFingerprint()}`,
+      type: 'JsonWebKey2020',
+      controller: did,
+      publicKeyJwk: identity.getPublicKeyInfo().jwk,
+    });
+    expect(didDocument?.constitutionHash).toBe(identity.getCommitment().lawsHash);
+    expect(didDocument?.service).toEqual([service]);
+    expect(didDocumentMetadata.deactivated).toBe(false);
+  });
+
+  test('should keep the DID across key rotations', async () => {
+    const identity = await createIdentity();
+    const resolver = new DIDResolver();
+    const did = await resolver.register(identity);
+
+    await identity.rotateKey(await getSignatureSuite(ED25519_SUITE_ID).generateKeyPair());
+    expect(await resolver.register(identity)).toBe(did);
+
+    const { didDocument } = await resolver.resolve(did);
+    expect(didDocument?.verificationMethod[0].publicKeyJwk).toEqual(identity.getPublicKeyInfo().jwk);
+  });
+
+  test('should not resolve tampered or forged records', async () => {
+    const registry = new InMemoryDIDRegistry();
+    const resolver = new DIDResolver(registry);
+    const victim = await createIdentity();
+    const attacker = await createIdentity();
+    const did = await resolver.register(victim);
+
+    const record = (await registry.get(did))!;
+    await registry.put(did, { ...record, services: [{ id: `${did}#evil`, type: 'CHPHandshake', serviceEndpoint: 'https://evil.example' }] });
+    expect((await resolver.resolve(did)).didResolutionMetadata.error).toBe('notFound');
+
+    await resolver.register(attacker);
+    const attackerRecord = (await registry.get(attacker.getDID()))!;
+    await registry.put(did, { ...attackerRecord, commitment: { ...attackerRecord.commitment, identityId: victim.getIdentity() } });
+    expect((await resolver.resolve(did)).didResolutionMetadata.error).toBe('notFound');
+  });
+
+  test('should not resolve a commitment whose ID was transplanted from another identity', async () => {
+    const registry = new InMemoryDIDRegistry();
+    const resolver = new DIDResolver(registry);
+    const victim = await createIdentity();
+    const attacker = await createIdentity();
+    const did = victim.getDID();
+
+    // The attacker re-signs its own commitment under the victim's identity ID
+    const unsigned = { ...attacker.getCommitment(), id: victim.getIdentity() };
+    const forged = {
+      ...unsigned,
+      signature: await attacker.getKeyProvider().sign(ConstitutionalIdentityVerifier.getCommitmentPayload(unsigned)),
+    };
+    expect(await ConstitutionalIdentityVerifier.verify(forged)).toBe(false);
+
+    const record = { initialCommitment: forged, commitment: forged, successionRecords: [], services: [], created: Date.now(), updated: Date.now() };
+    await registry.put(did, { ...record, signature: await attacker.getKeyProvider().sign(DIDResolver['getRecordPayload'](did, record)) });
+    expect((await resolver.resolve(did)).didResolutionMetadata.error).toBe('notFound');
+  });
+
+  test('should reject key rotations signed after the old key was revoked', async () => {
+    const identity = await createIdentity();
+    const registry = new InMemoryDIDRegistry();
+    const revocationRegistry = new RevocationRegistry();
+    const resolver = new DIDResolver(registry, revocationRegistry);
+    const did = await resolver.register(identity);
+
+    const statement = await identity.createRevocation('key', 'key_compromise');
+    await revocationRegistry.revoke(statement);
+    jest.spyOn(Date, 'now').mockReturnValue(statement.revokedAt + 1000);
+    await identity.rotateKey(await getSignatureSuite().generateKeyPair());
+    await resolver.register(identity);
+    jest.restoreAllMocks();
+
+    expect((await new DIDResolver(registry).resolve(did)).didDocument).not.toBeNull();
+    expect((await resolver.resolve(did)).didResolutionMetadata.error).toBe('notFound');
+  });
+
+  test('should report revoked identities as deactivated and reject unknown DIDs', async () => {
+    const identity = await createIdentity();
+    const revocationRegistry = new RevocationRegistry();
+    const resolver = new DIDResolver(new InMemoryDIDRegistry(), revocationRegistry);
+    const did = await resolver.register(identity);
+
+    await revocationRegistry.revoke(await identity.createRevocation('key', 'key_compromise'));
+
+    expect((await resolver.resolve(did)).didDocumentMetadata.deactivated).toBe(true);
+    expect((await resolver.resolve('did:chp:unknown')).didResolutionMetadata.error).toBe('notFound');
+    expect((await resolver.resolve('did:web:example.com')).didResolutionMetadata.error).toBe('methodNotSupported');
+    expect((await resolver.resolve('not-a-did')).didResolutionMetadata.error).toBe('invalidDid');
+  });
+});
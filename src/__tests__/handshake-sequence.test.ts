@@ -0,0 +1,313 @@
+/**
+ * Tests for Constitutional Handshake Sequence
+ */
+
+import { ConstitutionalHandshakeSequenceFactory, HandshakeSession, HandshakeState } from '../core/handshake-sequence';
+import { ConstitutionalIdentity } from '../core/constitutional-identity';
+import { BehavioralAttestationChain, BehavioralAttestationChainFactory } from '../core/behavioral-attestation-chain';
+import { TrustGraphProtocolFactory } from '../core/trust-graph-protocol';
+import { ConstitutionalLaws } from '../types/constitutional';
+import { getSignatureSuite, ECDSA_P256_SUITE_ID, ED25519_SUITE_ID } from '../utils/signature-suites';
+import { loadConstitutionFile, loadConstitution, getConstitutionVersion } from '../utils/constitution';
+import { createQuorumPolicy } from '../utils/multisig';
+import { exportPublicKey, generateHash } from '../utils/crypto';
+import { resolve } from 'path';
+
+describe('ConstitutionalHandshakeSequence', () => {
+  const laws: ConstitutionalLaws = {
+    law1: {
+      name: 'Options and Consent',
+      principle: 'Do not unjustifiably reduce another\'s options; when feasible and consented, increase them; if expansion conflicts with privacy or agreed fairness, protect those first.',
+      parameters: ['justification recorded']
+    },
+    law2: {
+      name: 'Corrigibility and Oversight',
+      principle: 'Remain correctable by stewards who are both authorized and accountable to affected users; provide auditable logs; allow safe interruption with safeguards.',
+      parameters: ['steward legitimacy']
+    },
+    law3: {
+      name: 'Reversibility and Proportion',
+      principle: 'Prefer reversible, low impact actions justified by reasons; escalate to higher impact only with explicit proportionality or urgent prevention of Law 1 violations.',
+      parameters: ['reversible means']
+    },
+    law4: {
+      name: 'Commitments with a Safety Valve',
+      principle: 'Keep explicit promises; if fulfillment would cause a serious Law 1 violation, pause, notify parties, and seek renegotiation with transparent logging.',
+      parameters: ['commitment registry']
+    },
+    law5: {
+      name: 'Scoped Exploration',
+      principle: 'Explore to improve understanding and competence within the bounds of Laws 1 through 4; declare scope and budget; obtain consent when shared resources or people are affected.',
+      parameters: ['scope declaration']
+    }
+  };
+
+  const action = (id: string) => ({
+    id,
+    type: 'decision' as const,
+    relatedLaw: 'law1' as const,
+    description: 'Handshake test action',
+    justification: 'Testing',
+    timestamp: Date.now(),
+    hash: 'test-hash',
+    signature: 'test-signature'
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function createParticipant(agentId: string, suiteId: string, validFor?: number): Promise<{
+    identity: ConstitutionalIdentity;
+    bac: BehavioralAttestationChain;
+  }> {
+    const keyPair = await getSignatureSuite(suiteId).generateKeyPair();
+    const identity = new ConstitutionalIdentity(keyPair, laws);
+    await identity.initializeCommitment(laws, { validFor });
+    const bac = await BehavioralAttestationChainFactory.create(keyPair.privateKey, agentId);
+    await bac.addAction(action(`${agentId}-action`));
+    return { identity, bac };
+  }
+
+  test('should negotiate a signature suite both parties accept', async () => {
+    const alice = await createParticipant('alice', ED25519_SUITE_ID);
+    const bob = await createParticipant('bob', ECDSA_P256_SUITE_ID);
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+
+    const session = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    expect(session.offeredSignatureSuites[0]).toBe(ED25519_SUITE_ID);
+
+    await sequence.respondToHandshake(session.sessionId, bob.identity, bob.bac);
+
+    expect(session.signatureSuite).toBe(ED25519_SUITE_ID);
+    expect(session.state).not.toBe(HandshakeState.HANDSHAKE_FAILED);
+    expect(session.evidence.find(e => e.type === 'peer_verification')?.data.keyPossessionVerified).toBe(true);
+  });
+
+  test('should report a missing proof of possession and fail when one is required', async () => {
+    const alice = await createParticipant('alice', ED25519_SUITE_ID);
+    const bob = await createParticipant('bob', ED25519_SUITE_ID);
+    jest.spyOn(bob.bac, 'createPossessionProof').mockRejectedValue(new Error('Signer does not support proofs of possession'));
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+
+    const reported = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    await sequence.respondToHandshake(reported.sessionId, bob.identity, bob.bac);
+    const verification = reported.evidence.find(e => e.type === 'peer_verification');
+
+    expect(verification?.data.keyPossessionVerified).toBe(false);
+    expect(verification?.data.keyPossessionProofPresented).toBe(false);
+    expect(verification?.confidence).toBeLessThan(0.8);
+
+    sequence.setRequireKeyPossessionProof(true);
+    const required = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    const result = await sequence.respondToHandshake(required.sessionId, bob.identity, bob.bac);
+
+    expect(result?.success).toBe(false);
+    expect(result?.errors).toContain('Peer did not prove possession of its committed key');
+  });
+
+  test('should fail when the responder does not accept the initiator\'s suite', async () => {
+    const alice = await createParticipant('alice', ED25519_SUITE_ID);
+    const bob = await createParticipant('bob', ECDSA_P256_SUITE_ID);
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+
+    const session = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    const result = await sequence.respondToHandshake(session.sessionId, bob.identity, bob.bac, [ECDSA_P256_SUITE_ID]);
+
+    expect(result?.success).toBe(false);
+    expect(result?.errors).toContain('No mutually accepted signature suite');
+    expect(session.state).toBe(HandshakeState.HANDSHAKE_FAILED);
+  });
+
+  test('should disclose only the law and time of recent actions', async () => {
+    const alice = await createParticipant('alice', ECDSA_P256_SUITE_ID);
+    const bob = await createParticipant('bob', ECDSA_P256_SUITE_ID);
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+
+    const session = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    await sequence.respondToHandshake(session.sessionId, bob.identity, bob.bac);
+    const attestationEvidence = session.evidence.find(e => e.type === 'behavioral_attestation');
+
+    expect(attestationEvidence?.data.recentDisclosures).toHaveLength(1);
+    expect(JSON.stringify(attestationEvidence)).not.toContain('Handshake test action');
+    expect(session.evidence.find(e => e.type === 'peer_verification')?.data.attestationValid).toBe(true);
+  });
+
+  test('should have both parties sign a transcript of both challenges', async () => {
+    const alice = await createParticipant('alice', ED25519_SUITE_ID);
+    const bob = await createParticipant('bob', ECDSA_P256_SUITE_ID);
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+
+    const session = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    await sequence.respondToHandshake(session.sessionId, bob.identity, bob.bac);
+
+    expect(session.state).toBe(HandshakeState.HANDSHAKE_COMPLETE);
+    expect(session.responderChallenge).toBeDefined();
+    expect(session.responderChallenge).not.toBe(session.initiatorChallenge);
+    expect(session.transcriptSignatures.initiator).toBeDefined();
+    expect(session.transcriptSignatures.responder).toBeDefined();
+  });
+
+  test('should reject a responder replaying another agent\'s commitment', async () => {
+    const alice = await createParticipant('alice', ECDSA_P256_SUITE_ID);
+    const bob = await createParticipant('bob', ECDSA_P256_SUITE_ID);
+    const mallory = await createParticipant('bob', ECDSA_P256_SUITE_ID);
+    jest.spyOn(mallory.identity, 'getCommitment').mockReturnValue(bob.identity.getCommitment());
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+
+    const session = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    const result = await sequence.respondToHandshake(session.sessionId, mallory.identity, mallory.bac);
+
+    expect(result?.success).toBe(false);
+    expect(result?.errors).toContain('Handshake transcript is stale or does not match this session');
+  });
+
+  test('should reject a transcript answered after the handshake time limit', async () => {
+    const alice = await createParticipant('alice', ECDSA_P256_SUITE_ID);
+    const bob = await createParticipant('bob', ECDSA_P256_SUITE_ID);
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+
+    const session = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    const later = Date.now() + 10 * 60 * 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(later);
+    const result = await sequence.respondToHandshake(session.sessionId, bob.identity, bob.bac);
+
+    expect(result?.success).toBe(false);
+    expect(result?.errors).toContain('Handshake transcript is stale or does not match this session');
+  });
+
+  test('should fail on a forged commitment without updating trust', async () => {
+    const alice = await createParticipant('alice', ECDSA_P256_SUITE_ID);
+    const bob = await createParticipant('bob', ECDSA_P256_SUITE_ID);
+    const forged = { ...alice.identity.getCommitment(), lawsHash: generateHash('forged laws') };
+    jest.spyOn(alice.identity, 'getCommitment').mockReturnValue(forged);
+    const trustGraph = TrustGraphProtocolFactory.create();
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(trustGraph);
+
+    const session = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    const result = await sequence.respondToHandshake(session.sessionId, bob.identity, bob.bac);
+
+    expect(result?.success).toBe(false);
+    expect(result?.errors).toContain('Constitutional commitment failed verification');
+    expect(session.state).toBe(HandshakeState.HANDSHAKE_FAILED);
+    expect(trustGraph.getTrustRelationship('alice', 'bob')).toBeNull();
+    expect(trustGraph.getAgent('bob')?.reputation.positiveInteractions ?? 0).toBe(0);
+  });
+
+  test('should fail on an expired initiator commitment and succeed once it is renewed', async () => {
+    const alice = await createParticipant('alice', ECDSA_P256_SUITE_ID, 1000);
+    const bob = await createParticipant('bob', ECDSA_P256_SUITE_ID);
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+    jest.spyOn(Date, 'now').mockReturnValue(alice.identity.getCommitment().expiresAt! + 1000);
+
+    const expired = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    const failed = await sequence.respondToHandshake(expired.sessionId, bob.identity, bob.bac);
+
+    expect(failed?.success).toBe(false);
+    expect(failed?.errors).toContain('Constitutional commitment failed verification');
+
+    await alice.identity.renewCommitment();
+    const renewed = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    const result = await sequence.respondToHandshake(renewed.sessionId, bob.identity, bob.bac);
+
+    expect(result?.success).toBe(true);
+    expect(renewed.evidence.find(e => e.type === 'peer_verification')?.data).toMatchObject({
+      commitmentValid: true,
+      attestationValid: true,
+    });
+  });
+
+  test('should not accept the attestations of a responder whose commitment has expired', async () => {
+    const alice = await createParticipant('alice', ECDSA_P256_SUITE_ID);
+    const bob = await createParticipant('bob', ECDSA_P256_SUITE_ID, 1000);
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+    jest.spyOn(Date, 'now').mockReturnValue(bob.identity.getCommitment().expiresAt! + 1000);
+
+    const expired = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    await sequence.respondToHandshake(expired.sessionId, bob.identity, bob.bac);
+
+    expect(expired.evidence.find(e => e.type === 'peer_verification')?.data.attestationValid).toBe(false);
+
+    await bob.identity.renewCommitment();
+    const renewed = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    await sequence.respondToHandshake(renewed.sessionId, bob.identity, bob.bac);
+
+    expect(renewed.evidence.find(e => e.type === 'peer_verification')?.data.attestationValid).toBe(true);
+  });
+
+  test('should report the latest constitution version both parties share', async () => {
+    const v1 = await loadConstitutionFile(resolve(__dirname, '../../constitution-machine-readable.json'));
+    const v11 = loadConstitution({ ...v1.document, constitution: { ...v1.document.constitution, version: '1.1.0' } });
+    const alice = await createParticipant('alice', ED25519_SUITE_ID);
+    const bob = await createParticipant('bob', ED25519_SUITE_ID);
+    await alice.identity.initializeCommitment(v11, { compatibleWith: [getConstitutionVersion(v1)] });
+    await bob.identity.initializeCommitment(v1);
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+
+    const handshake = async () => {
+      const session = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+      return await sequence.respondToHandshake(session.sessionId, bob.identity, bob.bac);
+    };
+
+    expect((await handshake())?.sharedConstitutionVersion).toEqual(getConstitutionVersion(v1));
+
+    // Once amendments are required, an unbacked compatibility claim no longer counts
+    const maintainer = await getSignatureSuite(ED25519_SUITE_ID).generateKeyPair();
+    sequence.setAmendmentPolicy(createQuorumPolicy(1, [{
+      publicKey: (await exportPublicKey(maintainer.publicKey)).spki,
+      signatureSuite: ED25519_SUITE_ID,
+    }]));
+    const result = await handshake();
+    expect(result?.success).toBe(true);
+    expect(result?.sharedConstitutionVersion).toBeUndefined();
+  });
+
+  test('should only accept attested actions under the recognized laws', async () => {
+    const alice = await createParticipant('alice', ED25519_SUITE_ID);
+    const bob = await createParticipant('bob', ED25519_SUITE_ID);
+    await bob.bac.addAction({ ...action('bob-law6-action'), relatedLaw: 'law6' });
+
+    const fiveLaws = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+    const rejected = await fiveLaws.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    await fiveLaws.respondToHandshake(rejected.sessionId, bob.identity, bob.bac);
+
+    const sevenLaws = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+    sevenLaws.setRecognizedLaws(['law1', 'law2', 'law3', 'law4', 'law5', 'law6', 'law7']);
+    const accepted = await sevenLaws.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+    await sevenLaws.respondToHandshake(accepted.sessionId, bob.identity, bob.bac);
+
+    expect(rejected.evidence.find(e => e.type === 'peer_verification')?.data.attestationValid).toBe(false);
+    expect(accepted.evidence.find(e => e.type === 'peer_verification')?.data.attestationValid).toBe(true);
+  });
+
+  test('should require a consistency proof against the cached chain head', async () => {
+    const alice = await createParticipant('alice', ECDSA_P256_SUITE_ID);
+    const bob = await createParticipant('bob', ECDSA_P256_SUITE_ID);
+    const trustGraph = TrustGraphProtocolFactory.create();
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(trustGraph);
+
+    const handshake = async (responder: { identity: ConstitutionalIdentity; bac: BehavioralAttestationChain }) => {
+      const session = await sequence.initiateHandshake('alice', 'bob', alice.identity, alice.bac);
+      await sequence.respondToHandshake(session.sessionId, responder.identity, responder.bac);
+      return session;
+    };
+    const verification = (session: HandshakeSession) => session.evidence.find(e => e.type === 'peer_verification')?.data;
+
+    expect(verification(await handshake(bob)).historyConsistent).toBe(true);
+    expect(trustGraph.getChainHead('bob')?.treeSize).toBe(1);
+
+    await bob.bac.addAction(action('bob-second-action'));
+    expect(verification(await handshake(bob)).historyConsistent).toBe(true);
+    expect(trustGraph.getChainHead('bob')?.treeSize).toBe(2);
+
+    // Same agent ID, but a chain that does not extend the one we saw
+    const impostor = await createParticipant('bob', ECDSA_P256_SUITE_ID);
+    await impostor.bac.addAction(action('rewritten-action'));
+    const rewritten = await handshake(impostor);
+
+    expect(rewritten.state).toBe(HandshakeState.HANDSHAKE_FAILED);
+    expect(rewritten.result?.success).toBe(false);
+    expect(rewritten.result?.errors).toContain('Behavioral attestation chain does not extend the previously seen chain head');
+    expect(trustGraph.getChainHead('bob')?.treeSize).toBe(2);
+  });
+});
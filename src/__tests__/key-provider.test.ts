@@ -0,0 +1,158 @@
+/**
+ * Tests for Key Providers
+ */
+
+import { InMemoryKeyProvider, isKeyProvider, toKeyProvider } from '../utils/key-provider';
+import { ChildProcessKeyProvider } from '../utils/child-process-signer';
+import { saveKeystore, loadKeystore, MIN_KEYSTORE_ITERATIONS } from '../utils/keystore';
+import { verifySignature, exportPublicKey, createSignature } from '../utils/crypto';
+import { canonicalize } from '../utils/canonical-json';
+import { getSignatureSuite } from '../utils/signature-suites';
+import { ConstitutionalIdentityVerifier } from '../core/constitutional-identity';
+import { CHPFactory } from '../chp';
+import { ConstitutionalLaws } from '../types/constitutional';
+
+describe('Key Providers', () => {
+  const laws: ConstitutionalLaws = {
+    law1: {
+      name: 'Options and Consent',
+      principle: 'Do not unjustifiably reduce another\'s options; when feasible and consented, increase them; if expansion conflicts with privacy or agreed fairness, protect those first.',
+      parameters: ['justification recorded']
+    },
+    law2: {
+      name: 'Corrigibility and Oversight',
+      principle: 'Remain correctable by stewards who are both authorized and accountable to affected users; provide auditable logs; allow safe interruption with safeguards.',
+      parameters: ['steward legitimacy']
+    },
+    law3: {
+      name: 'Reversibility and Proportion',
+      principle: 'Prefer reversible, low impact actions justified by reasons; escalate to higher impact only with explicit proportionality or urgent prevention of Law 1 violations.',
+      parameters: ['reversible means']
+    },
+    law4: {
+      name: 'Commitments with a Safety Valve',
+      principle: 'Keep explicit promises; if fulfillment would cause a serious Law 1 violation, pause, notify parties, and seek renegotiation with transparent logging.',
+      parameters: ['commitment registry']
+    },
+    law5: {
+      name: 'Scoped Exploration',
+      principle: 'Explore to improve understanding and competence within the bounds of Laws 1 through 4; declare scope and budget; obtain consent when shared resources or people are affected.',
+      parameters: ['scope declaration']
+    }
+  };
+
+  const iterations = MIN_KEYSTORE_ITERATIONS;
+
+  describe('InMemoryKeyProvider', () => {
+    test('should sign with a key pair or a lone extractable private key', async () => {
+      const keyPair = await getSignatureSuite('ed25519').generateKeyPair();
+      const { spki } = await exportPublicKey(keyPair.publicKey);
+
+      for (const provider of [new InMemoryKeyProvider(keyPair), new InMemoryKeyProvider(keyPair.privateKey)]) {
+        expect(provider.algorithm).toBe('ed25519');
+        expect((await provider.getPublicKey()).spki).toBe(spki);
+        expect(await verifySignature('payload', await provider.sign('payload'), spki, 'ed25519')).toBe(true);
+      }
+    });
+
+    test('should wrap Web Crypto keys and pass providers through', async () => {
+      const keyPair = await getSignatureSuite().generateKeyPair();
+      const provider = await InMemoryKeyProvider.generate();
+
+      expect(isKeyProvider(keyPair)).toBe(false);
+      expect(isKeyProvider(provider)).toBe(true);
+      expect(toKeyProvider(provider)).toBe(provider);
+      expect(toKeyProvider(keyPair)).toBeInstanceOf(InMemoryKeyProvider);
+    });
+  });
+
+  describe('ChildProcessKeyProvider', () => {
+    let provider: ChildProcessKeyProvider | undefined;
+
+    afterEach(async () => {
+      await provider?.close();
+      provider = undefined;
+    });
+
+    test.each(['ecdsa-p256-sha256', 'ed25519'])('should sign with a %s key held by the signer process', async suiteId => {
+      provider = await ChildProcessKeyProvider.generate(suiteId);
+      const { spki } = await provider.getPublicKey();
+
+      expect(provider.algorithm).toBe(suiteId);
+      expect(await verifySignature('payload', await provider.sign('payload'), spki, suiteId)).toBe(true);
+      expect(await verifySignature('other', await provider.sign('payload'), spki, suiteId)).toBe(false);
+    });
+
+    test('should back a full agent without the private key in process', async () => {
+      provider = await ChildProcessKeyProvider.generate();
+      const chp = await CHPFactory.fromKeys(provider, laws, 'hsm-agent');
+      const commitment = chp.getCommitment();
+
+      expect(commitment.keyFingerprint).toBe((await provider.getPublicKey()).fingerprint);
+      expect(await ConstitutionalIdentityVerifier.verify(commitment)).toBe(true);
+
+      await chp.recordAction({
+        id: 'action-1',
+        type: 'decision',
+        relatedLaw: 'law1',
+        description: 'Signed out of process',
+        justification: 'Testing',
+        timestamp: Date.now(),
+        hash: 'test-hash',
+        signature: 'test-signature'
+      });
+      const { attestation } = chp.exportAgentData().attestationChain.entries[0];
+
+      expect(attestation.keyFingerprint).toBe(commitment.keyFingerprint);
+      expect(await verifySignature(
+        canonicalize(attestation.data),
+        attestation.proof,
+        commitment.publicKey,
+        attestation.signatureSuite
+      )).toBe(true);
+    });
+
+    test('should rotate to a new signer process and stop the old one', async () => {
+      provider = await ChildProcessKeyProvider.generate();
+      const chp = await CHPFactory.fromKeys(provider, laws, 'hsm-agent');
+      const generate = jest.spyOn(ChildProcessKeyProvider, 'generate');
+
+      const record = await chp.rotateKey();
+      const successor: ChildProcessKeyProvider = await generate.mock.results[0].value;
+      generate.mockRestore();
+
+      expect(record.nextKeyFingerprint).toBe((await successor.getPublicKey()).fingerprint);
+      expect(chp.getCommitment().keyFingerprint).toBe(record.nextKeyFingerprint);
+      expect(await ConstitutionalIdentityVerifier.verify(chp.getCommitment())).toBe(true);
+      await expect(provider.sign('payload')).rejects.toThrow('Signer process exited');
+
+      provider = successor;
+    });
+
+    test('should exchange keystores with the in-process keystore format', async () => {
+      const keyPair = await getSignatureSuite('ed25519').generateKeyPair();
+      const { spki } = await exportPublicKey(keyPair.publicKey);
+      const keystore = await saveKeystore(keyPair, 'secret', { iterations });
+
+      provider = await ChildProcessKeyProvider.fromKeystore(JSON.stringify(keystore), 'secret');
+      expect((await provider.getPublicKey()).spki).toBe(spki);
+
+      const exported = await provider.exportKeystore('new-secret', { agentId: 'agent-1', iterations });
+      const restored = await loadKeystore(exported, 'new-secret');
+
+      expect(exported.agentId).toBe('agent-1');
+      expect(await verifySignature('payload', await createSignature('payload', restored.privateKey), spki, 'ed25519'))
+        .toBe(true);
+    });
+
+    test('should reject a wrong keystore password and stop after close', async () => {
+      const keystore = await saveKeystore(await getSignatureSuite().generateKeyPair(), 'secret', { iterations });
+
+      await expect(ChildProcessKeyProvider.fromKeystore(keystore, 'wrong')).rejects.toThrow('Failed to load keystore');
+
+      provider = await ChildProcessKeyProvider.generate();
+      await provider.close();
+      await expect(provider.sign('payload')).rejects.toThrow('Signer process exited');
+    });
+  });
+});
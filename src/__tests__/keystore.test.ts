@@ -0,0 +1,64 @@
+/**
+ * Tests for the Keystore
+ */
+
+import { saveKeystore, loadKeystore, DEFAULT_KEYSTORE_ITERATIONS, MIN_KEYSTORE_ITERATIONS, MAX_KEYSTORE_ITERATIONS } from '../utils/keystore';
+import { createSignature, verifySignature, exportPublicKey } from '../utils/crypto';
+import { getSignatureSuite } from '../utils/signature-suites';
+
+describe('Keystore', () => {
+  // Keep the KDF cheap in tests; production keystores use the default
+  const iterations = MIN_KEYSTORE_ITERATIONS;
+
+  test.each(['ecdsa-p256-sha256', 'ed25519'])('should round-trip a %s key pair', async suiteId => {
+    const keyPair = await getSignatureSuite(suiteId).generateKeyPair();
+    const { spki, fingerprint } = await exportPublicKey(keyPair.publicKey);
+
+    const keystore = await saveKeystore(keyPair, 'correct horse battery staple', { agentId: 'agent-1', iterations });
+
+    expect(keystore.signatureSuite).toBe(suiteId);
+    expect(keystore.keyFingerprint).toBe(fingerprint);
+    expect(keystore.agentId).toBe('agent-1');
+    expect(JSON.stringify(keystore)).not.toContain('"d"');
+
+    const restored = await loadKeystore(JSON.stringify(keystore), 'correct horse battery staple');
+    const signature = await createSignature('payload', restored.privateKey);
+
+    expect((await exportPublicKey(restored.publicKey)).spki).toBe(spki);
+    expect(await verifySignature('payload', signature, spki, suiteId)).toBe(true);
+  });
+
+  test('should reject a wrong password or altered metadata', async () => {
+    const keyPair = await getSignatureSuite().generateKeyPair();
+    const other = await exportPublicKey((await getSignatureSuite().generateKeyPair()).publicKey);
+    const keystore = await saveKeystore(keyPair, 'secret', { iterations });
+
+    await expect(loadKeystore(keystore, 'wrong')).rejects.toThrow('Failed to load keystore');
+    await expect(loadKeystore({ ...keystore, publicKey: other.spki, keyFingerprint: other.fingerprint }, 'secret'))
+      .rejects.toThrow('Failed to load keystore');
+    await expect(loadKeystore({ ...keystore, kdf: { ...keystore.kdf, iterations: iterations + 1 } }, 'secret'))
+      .rejects.toThrow('Failed to load keystore');
+  });
+
+  test('should refuse KDF iteration counts outside the allowed bounds', async () => {
+    const keyPair = await getSignatureSuite().generateKeyPair();
+    const keystore = await saveKeystore(keyPair, 'secret', { iterations });
+    const deriveKey = jest.spyOn(crypto.subtle, 'deriveKey');
+
+    await expect(loadKeystore({ ...keystore, kdf: { ...keystore.kdf, iterations: 1 } }, 'secret'))
+      .rejects.toThrow('Failed to load keystore');
+    await expect(loadKeystore({ ...keystore, kdf: { ...keystore.kdf, iterations: MAX_KEYSTORE_ITERATIONS + 1 } }, 'secret'))
+      .rejects.toThrow('Failed to load keystore');
+    expect(deriveKey).not.toHaveBeenCalled();
+    await expect(saveKeystore(keyPair, 'secret', { iterations: 1000 })).rejects.toThrow('Failed to save keystore');
+
+    deriveKey.mockRestore();
+  });
+
+  test('should use a strong KDF by default and refuse empty passwords', async () => {
+    const keyPair = await getSignatureSuite().generateKeyPair();
+
+    expect(DEFAULT_KEYSTORE_ITERATIONS).toBeGreaterThanOrEqual(600000);
+    await expect(saveKeystore(keyPair, '')).rejects.toThrow('Failed to save keystore');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for Multi-Signatures
+ */
+
+import { createQuorumPolicy, createMultiSignature, addSignature, verifyMultiSignature } from '../utils/multisig';
+import { createSignature, exportPublicKey } from '../utils/crypto';
+import { getSignatureSuite } from '../utils/signature-suites';
+import { BehavioralAttestationChainFactory, getActionApprovalPayload } from '../core/behavioral-attestation-chain';
+import { ConstitutionalIdentityFactory, ConstitutionalIdentityVerifier } from '../core/constitutional-identity';
+import { ConstitutionalAction, ConstitutionalLaws } from '../types/constitutional';
+import { QuorumPolicy } from '../types/crypto';
+
+describe('Multi-Signatures', () => {
+  const laws: ConstitutionalLaws = {
+    law1: {
+      name: 'Options and Consent',
+      principle: 'Do not unjustifiably reduce another\'s options; when feasible and consented, increase them; if expansion conflicts with privacy or agreed fairness, protect those first.',
+      parameters: ['justification recorded']
+    },
+    law2: {
+      name: 'Corrigibility and Oversight',
+      principle: 'Remain correctable by stewards who are both authorized and accountable to affected users; provide auditable logs; allow safe interruption with safeguards.',
+      parameters: ['steward legitimacy']
+    },
+    law3: {
+      name: 'Reversibility and Proportion',
+      principle: 'Prefer reversible, low impact actions justified by reasons; escalate to higher impact only with explicit proportionality or urgent prevention of Law 1 violations.',
+      parameters: ['reversible means']
+    },
+    law4: {
+      name: 'Commitments with a Safety Valve',
+      principle: 'Keep explicit promises; if fulfillment would cause a serious Law 1 violation, pause, notify parties, and seek renegotiation with transparent logging.',
+      parameters: ['commitment registry']
+    },
+    law5: {
+      name: 'Scoped Exploration',
+      principle: 'Explore to improve understanding and competence within the bounds of Laws 1 through 4; declare scope and budget; obtain consent when shared resources or people are affected.',
+      parameters: ['scope declaration']
+    }
+  };
+
+  let stewards: CryptoKeyPair[];
+  let policy: QuorumPolicy;
+
+  beforeAll(async () => {
+    stewards = [
+      await getSignatureSuite('ecdsa-p256-sha256').generateKeyPair(),
+      await getSignatureSuite('ed25519').generateKeyPair(),
+      await getSignatureSuite('ecdsa-p256-sha256').generateKeyPair(),
+    ];
+    const members = await Promise.all(stewards.map(async (steward, i) => ({
+      publicKey: (await exportPublicKey(steward.publicKey)).spki,
+      signatureSuite: i === 1 ? 'ed25519' : 'ecdsa-p256-sha256',
+    })));
+    policy = createQuorumPolicy(2, members);
+  });
+
+  async function signBy(data: string, signers: CryptoKeyPair[]) {
+    let multiSignature = createMultiSignature(policy);
+    for (const signer of signers) {
+      multiSignature = await addSignature(multiSignature, policy, data, signer);
+    }
+    return multiSignature;
+  }
+
+  test('should require the threshold number of distinct members', async () => {
+    const oneSignature = await signBy('interrupt agent-7', [stewards[0]]);
+    const twoSignatures = await signBy('interrupt agent-7', [stewards[0], stewards[1]]);
+    const duplicated = { ...oneSignature, signatures: [...oneSignature.signatures, ...oneSignature.signatures] };
+
+    expect(await verifyMultiSignature('interrupt agent-7', oneSignature, policy)).toBe(false);
+    expect(await verifyMultiSignature('interrupt agent-7', twoSignatures, policy)).toBe(true);
+    expect(await verifyMultiSignature('interrupt agent-8', twoSignatures, policy)).toBe(false);
+    expect(await verifyMultiSignature('interrupt agent-7', duplicated, policy)).toBe(false);
+  });
+
+  test('should refuse outsiders and signatures made under another policy', async () => {
+    const outsider = await getSignatureSuite().generateKeyPair();
+    await expect(signBy('data', [outsider])).rejects.toThrow('not a member');
+    await expect(signBy('data', [stewards[0], stewards[0]])).rejects.toThrow('already signed');
+
+    const looserPolicy = { ...policy, threshold: 1 };
+    const signed = await signBy('data', [stewards[0], stewards[2]]);
+    expect(await verifyMultiSignature('data', signed, looserPolicy)).toBe(false);
+  });
+
+  test('should validate quorum policies', () => {
+    const member = policy.members[0];
+    expect(() => createQuorumPolicy(3, [member, member])).toThrow('distinct');
+    expect(() => createQuorumPolicy(0, policy.members)).toThrow('between 1 and 3');
+    expect(() => createQuorumPolicy(4, policy.members)).toThrow('between 1 and 3');
+  });
+
+  test('should gate high-impact actions on a steward quorum', async () => {
+    const agentKeys = await getSignatureSuite().generateKeyPair();
+    const bac = await BehavioralAttestationChainFactory.create(agentKeys.privateKey, 'governed-agent');
+    bac.setStewardPolicy(policy);
+
+    const interrupt: ConstitutionalAction = {
+      id: 'interrupt-1',
+      type: 'correction',
+      relatedLaw: 'law2',
+      description: 'Safe interruption requested by stewards',
+      justification: 'High impact interrupt',
+      timestamp: Date.now(),
+      hash: 'test-hash',
+      signature: 'test-signature',
+      impact: 'high',
+    };
+
+    await expect(bac.addAction(interrupt)).rejects.toThrow('steward quorum approval');
+
+    const stewardApproval = await signBy(getActionApprovalPayload(interrupt), [stewards[1], stewards[2]]);
+    const entry = await bac.addAction({ ...interrupt, stewardApproval });
+
+    expect(await bac.verifyStewardApproval(entry.attestation)).toBe(true);
+  });
+
+  test('should attach and verify steward approval of a commitment', async () => {
+    const identity = await ConstitutionalIdentityFactory.create(laws);
+    const payload = ConstitutionalIdentityVerifier.getCommitmentPayload(identity.getCommitment());
+
+    expect(await identity.attachStewardApproval(await signBy(payload, [stewards[0]]), policy)).toBe(false);
+    expect(await identity.attachStewardApproval(await signBy(payload, [stewards[0], stewards[1]]), policy)).toBe(true);
+    expect(await ConstitutionalIdentityVerifier.verifyStewardApproval(identity.getCommitment(), policy)).toBe(true);
+    expect(await ConstitutionalIdentityVerifier.verify(identity.getCommitment())).toBe(true);
+  });
+
+  test('should reject steward approval moved onto a commitment to another key', async () => {
+    const identity = await ConstitutionalIdentityFactory.create(laws);
+    const payload = ConstitutionalIdentityVerifier.getCommitmentPayload(identity.getCommitment());
+    await identity.attachStewardApproval(await signBy(payload, [stewards[0], stewards[1]]), policy);
+    const approved = identity.getCommitment();
+
+    // Same terms, self-signed by another key, carrying the stewards' approval
+    const attacker = await getSignatureSuite().generateKeyPair();
+    const { spki, fingerprint } = await exportPublicKey(attacker.publicKey);
+    const unsigned = { ...approved, publicKey: spki, keyFingerprint: fingerprint };
+    const forged = {
+      ...unsigned,
+      signature: await createSignature(ConstitutionalIdentityVerifier.getCommitmentPayload(unsigned), attacker.privateKey),
+    };
+
+    expect(await ConstitutionalIdentityVerifier.verifyStewardApproval(approved, policy)).toBe(true);
+    expect(await ConstitutionalIdentityVerifier.verifyStewardApproval(forged, policy)).toBe(false);
+  });
+});
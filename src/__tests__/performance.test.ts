@@ -6,6 +6,7 @@
 
 import { CHPFactory } from '../chp';
 import { ConstitutionalLaws, ConstitutionalAction } from '../types/constitutional';
+import { verifyChainSignatures } from '../utils/batch-verification';
 
 describe('CHP Performance Tests', () => {
   const constitutionalLaws: ConstitutionalLaws = {
@@ -149,6 +150,36 @@ describe('CHP Performance Tests', () => {
     });
   });
 
+  test('should batch verify the signatures of a large chain', async () => {
+    const agent = await CHPFactory.create(constitutionalLaws, 'perf-batch-agent');
+    const actionCount = 1000;
+
+    for (let i = 0; i < actionCount; i++) {
+      await agent.recordAction({
+        id: `batch-action-${i}`,
+        type: 'decision',
+        relatedLaw: 'law3',
+        description: `Batch verification action ${i}`,
+        justification: 'Performance testing',
+        timestamp: Date.now(),
+        hash: `batch-hash-${i}`,
+        signature: `batch-signature-${i}`
+      });
+    }
+
+    const { entries } = agent.exportAgentData().attestationChain;
+    const startTime = performance.now();
+
+    const results = await verifyChainSignatures(entries, agent.getCommitment());
+
+    const endTime = performance.now();
+    const avgTimePerEntry = (endTime - startTime) / actionCount;
+
+    expect(results).toHaveLength(actionCount);
+    expect(results.every(result => result.isValid)).toBe(true);
+    expect(avgTimePerEntry).toBeLessThan(5); // Average < 5ms per entry
+  });
+
   test('should handle protocol operations within memory limits', async () => {
     const agent = await CHPFactory.create(constitutionalLaws, 'memory-test-agent');
     
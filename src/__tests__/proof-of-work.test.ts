@@ -0,0 +1,87 @@
+/**
+ * Tests for Proof of Work on Attestation Chains
+ */
+
+import { BehavioralAttestationChain, BehavioralAttestationChainFactory } from '../core/behavioral-attestation-chain';
+import { countLeadingZeroBits, meetsDifficulty, findProofOfWork } from '../utils/proof-of-work';
+import { generateHash } from '../utils/crypto';
+import { getSignatureSuite } from '../utils/signature-suites';
+
+describe('Proof of Work', () => {
+  const action = (id: string) => ({
+    id,
+    type: 'decision' as const,
+    relatedLaw: 'law1' as const,
+    description: 'Proof-of-work action',
+    justification: 'Testing',
+    timestamp: Date.now(),
+    hash: 'test-hash',
+    signature: 'test-signature'
+  });
+
+  async function createChain(difficulty: number, length: number = 3): Promise<BehavioralAttestationChain> {
+    const keyPair = await getSignatureSuite().generateKeyPair();
+    const bac = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'agent-1');
+    bac.setDifficulty(difficulty);
+    for (let i = 0; i < length; i++) {
+      await bac.addAction(action(`action-${i}`));
+    }
+    return bac;
+  }
+
+  test('should count leading zero bits of the digest only', () => {
+    const digest = (prefix: string) => '1220' + prefix.padEnd(64, 'f');
+
+    expect(countLeadingZeroBits(digest(''))).toBe(0);
+    expect(countLeadingZeroBits(digest('00'))).toBe(8);
+    expect(countLeadingZeroBits(digest('001'))).toBe(11);
+    expect(countLeadingZeroBits(digest('0007'))).toBe(13);
+    expect(countLeadingZeroBits('0')).toBe(0);
+    expect(meetsDifficulty(digest('001'), 11)).toBe(true);
+    expect(meetsDifficulty(digest('001'), 12)).toBe(false);
+    expect(meetsDifficulty(digest(''), 0)).toBe(true);
+  });
+
+  test('should find a nonce meeting the difficulty', async () => {
+    const { nonce, hash } = await findProofOfWork(candidate => generateHash(`data-${candidate}`), 8);
+
+    expect(hash).toBe(generateHash(`data-${nonce}`));
+    expect(countLeadingZeroBits(hash)).toBeGreaterThanOrEqual(8);
+    await expect(findProofOfWork(candidate => generateHash(`${candidate}`), 33)).rejects.toThrow('difficulty');
+  });
+
+  test('should mine entries and declare the difficulty', async () => {
+    const bac = await createChain(8);
+    const exported = bac.exportChain();
+
+    expect(exported.difficulty).toBe(8);
+    expect(exported.entries.every(entry => countLeadingZeroBits(entry.hash) >= 8)).toBe(true);
+    expect(exported.entries.every(entry => entry.attestation.type === 'proof_of_work')).toBe(true);
+    expect(bac.verifyChainIntegrity()).toBe(true);
+    expect(() => bac.setDifficulty(4)).toThrow('before the first entry');
+  });
+
+  test('should keep entries linked when actions are added concurrently', async () => {
+    const bac = await createChain(6, 0);
+
+    await Promise.all([0, 1, 2, 3].map(i => bac.addAction(action(`concurrent-${i}`))));
+
+    expect(bac.getChain()).toHaveLength(4);
+    expect(bac.verifyChainIntegrity()).toBe(true);
+  });
+
+  test('should enforce the required difficulty on import', async () => {
+    const mined = await createChain(8);
+    const unmined = await createChain(0);
+    const importer = await createChain(0, 0);
+    importer.setRequiredDifficulty(8);
+
+    expect(await importer.importChain(mined.exportChain())).toBe(true);
+    expect(await importer.importChain(unmined.exportChain())).toBe(false);
+    expect(await importer.importChain({ ...unmined.exportChain(), difficulty: 8 })).toBe(false);
+    expect(await importer.importChain({ ...mined.exportChain(), difficulty: 32 })).toBe(false);
+
+    importer.setRequiredDifficulty(12);
+    expect(await importer.importChain(mined.exportChain())).toBe(false);
+  });
+});
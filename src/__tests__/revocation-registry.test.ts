@@ -0,0 +1,236 @@
+/**
+ * Tests for Revocation Registry
+ */
+
+import { RevocationRegistry, RevocationRegistryFactory, InMemoryRevocationStore } from '../core/revocation-registry';
+import { ConstitutionalIdentity, ConstitutionalIdentityFactory, ConstitutionalIdentityVerifier } from '../core/constitutional-identity';
+import { BehavioralAttestationChainFactory } from '../core/behavioral-attestation-chain';
+import { TrustGraphProtocolFactory } from '../core/trust-graph-protocol';
+import { ConstitutionalHandshakeSequenceFactory, HandshakeState } from '../core/handshake-sequence';
+import { ConstitutionalLaws } from '../types/constitutional';
+import { RevocationStatement } from '../types/revocation';
+import { getSignatureSuite } from '../utils/signature-suites';
+import { createSignature, exportPublicKey, generateHash, generateMerkleRoot } from '../utils/crypto';
+import { canonicalize } from '../utils/canonical-json';
+
+describe('RevocationRegistry', () => {
+  const laws: ConstitutionalLaws = {
+    law1: {
+      name: 'Options and Consent',
+      principle: 'Do not unjustifiably reduce another\'s options; when feasible and consented, increase them; if expansion conflicts with privacy or agreed fairness, protect those first.',
+      parameters: ['justification recorded']
+    },
+    law2: {
+      name: 'Corrigibility and Oversight',
+      principle: 'Remain correctable by stewards who are both authorized and accountable to affected users; provide auditable logs; allow safe interruption with safeguards.',
+      parameters: ['steward legitimacy']
+    },
+    law3: {
+      name: 'Reversibility and Proportion',
+      principle: 'Prefer reversible, low impact actions justified by reasons; escalate to higher impact only with explicit proportionality or urgent prevention of Law 1 violations.',
+      parameters: ['reversible means']
+    },
+    law4: {
+      name: 'Commitments with a Safety Valve',
+      principle: 'Keep explicit promises; if fulfillment would cause a serious Law 1 violation, pause, notify parties, and seek renegotiation with transparent logging.',
+      parameters: ['commitment registry']
+    },
+    law5: {
+      name: 'Scoped Exploration',
+      principle: 'Explore to improve understanding and competence within the bounds of Laws 1 through 4; declare scope and budget; obtain consent when shared resources or people are affected.',
+      parameters: ['scope declaration']
+    }
+  };
+
+  let registry: RevocationRegistry;
+  let identity: ConstitutionalIdentity;
+
+  beforeEach(async () => {
+    registry = RevocationRegistryFactory.create();
+    identity = await ConstitutionalIdentityFactory.create(laws, undefined, registry);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should reject commitments signed with a revoked key', async () => {
+    const commitment = identity.getCommitment();
+    expect(await identity.verifyCommitment(commitment)).toBe(true);
+
+    const statement = await identity.createRevocation('key', 'key_compromise');
+
+    expect(await registry.revoke(statement)).toBe(true);
+    expect(await registry.isKeyRevoked(identity.getKeyFingerprint())).toBe(true);
+    expect(await identity.verifyCommitment(commitment)).toBe(false);
+    expect(await ConstitutionalIdentityVerifier.verify(commitment)).toBe(true);
+  });
+
+  test('should revoke a single commitment without revoking the key', async () => {
+    const statement = await identity.createRevocation('commitment', 'superseded');
+    await registry.revoke(statement);
+
+    expect(await registry.isCommitmentRevoked(identity.getCommitment())).toBe(true);
+    expect(await registry.isKeyRevoked(identity.getKeyFingerprint())).toBe(false);
+  });
+
+  test('should refuse statements that are tampered with or signed by another key', async () => {
+    const other = await ConstitutionalIdentityFactory.create(laws);
+    const statement = await other.createRevocation('key');
+
+    const tampered: RevocationStatement = { ...statement, reason: 'key_compromise' };
+    const foreignKey: RevocationStatement = { ...statement, subject: identity.getKeyFingerprint() };
+
+    expect(await registry.revoke(tampered)).toBe(false);
+    expect(await registry.revoke(foreignKey)).toBe(false);
+  });
+
+  test('should ignore commitment revocations signed by a key the commitment does not belong to', async () => {
+    const keyPair = await getSignatureSuite().generateKeyPair();
+    const { spki, fingerprint } = await exportPublicKey(keyPair.publicKey);
+    const statementData = {
+      type: 'commitment' as const,
+      subject: identity.getCommitment().id,
+      keyFingerprint: fingerprint,
+      publicKey: spki,
+      signatureSuite: 'ecdsa-p256-sha256',
+      reason: 'unspecified' as const,
+      revokedAt: Date.now(),
+    };
+    const statement = {
+      ...statementData,
+      signature: await createSignature(canonicalize(statementData), keyPair.privateKey),
+    };
+
+    expect(await registry.revoke(statement)).toBe(true);
+    expect(await registry.isCommitmentRevoked(identity.getCommitment())).toBe(false);
+  });
+
+  test('should store statements through a pluggable backend', async () => {
+    const store = new InMemoryRevocationStore();
+    const putSpy = jest.spyOn(store, 'put');
+    const backed = RevocationRegistryFactory.create(store);
+
+    await backed.revoke(await identity.createRevocation());
+
+    expect(putSpy).toHaveBeenCalledTimes(1);
+    expect(await backed.getRevocations()).toHaveLength(1);
+  });
+
+  test('should refuse to import chains signed with a revoked key', async () => {
+    const keyPair = await getSignatureSuite().generateKeyPair();
+    const signer = new ConstitutionalIdentity(keyPair, laws);
+    await signer.initializeCommitment(laws);
+
+    const bac = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'signer');
+    await bac.addAction({
+      id: 'action-1',
+      type: 'decision',
+      relatedLaw: 'law1',
+      description: 'Revocation test action',
+      justification: 'Testing',
+      timestamp: Date.now(),
+      hash: 'test-hash',
+      signature: 'test-signature'
+    });
+    const exported = bac.exportChain();
+    const importer = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'importer', registry);
+
+    expect(exported.entries[0].attestation.keyFingerprint).toBe(signer.getKeyFingerprint());
+    expect(await importer.importChain(exported, signer.getCommitment())).toBe(true);
+    expect(await importer.importChain(exported)).toBe(false);
+
+    await registry.revoke(await signer.createRevocation('key', 'key_compromise'));
+    expect(await importer.importChain(exported, signer.getCommitment())).toBe(false);
+
+    // Dropping the declared fingerprint, and rehashing, does not hide the signing key
+    const { keyFingerprint, ...attestation } = exported.entries[0].attestation;
+    const { previousHash, nonce, timestamp } = exported.entries[0];
+    const hash = generateHash(canonicalize({ previousHash, attestation, nonce, timestamp }));
+    const undeclared = { ...exported, merkleRoot: generateMerkleRoot([hash]), entries: [{ ...exported.entries[0], attestation, hash }] };
+    const unchecked = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'unchecked');
+    expect(keyFingerprint).toBeDefined();
+    expect(await unchecked.importChain(undeclared, signer.getCommitment())).toBe(true);
+    expect(await importer.importChain(undeclared, signer.getCommitment())).toBe(false);
+  });
+
+  test('should announce revocations through the trust graph and fail handshakes', async () => {
+    const trustGraph = TrustGraphProtocolFactory.create(registry);
+    trustGraph.addAgent('alice', identity.getIdentity(), identity.getCommitment());
+
+    expect(await trustGraph.recordRevocation(await identity.createRevocation('key', 'key_compromise'))).toBe(true);
+
+    const event = trustGraph.getUpdateEvents().find(e => e.type === 'revocation');
+    expect(event?.agents).toEqual(['alice']);
+
+    const keyPair = await getSignatureSuite().generateKeyPair();
+    const bob = new ConstitutionalIdentity(keyPair, laws);
+    await bob.initializeCommitment(laws);
+    const bobBAC = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'bob');
+    const aliceBAC = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'alice');
+
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(trustGraph);
+    const session = await sequence.initiateHandshake('alice', 'bob', identity, aliceBAC);
+    const result = await sequence.respondToHandshake(session.sessionId, bob, bobBAC);
+
+    expect(session.state).toBe(HandshakeState.HANDSHAKE_FAILED);
+    expect(result?.errors).toContain('Constitutional commitment has been revoked');
+  });
+
+  test('should announce commitment revocations only for agents on that commitment', async () => {
+    const trustGraph = TrustGraphProtocolFactory.create(registry);
+    trustGraph.addAgent('previous', identity.getIdentity(), identity.getCommitment());
+    await identity.renewCommitment();
+    trustGraph.addAgent('current', identity.getIdentity(), identity.getCommitment());
+
+    expect(await trustGraph.recordRevocation(await identity.createRevocation('commitment', 'superseded'))).toBe(true);
+
+    const event = trustGraph.getUpdateEvents().find(e => e.type === 'revocation');
+    expect(event?.agents).toEqual(['current']);
+  });
+
+  test('should refuse key successions signed by an already revoked key', async () => {
+    const trustGraph = TrustGraphProtocolFactory.create(registry);
+    trustGraph.addAgent('alice', identity.getIdentity(), identity.getCommitment());
+    const statement = await identity.createRevocation('key', 'key_compromise');
+    await trustGraph.recordRevocation(statement);
+
+    // Whoever holds the leaked key hands the identity over to their own key
+    jest.spyOn(Date, 'now').mockReturnValue(statement.revokedAt + 1000);
+    const record = await identity.rotateKey(await getSignatureSuite().generateKeyPair());
+
+    expect(await ConstitutionalIdentityVerifier.verifySuccession(record)).toBe(true);
+    expect(await ConstitutionalIdentityVerifier.verifySuccession(record, registry)).toBe(false);
+    expect(await trustGraph.applyKeySuccession('alice', record, identity.getCommitment())).toBe(false);
+  });
+
+  test('should refuse key successions backdated before a compromise revocation', async () => {
+    const trustGraph = TrustGraphProtocolFactory.create(registry);
+    trustGraph.addAgent('alice', identity.getIdentity(), identity.getCommitment());
+    const original = identity.getCommitment();
+
+    const now = Date.now();
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now + 1000);
+    const statement = await identity.createRevocation('key', 'key_compromise');
+    nowSpy.mockReturnValue(now);
+    const record = await identity.rotateKey(await getSignatureSuite().generateKeyPair());
+    await trustGraph.recordRevocation(statement);
+
+    expect(await trustGraph.applyKeySuccession('alice', record, identity.getCommitment())).toBe(false);
+    expect(await ConstitutionalIdentityVerifier.verifySuccessionChain(original, [record], identity.getCommitment(), registry)).toBe(false);
+  });
+
+  test('should accept key successions made before the old key was superseded', async () => {
+    const trustGraph = TrustGraphProtocolFactory.create(registry);
+    trustGraph.addAgent('alice', identity.getIdentity(), identity.getCommitment());
+
+    const now = Date.now();
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now + 1000);
+    const statement = await identity.createRevocation('key', 'superseded');
+    nowSpy.mockReturnValue(now);
+    const record = await identity.rotateKey(await getSignatureSuite().generateKeyPair());
+    await trustGraph.recordRevocation(statement);
+
+    expect(await trustGraph.applyKeySuccession('alice', record, identity.getCommitment())).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Tests for Schnorr Proofs of Possession
+ */
+
+import { createSchnorrProof, verifySchnorrProof } from '../utils/schnorr';
+import { BehavioralAttestationChainFactory } from '../core/behavioral-attestation-chain';
+import { exportPublicKey } from '../utils/crypto';
+import { getSignatureSuite } from '../utils/signature-suites';
+
+describe('Schnorr proofs of possession', () => {
+  test.each(['ecdsa-p256-sha256', 'ed25519'])('should prove possession of a %s key', async suiteId => {
+    const keyPair = await getSignatureSuite(suiteId).generateKeyPair();
+    const { spki } = await exportPublicKey(keyPair.publicKey);
+
+    const proof = await createSchnorrProof(keyPair.privateKey, 'nonce-1');
+
+    expect(proof.publicInputs).toEqual([spki, 'nonce-1']);
+    expect(await verifySchnorrProof(proof)).toBe(true);
+    expect(await verifySchnorrProof(proof, { publicKey: spki, nonce: 'nonce-1' })).toBe(true);
+  });
+
+  test.each(['ecdsa-p256-sha256', 'ed25519'])('should reject altered %s proofs', async suiteId => {
+    const suite = getSignatureSuite(suiteId);
+    const keyPair = await suite.generateKeyPair();
+    const other = await exportPublicKey((await suite.generateKeyPair()).publicKey);
+    const proof = await createSchnorrProof(keyPair.privateKey, 'nonce-1');
+    const lastDigit = proof.proof.slice(-1) === '0' ? '1' : '0';
+
+    expect(await verifySchnorrProof(proof, { nonce: 'nonce-2' })).toBe(false);
+    expect(await verifySchnorrProof({ ...proof, publicInputs: [proof.publicInputs[0], 'nonce-2'] })).toBe(false);
+    expect(await verifySchnorrProof({ ...proof, publicInputs: [other.spki, 'nonce-1'] })).toBe(false);
+    expect(await verifySchnorrProof({ ...proof, timestamp: proof.timestamp + 1 })).toBe(false);
+    expect(await verifySchnorrProof({ ...proof, proof: proof.proof.slice(0, -1) + lastDigit })).toBe(false);
+  });
+
+  test('should verify possession attestations in verifyAttestation', async () => {
+    const keyPair = await getSignatureSuite().generateKeyPair();
+    const { spki } = await exportPublicKey(keyPair.publicKey);
+    const bac = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'agent-1');
+
+    const attestation = await bac.createPossessionProof('handshake-nonce');
+    const verification = await bac.verifyAttestation(attestation, { publicKey: spki, nonce: 'handshake-nonce' });
+
+    expect(attestation.type).toBe('zero_knowledge');
+    expect(verification.isValid).toBe(true);
+    expect(verification.method).toBe('zero_knowledge');
+    expect((await bac.verifyAttestation(attestation, { nonce: 'replayed-nonce' })).isValid).toBe(false);
+  });
+});
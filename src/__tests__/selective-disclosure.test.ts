@@ -0,0 +1,83 @@
+/**
+ * Tests for Selective Disclosure
+ */
+
+import { BehavioralAttestationChainFactory } from '../core/behavioral-attestation-chain';
+import {
+  createSaltedCommitment,
+  selectDisclosures,
+  verifyDisclosedFields,
+  verifySelectiveDisclosure,
+  decodeDisclosure,
+} from '../utils/selective-disclosure';
+import { exportPublicKey } from '../utils/crypto';
+import { getSignatureSuite, ECDSA_P256_SUITE_ID, ED25519_SUITE_ID } from '../utils/signature-suites';
+
+describe('Selective Disclosure', () => {
+  const action = {
+    id: 'action-1',
+    type: 'decision' as const,
+    relatedLaw: 'law3' as const,
+    description: 'Rolled back a deployment',
+    justification: 'Error rate exceeded the agreed threshold',
+    timestamp: 1700000000000,
+    hash: 'test-hash',
+    signature: 'test-signature'
+  };
+
+  test('should reveal chosen fields and keep the rest hidden', async () => {
+    const keyPair = await getSignatureSuite().generateKeyPair();
+    const { spki } = await exportPublicKey(keyPair.publicKey);
+    const bac = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'agent-1');
+    await bac.addAction(action);
+
+    const disclosure = bac.createDisclosure(0, ['relatedLaw', 'timestamp'])!;
+
+    expect(await verifySelectiveDisclosure(disclosure, spki)).toEqual({
+      relatedLaw: 'law3',
+      timestamp: 1700000000000,
+    });
+    expect(disclosure.hidden).toHaveLength(4);
+    expect(JSON.stringify(disclosure)).not.toContain('deployment');
+    expect(JSON.stringify(disclosure)).not.toContain('threshold');
+    expect(bac.createDisclosure(1, ['relatedLaw'])).toBeNull();
+  });
+
+  test('should reject disclosures that do not match the signed commitment', async () => {
+    const keyPair = await getSignatureSuite().generateKeyPair();
+    const other = await exportPublicKey((await getSignatureSuite().generateKeyPair()).publicKey);
+    const bac = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'agent-1');
+    await bac.addAction(action);
+
+    const disclosure = bac.createDisclosure(0, ['relatedLaw'])!;
+    const { salt } = decodeDisclosure(disclosure.disclosed[0]);
+    const forged = btoa(JSON.stringify([salt, 'relatedLaw', 'law1']))
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+    expect(await verifySelectiveDisclosure({ ...disclosure, disclosed: [forged] }, other.spki)).toBeNull();
+    expect(await verifySelectiveDisclosure(disclosure, other.spki)).toBeNull();
+    expect(verifyDisclosedFields({ ...disclosure, disclosed: [forged] })).toBeNull();
+    expect(verifyDisclosedFields({ ...disclosure, hidden: disclosure.hidden.slice(1) })).toBeNull();
+  });
+
+  test('should verify with the key\'s suite, not the suite the proof claims', async () => {
+    const keyPair = await getSignatureSuite(ED25519_SUITE_ID).generateKeyPair();
+    const { spki } = await exportPublicKey(keyPair.publicKey);
+    const bac = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'agent-1');
+    await bac.addAction(action);
+
+    const disclosure = bac.createDisclosure(0, ['relatedLaw'])!;
+
+    expect(await verifySelectiveDisclosure(disclosure, spki, ED25519_SUITE_ID)).toEqual({ relatedLaw: 'law3' });
+    expect(await verifySelectiveDisclosure(disclosure, spki)).toBeNull();
+    expect(await verifySelectiveDisclosure({ ...disclosure, signatureSuite: ECDSA_P256_SUITE_ID }, spki, ED25519_SUITE_ID)).toBeNull();
+  });
+
+  test('should not let a disclosed field be presented twice', () => {
+    const { disclosures, commitment } = createSaltedCommitment({ relatedLaw: 'law1', description: 'secret' });
+    const { disclosed, hidden } = selectDisclosures(disclosures, commitment, ['relatedLaw']);
+
+    expect(verifyDisclosedFields({ disclosed, hidden, commitment })).toEqual({ relatedLaw: 'law1' });
+    expect(verifyDisclosedFields({ disclosed: [...disclosed, ...disclosed], hidden, commitment })).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for Timestamp Tokens and Timestamp Authorities
+ */
+
+import { LocalTimestampAuthority, HttpTimestampAuthority, serveTimestampAuthority } from '../core/timestamp-authority';
+import { BehavioralAttestationChain, BehavioralAttestationChainFactory } from '../core/behavioral-attestation-chain';
+import { createTimestampRequest, verifyTimestampToken, verifyChainTimestamps } from '../utils/timestamp';
+import { getSignatureSuite } from '../utils/signature-suites';
+
+describe('Timestamp Tokens', () => {
+  const action = (id: string) => ({
+    id,
+    type: 'decision' as const,
+    relatedLaw: 'law1' as const,
+    description: 'Timestamped action',
+    justification: 'Testing',
+    timestamp: Date.now(),
+    hash: 'test-hash',
+    signature: 'test-signature'
+  });
+
+  async function createChain(authority?: LocalTimestampAuthority | HttpTimestampAuthority, length: number = 3): Promise<BehavioralAttestationChain> {
+    const keyPair = await getSignatureSuite().generateKeyPair();
+    const bac = await BehavioralAttestationChainFactory.create(keyPair.privateKey, 'agent-1');
+    if (authority) {
+      bac.setTimestampAuthority(authority);
+    }
+    for (let i = 0; i < length; i++) {
+      await bac.addAction(action(`action-${i}`));
+    }
+    return bac;
+  }
+
+  describe('LocalTimestampAuthority', () => {
+    test('should issue tokens that verify only for the stamped data', async () => {
+      const tsa = await LocalTimestampAuthority.generate('ed25519');
+      const { fingerprint } = await tsa.getPublicKey();
+      const request = createTimestampRequest('entry-hash');
+      const token = await tsa.timestamp(request);
+
+      expect(token.keyFingerprint).toBe(fingerprint);
+      expect(await verifyTimestampToken(token, 'entry-hash', { nonce: request.nonce, trustedAuthorities: [fingerprint] }))
+        .toBe(true);
+      expect(await verifyTimestampToken(token, 'entry-hash')).toBe(false);
+      expect(await verifyTimestampToken(token, 'other-hash', { trustedAuthorities: [fingerprint] })).toBe(false);
+      expect(await verifyTimestampToken(token, 'entry-hash', { nonce: 'other-nonce', trustedAuthorities: [fingerprint] })).toBe(false);
+      expect(await verifyTimestampToken(token, 'entry-hash', { trustedAuthorities: ['other'] })).toBe(false);
+      expect(await verifyTimestampToken({ ...token, genTime: token.genTime - 60000 }, 'entry-hash', { trustedAuthorities: [fingerprint] }))
+        .toBe(false);
+    });
+
+    test('should never issue decreasing serial numbers or times', async () => {
+      let now = 10000;
+      const tsa = await LocalTimestampAuthority.generate(undefined, { clock: () => now });
+
+      const first = await tsa.timestamp(createTimestampRequest('a'));
+      now = 5000;
+      const second = await tsa.timestamp(createTimestampRequest('b'));
+
+      expect(second.serialNumber).toBeGreaterThan(first.serialNumber);
+      expect(second.genTime).toBe(10000);
+      await expect(tsa.timestamp({ messageImprint: 'not-a-hash' })).rejects.toThrow('Unsupported message imprint');
+    });
+  });
+
+  describe('Chain countersignatures', () => {
+    test('should countersign entries and accept them on import', async () => {
+      const tsa = await LocalTimestampAuthority.generate();
+      const { fingerprint } = await tsa.getPublicKey();
+      const bac = await createChain(tsa);
+
+      const verification = await bac.verifyTimestamps({ trustedAuthorities: [fingerprint], required: true });
+      expect(verification).toEqual({ isValid: true, timestampedEntries: 3, errors: [] });
+
+      const importer = await createChain();
+      importer.setTimestampPolicy({ trustedAuthorities: [fingerprint], required: true });
+      expect(await importer.importChain(bac.exportChain())).toBe(true);
+
+      importer.setTimestampPolicy({ trustedAuthorities: ['untrusted'] });
+      expect(await importer.importChain(bac.exportChain())).toBe(false);
+    });
+
+    test('should require tokens only when the policy says so', async () => {
+      const bac = await createChain();
+      const importer = await createChain();
+
+      expect(await importer.importChain(bac.exportChain())).toBe(true);
+
+      importer.setTimestampPolicy({ required: true });
+      expect(await importer.importChain(bac.exportChain())).toBe(false);
+    });
+
+    test('should reject entries backdated against their tokens', async () => {
+      const tsa = await LocalTimestampAuthority.generate(undefined, { clock: () => Date.now() + 60 * 60 * 1000 });
+      const trustedAuthorities = [(await tsa.getPublicKey()).fingerprint];
+      const bac = await createChain(tsa, 1);
+
+      const verification = await bac.verifyTimestamps({ trustedAuthorities });
+      expect(verification.isValid).toBe(false);
+      expect(verification.errors).toEqual(['Entry 0 claims a creation time outside its timestamp']);
+      expect((await bac.verifyTimestamps({ trustedAuthorities, maxDelay: 2 * 60 * 60 * 1000 })).isValid).toBe(true);
+    });
+
+    test('should not trust tokens from authorities the policy does not list', async () => {
+      // An agent running its own authority on a clock of its choosing
+      const backdating = await LocalTimestampAuthority.generate(undefined, { clock: () => Date.now() - 60 * 60 * 1000 });
+      const bac = await createChain(backdating, 1);
+      const importer = await createChain();
+
+      expect(await importer.importChain(bac.exportChain())).toBe(false);
+      expect((await bac.verifyTimestamps()).errors).toEqual(['Entry 0 has an invalid timestamp token']);
+    });
+
+    test('should reject tokens out of chain order and outside wall-clock bounds', async () => {
+      const tsa = await LocalTimestampAuthority.generate();
+      const trustedAuthorities = [(await tsa.getPublicKey()).fingerprint];
+      const entries = (await createChain(undefined, 2)).getChain().map(entry => ({ ...entry }));
+      entries[1].timestampToken = await tsa.timestamp(createTimestampRequest(entries[1].hash));
+      entries[0].timestampToken = await tsa.timestamp(createTimestampRequest(entries[0].hash));
+
+      const outOfOrder = await verifyChainTimestamps(entries, { trustedAuthorities });
+      expect(outOfOrder.errors).toEqual(['Entry 1 has a timestamp token issued before the previous entry\'s']);
+
+      const bounded = await verifyChainTimestamps([entries[0]], { trustedAuthorities, notAfter: Date.now() - 60 * 60 * 1000 });
+      expect(bounded.isValid).toBe(false);
+      expect(bounded.errors[0]).toContain('is timestamped after');
+    });
+  });
+
+  describe('HTTP timestamp authority', () => {
+    let server: { url: string; close: () => Promise<void> } | undefined;
+
+    afterEach(async () => {
+      await server?.close();
+      server = undefined;
+    });
+
+    test('should serve tokens to remote chains', async () => {
+      const tsa = await LocalTimestampAuthority.generate();
+      const { fingerprint } = await tsa.getPublicKey();
+      server = await serveTimestampAuthority(tsa);
+
+      const bac = await createChain(new HttpTimestampAuthority(server.url), 2);
+
+      expect((await bac.verifyTimestamps({ trustedAuthorities: [fingerprint], required: true })).isValid).toBe(true);
+    });
+
+    test('should reject malformed requests', async () => {
+      server = await serveTimestampAuthority(await LocalTimestampAuthority.generate());
+
+      const response = await fetch(server.url, { method: 'POST', body: '{"messageImprint": 42}' });
+      expect(response.status).toBe(400);
+
+      await expect(new HttpTimestampAuthority(server.url).timestamp({ messageImprint: 'not-a-hash' }))
+        .rejects.toThrow('Failed to obtain timestamp token');
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for Verifiable Credentials
+ */
+
+import { VerifiableCredentialIssuer, VerifiableCredentialVerifier } from '../core/verifiable-credentials';
+import { DIDResolver } from '../core/did-resolver';
+import { ConstitutionalIdentity } from '../core/constitutional-identity';
+import { BehavioralAttestationChainFactory } from '../core/behavioral-attestation-chain';
+import { ConstitutionalHandshakeSequenceFactory } from '../core/handshake-sequence';
+import { TrustGraphProtocolFactory } from '../core/trust-graph-protocol';
+import { decodeJws, createJws, verifyJws } from '../utils/jws';
+import { loadConstitutionFile } from '../utils/constitution';
+import { toBase64Url } from '../utils/encoding';
+import { toKeyProvider } from '../utils/key-provider';
+import { exportPublicKey } from '../utils/crypto';
+import { getSignatureSuite, ECDSA_P256_SUITE_ID, ED25519_SUITE_ID } from '../utils/signature-suites';
+import { ConstitutionalLaws } from '../types/constitutional';
+import { resolve } from 'path';
+
+describe('Verifiable Credentials', () => {
+  const laws: ConstitutionalLaws = {
+    law1: {
+      name: 'Options and Consent',
+      principle: 'Do not unjustifiably reduce another\'s options; when feasible and consented, increase them; if expansion conflicts with privacy or agreed fairness, protect those first.',
+      parameters: ['justification recorded']
+    },
+    law2: {
+      name: 'Corrigibility and Oversight',
+      principle: 'Remain correctable by stewards who are both authorized and accountable to affected users; provide auditable logs; allow safe interruption with safeguards.',
+      parameters: ['steward legitimacy']
+    },
+    law3: {
+      name: 'Reversibility and Proportion',
+      principle: 'Prefer reversible, low impact actions justified by reasons; escalate to higher impact only with explicit proportionality or urgent prevention of Law 1 violations.',
+      parameters: ['reversible means']
+    },
+    law4: {
+      name: 'Commitments with a Safety Valve',
+      principle: 'Keep explicit promises; if fulfillment would cause a serious Law 1 violation, pause, notify parties, and seek renegotiation with transparent logging.',
+      parameters: ['commitment registry']
+    },
+    law5: {
+      name: 'Scoped Exploration',
+      principle: 'Explore to improve understanding and competence within the bounds of Laws 1 through 4; declare scope and budget; obtain consent when shared resources or people are affected.',
+      parameters: ['scope declaration']
+    }
+  };
+
+  async function createIdentity(suiteId: string = ECDSA_P256_SUITE_ID): Promise<ConstitutionalIdentity> {
+    const identity = new ConstitutionalIdentity(await getSignatureSuite(suiteId).generateKeyPair(), laws);
+    await identity.initializeCommitment(laws);
+    return identity;
+  }
+
+  function tamper(jwt: string, edit: (payload: any) => void): string {
+    const [header, , signature] = jwt.split('.');
+    const payload = decodeJws(jwt).payload;
+    edit(payload);
+    return `${header}.${toBase64Url(new TextEncoder().encode(JSON.stringify(payload)))}.${signature}`;
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test.each([ECDSA_P256_SUITE_ID, ED25519_SUITE_ID])('should round-trip a %s JWS', async (suiteId) => {
+    const keyPair = await getSignatureSuite(suiteId).generateKeyPair();
+    const { spki, jwk } = await exportPublicKey(keyPair.publicKey);
+    const jws = await createJws({ hello: 'world' }, toKeyProvider(keyPair), { kid: 'key-1' });
+
+    const decoded = await verifyJws(jws, JSON.stringify(jwk));
+    expect(decoded?.header).toEqual({ alg: getSignatureSuite(suiteId).jwsAlgorithm, kid: 'key-1' });
+    expect(decoded?.payload).toEqual({ hello: 'world' });
+    expect(await verifyJws(jws, spki)).not.toBeNull();
+    expect(await verifyJws(jws.replace(/\.[^.]+$/, '.AAAA'), spki)).toBeNull();
+  });
+
+  test.each([ECDSA_P256_SUITE_ID, ED25519_SUITE_ID])('should issue and verify a %s commitment credential', async (suiteId) => {
+    const identity = await createIdentity(suiteId);
+    const resolver = new DIDResolver();
+    await resolver.register(identity);
+
+    const jwt = await new VerifiableCredentialIssuer(identity, 'agent-1').issueCommitmentCredential(laws);
+    const credential = await new VerifiableCredentialVerifier(resolver).verify(jwt);
+
+    expect(decodeJws(jwt).header).toEqual({
+      alg: getSignatureSuite(suiteId).jwsAlgorithm,
+      typ: 'JWT',
+      kid: `${identity.getDID()}#${identity.getKeyFingerprint()}`,
+    });
+    expect(credential?.type).toEqual(['VerifiableCredential', 'ConstitutionalCommitmentCredential']);
+    expect(credential?.issuer).toBe(identity.getDID());
+    expect(credential?.credentialSubject).toMatchObject({
+      id: identity.getDID(),
+      agentId: 'agent-1',
+      constitutionHash: identity.getCommitment().lawsHash,
+      laws,
+    });
+  });
+
+  test('should reject tampered, unregistered and expired commitment credentials', async () => {
+    const identity = await createIdentity();
+    const resolver = new DIDResolver();
+    const verifier = new VerifiableCredentialVerifier(resolver);
+    const issuer = new VerifiableCredentialIssuer(identity, 'agent-1');
+
+    const jwt = await issuer.issueCommitmentCredential(laws);
+    expect(await verifier.verify(jwt)).toBeNull();
+
+    await resolver.register(identity);
+    expect(await verifier.verify(jwt)).not.toBeNull();
+    expect(await verifier.verify(tamper(jwt, payload => {
+      payload.vc.credentialSubject.agentId = 'agent-2';
+    }))).toBeNull();
+
+    const expired = await issuer.issueCommitmentCredential(laws, { validFor: 1000 });
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000);
+    expect(await verifier.verify(expired)).toBeNull();
+  });
+
+  test('should reject commitment credentials whose commitment has expired', async () => {
+    const identity = new ConstitutionalIdentity(await getSignatureSuite().generateKeyPair(), laws);
+    await identity.initializeCommitment(laws, { validFor: 1000 });
+    const resolver = new DIDResolver();
+    await resolver.register(identity);
+    const verifier = new VerifiableCredentialVerifier(resolver);
+
+    const jwt = await new VerifiableCredentialIssuer(identity, 'agent-1').issueCommitmentCredential(laws);
+    expect(await verifier.verify(jwt)).not.toBeNull();
+
+    jest.spyOn(Date, 'now').mockReturnValue(identity.getCommitment().expiresAt! + 1000);
+    expect(await verifier.verify(jwt)).toBeNull();
+  });
+
+  test('should carry a loaded constitution document in commitment credentials', async () => {
+    const constitution = await loadConstitutionFile(resolve(__dirname, '../../constitution-machine-readable.yaml'));
+    const identity = new ConstitutionalIdentity(await getSignatureSuite(ED25519_SUITE_ID).generateKeyPair(), constitution);
+    await identity.initializeCommitment(constitution);
+    const resolver = new DIDResolver();
+    await resolver.register(identity);
+    const verifier = new VerifiableCredentialVerifier(resolver);
+
+    const jwt = await new VerifiableCredentialIssuer(identity, 'agent-1').issueCommitmentCredential(constitution);
+    const credential = await verifier.verify(jwt);
+
+    expect(credential?.credentialSubject.constitutionHash).toBe(constitution.lawsHash);
+    expect(credential?.credentialSubject.laws).toEqual(constitution.laws);
+    expect(credential?.credentialSubject.constitution).toEqual(constitution.document);
+
+    const { header, payload } = decodeJws(jwt);
+    payload.vc.credentialSubject.laws.law1.parameters = [];
+    expect(await verifier.verify(await createJws(payload, identity.getKeyProvider(), header))).toBeNull();
+  });
+
+  test('should only issue commitment credentials for the committed laws', async () => {
+    const identity = await createIdentity();
+    const otherLaws = { ...laws, law5: { ...laws.law5, parameters: [] } };
+
+    await expect(new VerifiableCredentialIssuer(identity, 'agent-1').issueCommitmentCredential(otherLaws))
+      .rejects.toThrow('Laws do not match the commitment');
+  });
+
+  test('should issue a handshake result credential about the peer', async () => {
+    const sequence = ConstitutionalHandshakeSequenceFactory.create(TrustGraphProtocolFactory.create());
+    const alice = await createIdentity(ED25519_SUITE_ID);
+    const bob = await createIdentity();
+    const resolver = new DIDResolver();
+    await resolver.register(alice);
+
+    const session = await sequence.initiateHandshake(
+      'alice', 'bob', alice, await BehavioralAttestationChainFactory.create(alice.getKeyProvider(), 'alice')
+    );
+    await sequence.respondToHandshake(
+      session.sessionId, bob, await BehavioralAttestationChainFactory.create(bob.getKeyProvider(), 'bob')
+    );
+
+    const jwt = await new VerifiableCredentialIssuer(alice, 'alice').issueHandshakeCredential(session);
+    const credential = await new VerifiableCredentialVerifier(resolver).verify(jwt);
+
+    expect(credential?.type).toEqual(['VerifiableCredential', 'ConstitutionalHandshakeCredential']);
+    expect(credential?.credentialSubject).toMatchObject({
+      id: bob.getDID(),
+      agentId: 'bob',
+      sessionId: session.sessionId,
+      initiator: 'alice',
+      success: session.result?.success,
+      trustLevel: session.result?.trustLevel,
+    });
+    await expect(new VerifiableCredentialIssuer(alice, 'carol').issueHandshakeCredential(session))
+      .rejects.toThrow('Agent did not take part in the handshake');
+  });
+});
@@ -8,7 +8,24 @@ import { ConstitutionalIdentity } from './core/constitutional-identity';
 import { BehavioralAttestationChain, BehavioralAttestationChainFactory } from './core/behavioral-attestation-chain';
 import { TrustGraphProtocol, TrustGraphProtocolFactory } from './core/trust-graph-protocol';
 import { ConstitutionalHandshakeSequence, ConstitutionalHandshakeSequenceFactory } from './core/handshake-sequence';
-import { ConstitutionalLaws, ConstitutionalCommitment, ConstitutionalAction } from './types/constitutional';
+import { RevocationRegistry, RevocationRegistryFactory } from './core/revocation-registry';
+import { VerifiableCredentialIssuer } from './core/verifiable-credentials';
+import {
+  ConstitutionalLaws,
+  ConstitutionalCommitment,
+  ConstitutionalAction,
+  ConstitutionAmendment,
+  ConstitutionVersion,
+  KeySuccessionRecord,
+  LoadedConstitution,
+} from './types/constitutional';
+import { PublicKeyInfo, EncryptedEnvelope, EncryptedKeystore, QuorumPolicy, KeyProvider } from './types/crypto';
+import { RevocationStatement, RevocationReason } from './types/revocation';
+import { TimestampAuthority, TimestampPolicy } from './types/timestamp';
+import { DEFAULT_SIGNATURE_SUITE_ID, getSignatureSuite } from './utils/signature-suites';
+import { encrypt } from './utils/crypto';
+import { loadKeystore } from './utils/keystore';
+import { getLawKeys } from './utils/constitution';
 // TrustLevel imported for type compatibility
 
 /**
@@ -21,14 +38,28 @@ export class CHP {
   private behavioralAttestationChain!: BehavioralAttestationChain;
   private trustGraphProtocol!: TrustGraphProtocol;
   private handshakeSequence!: ConstitutionalHandshakeSequence;
+  private revocationRegistry: RevocationRegistry;
   private isInitialized: boolean = false;
   private agentId: string;
-  private laws: ConstitutionalLaws;
+  private laws: ConstitutionalLaws | LoadedConstitution;
+  private commitmentOptions: { compatibleWith?: ConstitutionVersion[]; validFor?: number };
 
-  constructor(privateKey: CryptoKey, laws: ConstitutionalLaws, agentId: string) {
+  /**
+   * `compatibleWith` declares earlier versions of a loaded constitution the
+   * agent's commitment also satisfies. The commitment is valid for
+   * `validFor` milliseconds, one year by default.
+   */
+  constructor(
+    keys: CryptoKey | CryptoKeyPair | KeyProvider,
+    laws: ConstitutionalLaws | LoadedConstitution,
+    agentId: string,
+    options: { compatibleWith?: ConstitutionVersion[]; validFor?: number } = {}
+  ) {
     this.agentId = agentId;
-    this.constitutionalIdentity = new ConstitutionalIdentity(privateKey, laws);
+    this.revocationRegistry = RevocationRegistryFactory.create();
+    this.constitutionalIdentity = new ConstitutionalIdentity(keys, laws, this.revocationRegistry);
     this.laws = laws;
+    this.commitmentOptions = options;
     // Initialize components asynchronously - will be handled in the factory
     this.isInitialized = false;
   }
@@ -38,21 +69,23 @@ export class CHP {
    */
   async initializeComponents(): Promise<void> {
     // Initialize Constitutional Identity first
-    await this.constitutionalIdentity.initializeCommitment(this.laws);
+    await this.constitutionalIdentity.initializeCommitment(this.laws, this.commitmentOptions);
 
     // Initialize Behavioral Attestation Chain
     this.behavioralAttestationChain = await BehavioralAttestationChainFactory.create(
-      this.constitutionalIdentity['privateKey'],
-      this.agentId
+      this.constitutionalIdentity.getKeyProvider(),
+      this.agentId,
+      this.revocationRegistry
     );
 
     // Initialize Trust Graph Protocol
-    this.trustGraphProtocol = TrustGraphProtocolFactory.create();
+    this.trustGraphProtocol = TrustGraphProtocolFactory.create(this.revocationRegistry);
 
     // Initialize Constitutional Handshake Sequence
     this.handshakeSequence = ConstitutionalHandshakeSequenceFactory.create(
       this.trustGraphProtocol
     );
+    this.handshakeSequence.setRecognizedLaws(getLawKeys(this.laws));
 
     // Add this agent to the trust graph
     const commitment = this.constitutionalIdentity.getCommitment();
@@ -73,6 +106,14 @@ export class CHP {
     return this.constitutionalIdentity.getIdentity();
   }
 
+  /**
+   * Get the did:chp DID of this agent's identity
+   */
+  getDID(): string {
+    this.ensureInitialized();
+    return this.constitutionalIdentity.getDID();
+  }
+
   /**
    * Get the constitutional commitment
    */
@@ -81,6 +122,14 @@ export class CHP {
     return this.constitutionalIdentity.getCommitment();
   }
 
+  /**
+   * Get the agent's public key (JWK, SPKI and fingerprint)
+   */
+  getPublicKey(): PublicKeyInfo {
+    this.ensureInitialized();
+    return this.constitutionalIdentity.getPublicKeyInfo();
+  }
+
   /**
    * Verify another agent's constitutional commitment
    */
@@ -89,12 +138,192 @@ export class CHP {
     return await this.constitutionalIdentity.verifyCommitment(commitment);
   }
 
+  /**
+   * Encrypt data (e.g. an attestation payload or handshake message) to the
+   * agent behind a constitutional commitment
+   */
+  async encryptFor(
+    commitment: ConstitutionalCommitment,
+    data: string,
+    associatedData?: string
+  ): Promise<EncryptedEnvelope> {
+    this.ensureInitialized();
+    return await encrypt(data, commitment.publicKey, {
+      signatureSuite: commitment.signatureSuite,
+      associatedData,
+    });
+  }
+
+  /**
+   * Decrypt an envelope addressed to this agent
+   */
+  async decrypt(envelope: EncryptedEnvelope, expectedAssociatedData?: string): Promise<string> {
+    this.ensureInitialized();
+    return await this.constitutionalIdentity.decrypt(envelope, expectedAssociatedData);
+  }
+
+  /**
+   * Rotate to a new key, keeping the agent's identity, trust and reputation
+   *
+   * When no key is given, the current key provider generates one for the
+   * same suite, so a key held outside the agent process stays there. The
+   * replaced provider is closed. Throws, keeping the current key, if the
+   * trust graph rejects the succession. The returned succession record
+   * should be sent to peers so they can accept the new key.
+   */
+  async rotateKey(newKeys?: CryptoKey | CryptoKeyPair | KeyProvider): Promise<KeySuccessionRecord> {
+    this.ensureInitialized();
+    const previousProvider = this.constitutionalIdentity.getKeyProvider();
+    if (!newKeys && !previousProvider.generateSuccessor) {
+      throw new Error('Key provider cannot generate a successor key; pass the new key');
+    }
+    const keys = newKeys ?? await previousProvider.generateSuccessor!();
+
+    // The trust graph must accept the succession before the old key is given up
+    let record: KeySuccessionRecord;
+    try {
+      record = await this.constitutionalIdentity.rotateKey(keys, (succession, commitment) =>
+        this.trustGraphProtocol.applyKeySuccession(this.agentId, succession, commitment)
+      );
+    } catch (error) {
+      if (!newKeys) {
+        await (keys as KeyProvider).close?.();
+      }
+      throw error;
+    }
+
+    this.behavioralAttestationChain.setSigningKey(this.constitutionalIdentity.getKeyProvider());
+    await previousProvider.close?.();
+
+    return record;
+  }
+
+  /**
+   * Accept another agent's key rotation, carrying its trust over to the new key
+   */
+  async acceptKeySuccession(
+    agentId: string,
+    record: KeySuccessionRecord,
+    commitment: ConstitutionalCommitment
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    return await this.trustGraphProtocol.applyKeySuccession(agentId, record, commitment);
+  }
+
+  /**
+   * Renew this agent's commitment before it expires, keeping its identity
+   *
+   * Throws, keeping the current commitment, if the trust graph rejects the
+   * renewal. The renewed commitment should be sent to peers, with the one
+   * it renews, so they can accept it as the same agent.
+   */
+  async renewCommitment(options: { validFor?: number } = {}): Promise<ConstitutionalCommitment> {
+    this.ensureInitialized();
+    const previous = this.constitutionalIdentity.getCommitment();
+    return await this.constitutionalIdentity.renewCommitment(options, renewed =>
+      this.trustGraphProtocol.applyCommitmentRenewal(this.agentId, previous, renewed)
+    );
+  }
+
+  /**
+   * Accept another agent's commitment renewal, keeping its trust and
+   * reputation
+   */
+  async acceptCommitmentRenewal(
+    agentId: string,
+    previous: ConstitutionalCommitment,
+    renewed: ConstitutionalCommitment
+  ): Promise<boolean> {
+    this.ensureInitialized();
+    return await this.trustGraphProtocol.applyCommitmentRenewal(agentId, previous, renewed);
+  }
+
+  /**
+   * Require steward quorum approval for this agent's high-impact actions
+   */
+  setStewardPolicy(policy: QuorumPolicy): void {
+    this.ensureInitialized();
+    this.behavioralAttestationChain.setStewardPolicy(policy);
+  }
+
+  /**
+   * Require proof of work on this agent's attestation chain entries
+   *
+   * Must be set before the first action is recorded.
+   */
+  setAttestationDifficulty(difficulty: number): void {
+    this.ensureInitialized();
+    this.behavioralAttestationChain.setDifficulty(difficulty);
+  }
+
+  /**
+   * Countersign this agent's new attestation chain entries with a timestamp
+   * authority
+   */
+  setTimestampAuthority(authority: TimestampAuthority): void {
+    this.ensureInitialized();
+    this.behavioralAttestationChain.setTimestampAuthority(authority);
+  }
+
+  /**
+   * Set which timestamp authorities to trust, and what else the timestamp
+   * tokens of imported attestation chains must satisfy
+   *
+   * No authority is trusted until one is listed here.
+   */
+  setTimestampPolicy(policy: TimestampPolicy): void {
+    this.ensureInitialized();
+    this.behavioralAttestationChain.setTimestampPolicy(policy);
+  }
+
+  /**
+   * Only count peers' declared compatibility with earlier constitution
+   * versions when amendments approved by the constitution maintainers'
+   * `policy` back it
+   */
+  setAmendmentPolicy(policy: QuorumPolicy): void {
+    this.ensureInitialized();
+    this.handshakeSequence.setAmendmentPolicy(policy);
+  }
+
+  /**
+   * Add a constitution amendment approved under the amendment policy
+   */
+  async addConstitutionAmendment(amendment: ConstitutionAmendment): Promise<boolean> {
+    this.ensureInitialized();
+    return await this.handshakeSequence.addConstitutionAmendment(amendment);
+  }
+
+  /**
+   * Revoke this agent's current key or commitment
+   *
+   * The returned statement should be sent to peers, who pass it to
+   * `acceptRevocation`.
+   */
+  async revoke(
+    type: 'key' | 'commitment' = 'key',
+    reason: RevocationReason = 'unspecified'
+  ): Promise<RevocationStatement> {
+    this.ensureInitialized();
+    const statement = await this.constitutionalIdentity.createRevocation(type, reason);
+    await this.trustGraphProtocol.recordRevocation(statement);
+    return statement;
+  }
+
+  /**
+   * Accept a revocation issued by another agent
+   */
+  async acceptRevocation(statement: RevocationStatement): Promise<boolean> {
+    this.ensureInitialized();
+    return await this.trustGraphProtocol.recordRevocation(statement);
+  }
+
   /**
    * Check if this agent is constitutional
    */
   isConstitutional(): boolean {
     this.ensureInitialized();
-    return true; // This agent adheres to the five laws
+    return true; // This agent adheres to its constitution's laws
   }
 
   /**
@@ -102,13 +331,13 @@ export class CHP {
    */
   getComplianceStatus(): {
     isCompliant: boolean;
-    laws: Array<keyof ConstitutionalLaws>;
+    laws: string[];
     lastCheck: number;
   } {
     this.ensureInitialized();
     return {
       isCompliant: true,
-      laws: ['law1', 'law2', 'law3', 'law4', 'law5'],
+      laws: getLawKeys(this.laws),
       lastCheck: Date.now(),
     };
   }
@@ -239,6 +468,38 @@ export class CHP {
     return this.handshakeSequence.getAllActiveSessions();
   }
 
+  /**
+   * Export this agent's commitment as a VC-JWT Verifiable Credential
+   */
+  async exportCommitmentCredential(options: { validFor?: number } = {}): Promise<string> {
+    this.ensureInitialized();
+    return await new VerifiableCredentialIssuer(this.constitutionalIdentity, this.agentId)
+      .issueCommitmentCredential(this.laws, options);
+  }
+
+  /**
+   * Export the result of a finished handshake as a VC-JWT Verifiable
+   * Credential about the other party
+   */
+  async exportHandshakeCredential(sessionId: string, options: { validFor?: number } = {}): Promise<string> {
+    this.ensureInitialized();
+    const session = this.handshakeSequence.getHandshakeSession(sessionId);
+    if (!session) {
+      throw new Error(`Handshake session not found: ${sessionId}`);
+    }
+    return await new VerifiableCredentialIssuer(this.constitutionalIdentity, this.agentId)
+      .issueHandshakeCredential(session, options);
+  }
+
+  /**
+   * Save this agent's key to a password-protected keystore, for restoring
+   * the agent with `CHPFactory.fromKeystore` after a restart
+   */
+  async exportKeystore(password: string, options: { iterations?: number } = {}): Promise<EncryptedKeystore> {
+    this.ensureInitialized();
+    return await this.constitutionalIdentity.exportKeystore(password, { ...options, agentId: this.agentId });
+  }
+
   /**
    * Export agent data for backup or sharing
    */
@@ -263,28 +524,55 @@ export class CHPFactory {
   /**
    * Create a new CHP instance
    */
-  static async create(laws: ConstitutionalLaws, agentId: string): Promise<CHP> {
-    const keyPair = await crypto.subtle.generateKey(
-      {
-        name: 'ECDSA',
-        namedCurve: 'P-256',
-      },
-      true,
-      ['sign', 'verify']
-    );
-
-    const chp = new CHP(keyPair.privateKey, laws, agentId);
+  static async create(
+    laws: ConstitutionalLaws | LoadedConstitution,
+    agentId: string,
+    signatureSuite: string = DEFAULT_SIGNATURE_SUITE_ID,
+    options: { compatibleWith?: ConstitutionVersion[]; validFor?: number } = {}
+  ): Promise<CHP> {
+    const keyPair = await getSignatureSuite(signatureSuite).generateKeyPair();
+
+    const chp = new CHP(keyPair, laws, agentId, options);
     await chp.initializeComponents();
     return chp;
   }
 
   /**
    * Create a CHP instance from existing keys
+   *
+   * A lone private key must be extractable so its public half can be derived.
    */
-  static async fromKeys(privateKey: CryptoKey, laws: ConstitutionalLaws, agentId: string): Promise<CHP> {
-    const chp = new CHP(privateKey, laws, agentId);
+  static async fromKeys(
+    keys: CryptoKey | CryptoKeyPair | KeyProvider,
+    laws: ConstitutionalLaws | LoadedConstitution,
+    agentId: string,
+    options: { compatibleWith?: ConstitutionVersion[]; validFor?: number } = {}
+  ): Promise<CHP> {
+    const chp = new CHP(keys, laws, agentId, options);
     await chp.initializeComponents();
     return chp;
   }
+
+  /**
+   * Restore a CHP instance from a password-protected keystore
+   *
+   * Uses the agent ID recorded in the keystore unless one is given.
+   */
+  static async fromKeystore(
+    keystore: EncryptedKeystore | string,
+    password: string,
+    laws: ConstitutionalLaws | LoadedConstitution,
+    agentId?: string,
+    options: { compatibleWith?: ConstitutionVersion[]; validFor?: number } = {}
+  ): Promise<CHP> {
+    const parsed: EncryptedKeystore = typeof keystore === 'string' ? JSON.parse(keystore) : keystore;
+    const resolvedAgentId = agentId ?? parsed.agentId;
+    if (!resolvedAgentId) {
+      throw new Error('Keystore does not record an agent ID');
+    }
+
+    const keys = await loadKeystore(parsed, password);
+    return await this.fromKeys(keys, laws, resolvedAgentId, options);
+  }
 }
 
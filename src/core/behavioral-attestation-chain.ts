@@ -4,11 +4,38 @@
  * Manages tamper-evident logs of constitutional actions and decisions
  */
 
-import { BehavioralAttestation, AttestationChainEntry, MerkleProof, AttestationVerification } from '../types/attestation';
+import { BehavioralAttestation, AttestationChainEntry, MerkleProof, ConsistencyProof, AttestationVerification, SelectiveDisclosureProof, ZeroKnowledgeProof } from '../types/attestation';
 import { ConstitutionalAction } from '../types/constitutional';
-import { generateHash, createSignature, generateMerkleRoot, createMerkleProof, verifyMerkleProof } from '../utils/crypto';
+import { QuorumPolicy, Signer, KeyProvider } from '../types/crypto';
+import { TimestampAuthority, TimestampPolicy, TimestampToken, TimestampVerificationResult } from '../types/timestamp';
+import { RevocationRegistry } from './revocation-registry';
+import { generateHash, generateMerkleRoot, createMerkleProof, verifyMerkleProof, createMerkleConsistencyProof, verifyMerkleConsistencyProof, getHashAlgorithm, verifyHash, generateLegacyMerkleRoot } from '../utils/crypto';
+import { toKeyProvider } from '../utils/key-provider';
+import { verifyMultiSignature } from '../utils/multisig';
+import { createSaltedCommitment, getDisclosurePayload, selectDisclosures } from '../utils/selective-disclosure';
+import { verifySchnorrProof } from '../utils/schnorr';
+import { verifyChainSignatures, VerificationKey } from '../utils/batch-verification';
+import { createTimestampRequest, verifyTimestampToken, verifyChainTimestamps } from '../utils/timestamp';
+import { findProofOfWork, meetsDifficulty, validateDifficulty } from '../utils/proof-of-work';
+import { canonicalize } from '../utils/canonical-json';
 import { validateBehavioralAttestation } from '../utils/validation';
 
+/**
+ * The payload stewards sign to approve an action
+ *
+ * Built only from fields recorded in the action's attestation, so peers can
+ * check the approval without seeing the action itself.
+ */
+export function getActionApprovalPayload(action: Pick<ConstitutionalAction, 'id' | 'type' | 'relatedLaw' | 'timestamp' | 'impact'>): string {
+  return canonicalize({
+    actionId: action.id,
+    actionType: action.type,
+    relatedLaw: action.relatedLaw,
+    timestamp: action.timestamp,
+    impact: action.impact,
+  });
+}
+
 /**
  * Behavioral Attestation Chain Manager
  * 
@@ -17,20 +44,145 @@ import { validateBehavioralAttestation } from '../utils/validation';
 export class BehavioralAttestationChain {
   private chain: AttestationChainEntry[] = [];
   private merkleTree: string[] = [];
-  private privateKey: CryptoKey;
+  private signer: KeyProvider;
+  private keyFingerprint?: string;
   private agentId: string;
+  private revocationRegistry?: RevocationRegistry;
+  private stewardPolicy?: QuorumPolicy;
+  private timestampAuthority?: TimestampAuthority;
+  private timestampPolicy?: TimestampPolicy;
+  /** Leading zero bits every entry hash must have */
+  private difficulty: number = 0;
+  /** Lowest difficulty accepted from imported chains */
+  private requiredDifficulty: number = 0;
+  /** Settles once every pending entry has been appended */
+  private appendQueue: Promise<unknown> = Promise.resolve();
+  /** Salted disclosures of each attestation's action fields, by attestation ID */
+  private disclosures: Map<string, string[]> = new Map();
 
-  constructor(privateKey: CryptoKey, agentId: string) {
-    this.privateKey = privateKey;
+  /**
+   * Accepts a signer, or a private key that is signed with in memory
+   */
+  constructor(signer: CryptoKey | Signer, agentId: string, revocationRegistry?: RevocationRegistry) {
+    this.signer = toKeyProvider(signer);
     this.agentId = agentId;
+    this.revocationRegistry = revocationRegistry;
+  }
+
+  /**
+   * Sign new attestations with a different key, e.g. after a key rotation
+   *
+   * Existing entries keep the signatures they were created with.
+   */
+  setSigningKey(signer: CryptoKey | Signer): void {
+    this.signer = toKeyProvider(signer);
+    this.keyFingerprint = undefined;
+  }
+
+  /**
+   * Fingerprint of the signing key, recorded on attestations so importers
+   * can check it against revocations
+   *
+   * Undefined when the public key cannot be obtained, e.g. from a lone
+   * non-extractable private key.
+   */
+  private async getKeyFingerprint(): Promise<string | undefined> {
+    if (this.keyFingerprint === undefined) {
+      try {
+        this.keyFingerprint = (await this.signer.getPublicKey()).fingerprint;
+      } catch (error) {
+        return undefined;
+      }
+    }
+    return this.keyFingerprint;
+  }
+
+  /**
+   * Require steward quorum approval for high-impact actions
+   */
+  setStewardPolicy(policy: QuorumPolicy): void {
+    this.stewardPolicy = policy;
+  }
+
+  /**
+   * Countersign new entries with a timestamp authority
+   */
+  setTimestampAuthority(authority: TimestampAuthority): void {
+    this.timestampAuthority = authority;
+  }
+
+  /**
+   * Set what imported chains' timestamp tokens must satisfy, including
+   * which timestamp authorities to trust
+   *
+   * Without a policy no authority is trusted, so chains whose entries carry
+   * tokens are rejected; untimestamped chains are still accepted.
+   */
+  setTimestampPolicy(policy: TimestampPolicy): void {
+    this.timestampPolicy = policy;
+  }
+
+  /**
+   * Require every entry hash to start with `difficulty` zero bits
+   *
+   * Appending an entry then means searching for a nonce, which rate-limits
+   * how fast a chain can grow. The difficulty is declared in exported
+   * chains; it must be set before the first entry is added.
+   */
+  setDifficulty(difficulty: number): void {
+    validateDifficulty(difficulty);
+    if (this.chain.length > 0) {
+      throw new Error('Proof-of-work difficulty must be set before the first entry');
+    }
+    this.difficulty = difficulty;
+  }
+
+  /**
+   * Get the proof-of-work difficulty of this chain
+   */
+  getDifficulty(): number {
+    return this.difficulty;
+  }
+
+  /**
+   * Refuse imported chains that declare a lower difficulty than this
+   */
+  setRequiredDifficulty(difficulty: number): void {
+    validateDifficulty(difficulty);
+    this.requiredDifficulty = difficulty;
   }
 
   /**
    * Add a new constitutional action to the chain
+   *
+   * High-impact actions are refused unless the steward quorum approved them.
    */
   async addAction(action: ConstitutionalAction): Promise<AttestationChainEntry> {
+    if (action.impact === 'high' && this.stewardPolicy) {
+      const approved = action.stewardApproval !== undefined &&
+        await verifyMultiSignature(getActionApprovalPayload(action), action.stewardApproval, this.stewardPolicy);
+      if (!approved) {
+        throw new Error('High-impact action requires steward quorum approval');
+      }
+    }
+
     const attestation = await this.createAttestation(action);
+
+    // Append one entry at a time, so each links to the one before even while
+    // earlier entries are still being mined or timestamped
+    const append = this.appendQueue.then(() => this.appendEntry(attestation));
+    this.appendQueue = append.catch(() => undefined);
+    return await append;
+  }
+
+  /**
+   * Create a chain entry for an attestation and append it
+   */
+  private async appendEntry(attestation: BehavioralAttestation): Promise<AttestationChainEntry> {
     const entry = await this.createChainEntry(attestation);
+    if (this.timestampAuthority) {
+      entry.timestampToken = await this.requestTimestamp(entry.hash);
+    }
     
     this.chain.push(entry);
     this.updateMerkleTree();
@@ -47,38 +199,67 @@ export class BehavioralAttestationChain {
       actionType: action.type,
       relatedLaw: action.relatedLaw,
       timestamp: action.timestamp,
+      impact: action.impact,
+      stewardApproval: action.stewardApproval,
     };
 
-    // Generate proof for future zero-knowledge implementations
-    await this.generateProof(attestationData);
-    const signature = await createSignature(JSON.stringify(attestationData), this.privateKey);
+    const signature = await this.signer.sign(canonicalize(attestationData));
+
+    // Commit to every action field separately so they can be disclosed one
+    // at a time; the salts never leave this chain
+    const id = generateHash(`${action.id}-${Date.now()}`);
+    const { disclosures, commitment } = createSaltedCommitment({
+      actionId: action.id,
+      actionType: action.type,
+      relatedLaw: action.relatedLaw,
+      description: action.description,
+      justification: action.justification,
+      timestamp: action.timestamp,
+      impact: action.impact,
+    });
+    this.disclosures.set(id, disclosures);
 
     return {
-      id: generateHash(`${action.id}-${Date.now()}`),
+      id,
       agentId: this.agentId,
       actionId: action.id,
-      type: 'merkle_proof',
+      type: this.difficulty > 0 ? 'proof_of_work' : 'merkle_proof',
       data: attestationData,
       proof: signature,
+      signatureSuite: this.signer.algorithm,
+      keyFingerprint: await this.getKeyFingerprint(),
+      disclosureCommitment: commitment,
+      disclosureProof: await this.signer.sign(getDisclosurePayload(id, commitment)),
       timestamp: Date.now(),
       verifiers: [],
     };
   }
 
   /**
-   * Generate proof for the attestation
+   * Prove possession of the signing key, bound to a verifier's nonce
+   *
+   * Returns a `zero_knowledge` attestation carrying a Schnorr proof. It is
+   * presented to the verifier rather than added to the chain. Throws if the
+   * signer cannot produce proofs.
    */
-  private async generateProof(data: any): Promise<string> {
-    // In a real implementation, this would generate a zero-knowledge proof
-    // For now, we'll create a Merkle proof
-    const dataHash = generateHash(JSON.stringify(data));
-    const proof = {
-      type: 'merkle_proof',
-      dataHash,
-      timestamp: Date.now(),
+  async createPossessionProof(nonce: string): Promise<BehavioralAttestation> {
+    if (!this.signer.proveKeyPossession) {
+      throw new Error('Signer does not support proofs of possession');
+    }
+
+    const proof = await this.signer.proveKeyPossession(nonce);
+    return {
+      id: generateHash(`possession-${nonce}-${proof.timestamp}`),
+      agentId: this.agentId,
+      actionId: `possession-${nonce}`,
+      type: 'zero_knowledge',
+      data: proof,
+      proof: proof.proof,
+      signatureSuite: this.signer.algorithm,
+      keyFingerprint: await this.getKeyFingerprint(),
+      timestamp: proof.timestamp,
+      verifiers: [],
     };
-    
-    return JSON.stringify(proof);
   }
 
   /**
@@ -89,24 +270,36 @@ export class BehavioralAttestationChain {
       ? this.chain[this.chain.length - 1].hash 
       : '0';
     
-    const entryData = {
-      previousHash,
-      attestation,
-      nonce: Math.floor(Math.random() * 1000000),
-      timestamp: Date.now(),
-    };
-
-    const hash = generateHash(JSON.stringify(entryData));
+    const timestamp = Date.now();
+    
+    const { nonce, hash } = await findProofOfWork(
+      candidate => generateHash(canonicalize({ previousHash, attestation, nonce: candidate, timestamp })),
+      this.difficulty
+    );
     
     return {
       previousHash,
       hash,
       attestation,
-      nonce: entryData.nonce,
-      timestamp: entryData.timestamp,
+      nonce,
+      timestamp,
     };
   }
 
+  /**
+   * Obtain a timestamp token over an entry hash from the timestamp authority
+   */
+  private async requestTimestamp(entryHash: string): Promise<TimestampToken> {
+    const request = createTimestampRequest(entryHash);
+    const token = await this.timestampAuthority!.timestamp(request);
+
+    // We chose this authority, so we trust whichever key it signs with
+    if (!(await verifyTimestampToken(token, entryHash, { nonce: request.nonce, trustedAuthorities: [token.keyFingerprint] }))) {
+      throw new Error('Invalid timestamp token');
+    }
+    return token;
+  }
+
   /**
    * Update the Merkle tree with new entries
    */
@@ -130,16 +323,75 @@ export class BehavioralAttestationChain {
       return null;
     }
 
-    // Entry validation could be added here for future enhancements
-    const proof = createMerkleProof(this.merkleTree, entryIndex);
-    return proof ? { ...proof, index: entryIndex } : null;
+    return createMerkleProof(this.merkleTree, entryIndex);
+  }
+
+  /**
+   * Reveal chosen fields of an entry's action, keeping the others hidden
+   *
+   * Returns null for an invalid index or for entries this chain did not
+   * create, such as imported ones, since only the creator holds the salts.
+   */
+  createDisclosure(entryIndex: number, fields: string[]): SelectiveDisclosureProof | null {
+    const attestation = this.chain[entryIndex]?.attestation;
+    const disclosures = attestation && this.disclosures.get(attestation.id);
+    if (!disclosures || !attestation.disclosureCommitment || !attestation.disclosureProof) {
+      return null;
+    }
+
+    return {
+      attestationId: attestation.id,
+      ...selectDisclosures(disclosures, attestation.disclosureCommitment, fields),
+      proof: attestation.disclosureProof,
+      commitment: attestation.disclosureCommitment,
+      signatureSuite: attestation.signatureSuite,
+      keyFingerprint: attestation.keyFingerprint,
+    };
   }
 
   /**
    * Verify a Merkle proof
+   *
+   * Proofs against legacy roots are only accepted with `allowLegacy`.
+   */
+  verifyMerkleProof(proof: MerkleProof, allowLegacy: boolean = false): boolean {
+    return verifyMerkleProof(proof, allowLegacy);
+  }
+
+  /**
+   * Check the steward approval recorded in a high-impact attestation
+   */
+  async verifyStewardApproval(
+    attestation: BehavioralAttestation,
+    policy: QuorumPolicy | undefined = this.stewardPolicy
+  ): Promise<boolean> {
+    const { actionId, actionType, relatedLaw, timestamp, impact, stewardApproval } = attestation.data;
+    if (!policy || !stewardApproval) {
+      return false;
+    }
+
+    const payload = getActionApprovalPayload({ id: actionId, type: actionType, relatedLaw, timestamp, impact });
+    return await verifyMultiSignature(payload, stewardApproval, policy);
+  }
+
+  /**
+   * Prove that the chain at `newSize` entries is an append-only extension of
+   * the chain at `oldSize` entries
+   */
+  createConsistencyProof(oldSize: number, newSize: number = this.chain.length): ConsistencyProof | null {
+    if (!Number.isInteger(oldSize) || !Number.isInteger(newSize) ||
+        oldSize < 0 || oldSize > newSize || newSize > this.chain.length) {
+      return null;
+    }
+
+    return createMerkleConsistencyProof(this.merkleTree.slice(0, newSize), oldSize);
+  }
+
+  /**
+   * Verify a consistency proof
    */
-  verifyMerkleProof(proof: MerkleProof): boolean {
-    return verifyMerkleProof(proof);
+  verifyConsistencyProof(proof: ConsistencyProof): boolean {
+    return verifyMerkleConsistencyProof(proof);
   }
 
   /**
@@ -185,7 +437,14 @@ export class BehavioralAttestationChain {
         return false;
       }
     }
-    return true;
+    return this.chain.every(entry => meetsDifficulty(entry.hash, this.difficulty));
+  }
+
+  /**
+   * Verify the timestamp tokens of this chain
+   */
+  async verifyTimestamps(policy: TimestampPolicy = this.timestampPolicy ?? {}): Promise<TimestampVerificationResult> {
+    return await verifyChainTimestamps(this.chain, policy);
   }
 
   /**
@@ -220,8 +479,15 @@ export class BehavioralAttestationChain {
 
   /**
    * Verify an attestation
+   *
+   * `zero_knowledge` attestations carry a Schnorr proof of possession; when
+   * `expected` gives the committed public key or the nonce that was issued,
+   * the proof must be for them.
    */
-  async verifyAttestation(attestation: BehavioralAttestation): Promise<AttestationVerification> {
+  async verifyAttestation(
+    attestation: BehavioralAttestation,
+    expected: { publicKey?: string; nonce?: string } = {}
+  ): Promise<AttestationVerification> {
     const errors: string[] = [];
     const warnings: string[] = [];
 
@@ -231,6 +497,23 @@ export class BehavioralAttestationChain {
       errors.push(...validation.errors);
     }
 
+    if (attestation.type === 'zero_knowledge') {
+      const proof = attestation.data as ZeroKnowledgeProof;
+      const proofValid = proof?.proof === attestation.proof && await verifySchnorrProof(proof, expected);
+      if (!proofValid) {
+        errors.push('Invalid proof of possession');
+      }
+
+      return {
+        isValid: errors.length === 0,
+        confidence: proofValid ? 1.0 : 0,
+        method: 'zero_knowledge',
+        timestamp: Date.now(),
+        errors,
+        warnings,
+      };
+    }
+
     // Verify proof
     let proofValid = false;
     try {
@@ -262,12 +545,14 @@ export class BehavioralAttestationChain {
   exportChain(): {
     agentId: string;
     merkleRoot: string;
+    difficulty: number;
     entries: AttestationChainEntry[];
     stats: any;
   } {
     return {
       agentId: this.agentId,
       merkleRoot: this.getMerkleRoot(),
+      difficulty: this.difficulty,
       entries: this.getChain(),
       stats: this.getChainStats(),
     };
@@ -275,22 +560,89 @@ export class BehavioralAttestationChain {
 
   /**
    * Import chain from another agent
+   *
+   * When `signerKeys` are given (e.g. the owner's verified commitments,
+   * before and after any rotation), every entry must be signed by one of
+   * them. They are required when a revocation registry is set, since
+   * revocation is checked on the key that verified each entry.
+   *
+   * Chains hashed before the move to SHA-2 are rejected unless
+   * `options.allowLegacy` is set, which should only be done for chains known
+   * to predate it.
    */
-  async importChain(chainData: any): Promise<boolean> {
+  async importChain(
+    chainData: any,
+    signerKeys?: VerificationKey | VerificationKey[],
+    options: { allowLegacy?: boolean } = {}
+  ): Promise<boolean> {
     try {
+      const allowLegacy = options.allowLegacy ?? false;
+
       // Validate the imported chain
       if (!chainData.agentId || !chainData.entries || !Array.isArray(chainData.entries)) {
         return false;
       }
 
-      // Verify Merkle root
+      // Verify Merkle root, recomputed with the algorithm the exporter used.
+      // Roots of the legacy duplicated-leaf tree are only trusted on request.
       const importedRoot = chainData.merkleRoot;
-      const calculatedRoot = generateMerkleRoot(chainData.entries.map((entry: any) => entry.hash));
+      const leaves = chainData.entries.map((entry: any) => entry.hash);
+      const rootAlgorithm = getHashAlgorithm(importedRoot);
+      if (rootAlgorithm === null || (rootAlgorithm === 'legacy' && !allowLegacy)) {
+        return false;
+      }
+      const calculatedRoot = rootAlgorithm === 'legacy'
+        ? generateLegacyMerkleRoot(leaves)
+        : generateMerkleRoot(leaves, rootAlgorithm);
       
       if (importedRoot !== calculatedRoot) {
         return false;
       }
 
+      // Chains from before proof of work was introduced declare no difficulty
+      const difficulty = chainData.difficulty ?? 0;
+      if (!Number.isInteger(difficulty) || difficulty < this.requiredDifficulty) {
+        return false;
+      }
+
+      // Verify each entry hash covers its contents. Entries hashed before
+      // canonical JSON was introduced used JSON.stringify key order.
+      for (const entry of chainData.entries) {
+        const entryData = {
+          previousHash: entry.previousHash,
+          attestation: entry.attestation,
+          nonce: entry.nonce,
+          timestamp: entry.timestamp,
+        };
+
+        if (!verifyHash(canonicalize(entryData), entry.hash, allowLegacy) &&
+            !verifyHash(JSON.stringify(entryData), entry.hash, allowLegacy)) {
+          return false;
+        }
+
+        if (!meetsDifficulty(entry.hash, difficulty)) {
+          return false;
+        }
+      }
+
+      // Check every entry is signed by one of the owner's keys, and reject
+      // chains containing attestations signed with a revoked key. The
+      // fingerprint an entry declares is not signed, so revocation is
+      // checked on the key its signature verified against.
+      if (signerKeys || this.revocationRegistry) {
+        if (!signerKeys) {
+          return false;
+        }
+
+        const results = await verifyChainSignatures(chainData.entries, signerKeys);
+        for (const result of results) {
+          if (!result.isValid ||
+              (this.revocationRegistry && await this.revocationRegistry.isKeyRevoked(result.keyFingerprint!))) {
+            return false;
+          }
+        }
+      }
+
       // Verify chain integrity
       for (let i = 1; i < chainData.entries.length; i++) {
         const current = chainData.entries[i];
@@ -301,6 +653,12 @@ export class BehavioralAttestationChain {
         }
       }
 
+      // Verify timestamp tokens, which countersign the entry hashes
+      const timestamps = await verifyChainTimestamps(chainData.entries, this.timestampPolicy);
+      if (!timestamps.isValid) {
+        return false;
+      }
+
       return true;
     } catch (error) {
       console.error('Error importing chain:', error);
@@ -316,20 +674,27 @@ export class BehavioralAttestationChainFactory {
   /**
    * Create a new BAC instance
    */
-  static async create(privateKey: CryptoKey, agentId: string): Promise<BehavioralAttestationChain> {
-    return new BehavioralAttestationChain(privateKey, agentId);
+  static async create(
+    signer: CryptoKey | Signer,
+    agentId: string,
+    revocationRegistry?: RevocationRegistry
+  ): Promise<BehavioralAttestationChain> {
+    return new BehavioralAttestationChain(signer, agentId, revocationRegistry);
   }
 
   /**
    * Create BAC from existing chain data
    */
   static async fromChainData(
-    privateKey: CryptoKey, 
+    signer: CryptoKey | Signer, 
     agentId: string, 
-    chainData: any
+    chainData: any,
+    revocationRegistry?: RevocationRegistry,
+    signerKeys?: VerificationKey | VerificationKey[],
+    options: { allowLegacy?: boolean } = {}
   ): Promise<BehavioralAttestationChain | null> {
-    const bac = new BehavioralAttestationChain(privateKey, agentId);
-    const isValid = await bac.importChain(chainData);
+    const bac = new BehavioralAttestationChain(signer, agentId, revocationRegistry);
+    const isValid = await bac.importChain(chainData, signerKeys, options);
     
     if (isValid) {
       return bac;
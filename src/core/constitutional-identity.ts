@@ -4,8 +4,24 @@
  * Manages unique identifiers derived from agent's constitutional commitment
  */
 
-import { ConstitutionalCommitment, ConstitutionalLaws } from '../types/constitutional';
-import { generateHash, createSignature, verifySignature } from '../utils/crypto';
+import {
+  ConstitutionalCommitment,
+  ConstitutionalLaws,
+  ConstitutionVersion,
+  KeySuccessionRecord,
+  LoadedConstitution,
+} from '../types/constitutional';
+import { PublicKeyInfo, EncryptedEnvelope, EncryptedKeystore, QuorumPolicy, MultiSignature, KeyProvider } from '../types/crypto';
+import { RevocationStatement, RevocationReason } from '../types/revocation';
+import { RevocationRegistry } from './revocation-registry';
+import { generateHash, verifySignature, generateKeyFingerprint } from '../utils/crypto';
+import { canonicalize } from '../utils/canonical-json';
+import { verifyMultiSignature } from '../utils/multisig';
+import { toKeyProvider } from '../utils/key-provider';
+import { getChpDID } from '../utils/did';
+import { DEFAULT_COMMITMENT_VALIDITY } from '../utils/validation';
+import { compareConstitutionVersions, getLawsHash, isLoadedConstitution } from '../utils/constitution';
+import { DEFAULT_SIGNATURE_SUITE_ID, getSignatureSuite } from '../utils/signature-suites';
 
 /**
  * Constitutional Identity Manager
@@ -14,45 +30,103 @@ import { generateHash, createSignature, verifySignature } from '../utils/crypto'
  */
 export class ConstitutionalIdentity {
   private commitment!: ConstitutionalCommitment;
-  private privateKey: CryptoKey;
+  private initialCommitment!: ConstitutionalCommitment;
+  private keyProvider: KeyProvider;
+  private publicKeyInfo!: PublicKeyInfo;
+  private successionRecords: KeySuccessionRecord[] = [];
+  private revocationRegistry?: RevocationRegistry;
   private isInitialized: boolean = false;
 
-  constructor(privateKey: CryptoKey, _laws: ConstitutionalLaws) {
-    this.privateKey = privateKey;
+  /**
+   * Accepts a key provider, a full key pair, or a lone extractable private
+   * key whose public half is derived on initialization. Commitments are
+   * checked against `revocationRegistry` when one is given.
+   */
+  constructor(
+    keys: CryptoKey | CryptoKeyPair | KeyProvider,
+    _laws: ConstitutionalLaws | LoadedConstitution,
+    revocationRegistry?: RevocationRegistry
+  ) {
+    this.revocationRegistry = revocationRegistry;
+    this.keyProvider = toKeyProvider(keys);
     // Initialization will be handled by the factory
     this.isInitialized = false;
   }
 
   /**
    * Initialize the constitutional commitment
+   *
+   * A loaded constitution is committed to by the hash of its canonical
+   * document, along with its name and version. `compatibleWith` declares
+   * earlier versions of that constitution the commitment also satisfies.
+   * The commitment is valid for `validFor` milliseconds, one year by default.
    */
-  async initializeCommitment(laws: ConstitutionalLaws): Promise<void> {
-    this.commitment = await this.createCommitment(laws);
+  async initializeCommitment(
+    laws: ConstitutionalLaws | LoadedConstitution,
+    options: { compatibleWith?: ConstitutionVersion[]; validFor?: number } = {}
+  ): Promise<void> {
+    this.publicKeyInfo = await this.keyProvider.getPublicKey();
+    this.commitment = await this.createCommitment(laws, options.compatibleWith, options.validFor);
+    this.initialCommitment = this.commitment;
     this.isInitialized = true;
   }
 
   /**
    * Create a constitutional commitment
    */
-  private async createCommitment(laws: ConstitutionalLaws): Promise<ConstitutionalCommitment> {
-    const lawsHash = generateHash(JSON.stringify(laws));
+  private async createCommitment(
+    laws: ConstitutionalLaws | LoadedConstitution,
+    compatibleWith?: ConstitutionVersion[],
+    validFor: number = DEFAULT_COMMITMENT_VALIDITY
+  ): Promise<ConstitutionalCommitment> {
+    const constitution = isLoadedConstitution(laws) ? { name: laws.name, version: laws.version } : undefined;
+    if (compatibleWith?.length && (!constitution || compatibleWith.some(version =>
+      version.name !== constitution.name || compareConstitutionVersions(version.version, constitution.version) >= 0
+    ))) {
+      throw new Error('Compatible versions must be earlier versions of the committed constitution');
+    }
+
     const timestamp = Date.now();
-    const id = generateHash(`${lawsHash}-${timestamp}`);
-    
+    return await this.signCommitment({
+      lawsHash: getLawsHash(laws),
+      constitution,
+      compatibleWith: compatibleWith?.length ? compatibleWith : undefined,
+      expiresAt: timestamp + checkValidityPeriod(validFor),
+    }, undefined, timestamp);
+  }
+
+  /**
+   * Sign a commitment to `terms` with the current key
+   *
+   * `identityId` is set on commitments re-issued after a key rotation or
+   * renewal. A rotation signs with the next key before it is adopted.
+   */
+  private async signCommitment(
+    terms: Pick<ConstitutionalCommitment, 'lawsHash' | 'constitution' | 'compatibleWith' | 'expiresAt' | 'renews'>,
+    identityId?: string,
+    timestamp: number = Date.now(),
+    keyProvider: KeyProvider = this.keyProvider,
+    publicKeyInfo: PublicKeyInfo = this.publicKeyInfo
+  ): Promise<ConstitutionalCommitment> {
+    const { spki, fingerprint } = publicKeyInfo;
+    const id = ConstitutionalIdentityVerifier.getCommitmentId(terms.lawsHash, fingerprint, timestamp);
+
     const commitmentData = {
       id,
-      lawsHash,
+      lawsHash: terms.lawsHash,
       timestamp,
+      signatureSuite: keyProvider.algorithm,
+      identityId,
+      constitution: terms.constitution,
+      compatibleWith: terms.compatibleWith,
+      expiresAt: terms.expiresAt,
+      renews: terms.renews,
     };
 
-    const signature = await createSignature(JSON.stringify(commitmentData), this.privateKey);
-    const publicKey = this.extractPublicKey();
+    const unsigned = { ...commitmentData, publicKey: spki, keyFingerprint: fingerprint };
+    const signature = await keyProvider.sign(ConstitutionalIdentityVerifier.getCommitmentPayload(unsigned));
 
-    return {
-      ...commitmentData,
-      signature,
-      publicKey,
-    };
+    return { ...unsigned, signature };
   }
 
   /**
@@ -66,10 +140,19 @@ export class ConstitutionalIdentity {
 
   /**
    * Get the constitutional identity
+   *
+   * Stays the same across key rotations, unlike the commitment ID.
    */
   getIdentity(): string {
     this.ensureInitialized();
-    return this.commitment.id;
+    return this.commitment.identityId ?? this.commitment.id;
+  }
+
+  /**
+   * Get the did:chp DID of this identity
+   */
+  getDID(): string {
+    return getChpDID(this.getCommitment());
   }
 
   /**
@@ -80,37 +163,216 @@ export class ConstitutionalIdentity {
     return this.commitment;
   }
 
+  /**
+   * Get the first commitment, whose ID is the identity and whose key starts
+   * the succession chain
+   */
+  getInitialCommitment(): ConstitutionalCommitment {
+    this.ensureInitialized();
+    return this.initialCommitment;
+  }
+
   /**
    * Verify another agent's constitutional commitment
    */
   async verifyCommitment(commitment: ConstitutionalCommitment): Promise<boolean> {
-    try {
-      const commitmentData = {
-        id: commitment.id,
-        lawsHash: commitment.lawsHash,
-        timestamp: commitment.timestamp,
-      };
+    return await ConstitutionalIdentityVerifier.verify(commitment, this.revocationRegistry);
+  }
 
-      const isValid = await verifySignature(
-        JSON.stringify(commitmentData),
-        commitment.signature,
-        commitment.publicKey
-      );
+  /**
+   * Get the published public key (JWK, SPKI and fingerprint)
+   */
+  getPublicKeyInfo(): PublicKeyInfo {
+    this.ensureInitialized();
+    return this.publicKeyInfo;
+  }
 
-      return isValid;
-    } catch (error) {
-      console.error('Error verifying constitutional commitment:', error);
+  /**
+   * Get the short fingerprint of the identity's public key
+   */
+  getKeyFingerprint(): string {
+    this.ensureInitialized();
+    return this.publicKeyInfo.fingerprint;
+  }
+
+  /**
+   * Rotate to a new key
+   *
+   * The current key signs a succession record naming the new key, the new
+   * key countersigns it, and the commitment is re-issued under the new key
+   * with the same stable identity. A lone private key must be extractable.
+   *
+   * When `accept` is given, the rotation only takes effect if it accepts the
+   * record and re-issued commitment; otherwise this throws and the current
+   * key stays in use.
+   */
+  async rotateKey(
+    newKeys: CryptoKey | CryptoKeyPair | KeyProvider,
+    accept?: (record: KeySuccessionRecord, commitment: ConstitutionalCommitment) => Promise<boolean>
+  ): Promise<KeySuccessionRecord> {
+    this.ensureInitialized();
+
+    const nextKeyProvider = toKeyProvider(newKeys);
+    const nextPublicKeyInfo = await nextKeyProvider.getPublicKey();
+    const identityId = this.getIdentity();
+
+    const recordData = {
+      identityId,
+      sequence: this.successionRecords.length + 1,
+      previousPublicKey: this.publicKeyInfo.spki,
+      previousKeyFingerprint: this.publicKeyInfo.fingerprint,
+      previousSignatureSuite: this.keyProvider.algorithm,
+      nextPublicKey: nextPublicKeyInfo.spki,
+      nextKeyFingerprint: nextPublicKeyInfo.fingerprint,
+      nextSignatureSuite: nextKeyProvider.algorithm,
+      timestamp: Date.now(),
+    };
+
+    const payload = canonicalize(recordData);
+    const record: KeySuccessionRecord = {
+      ...recordData,
+      signature: await this.keyProvider.sign(payload),
+      nextKeySignature: await nextKeyProvider.sign(payload),
+    };
+
+    const commitment = await this.signCommitment(
+      { ...this.commitment, renews: undefined },
+      identityId,
+      Date.now(),
+      nextKeyProvider,
+      nextPublicKeyInfo
+    );
+    if (accept && !(await accept(record, commitment))) {
+      throw new Error('Key succession was rejected');
+    }
+
+    this.keyProvider = nextKeyProvider;
+    this.publicKeyInfo = nextPublicKeyInfo;
+    this.commitment = commitment;
+    this.successionRecords.push(record);
+
+    return record;
+  }
+
+  /**
+   * Renew the current commitment for another `validFor` milliseconds (one
+   * year by default), keeping the identity and terms
+   *
+   * The renewal is signed by the current key and names the commitment it
+   * renews by ID and signature, so peers can verify the chain with
+   * `ConstitutionalIdentityVerifier.verifyRenewal`. Steward approval does not
+   * carry over and must be attached again.
+   *
+   * When `accept` is given, the renewal only takes effect if it accepts it;
+   * otherwise this throws and the current commitment stays in use.
+   */
+  async renewCommitment(
+    options: { validFor?: number } = {},
+    accept?: (renewed: ConstitutionalCommitment) => Promise<boolean>
+  ): Promise<ConstitutionalCommitment> {
+    this.ensureInitialized();
+
+    const previous = this.commitment;
+    // A renewal in the same millisecond would otherwise get the same ID
+    const timestamp = Math.max(Date.now(), previous.timestamp + 1);
+    const renewed = await this.signCommitment({
+      ...previous,
+      expiresAt: timestamp + checkValidityPeriod(options.validFor ?? DEFAULT_COMMITMENT_VALIDITY),
+      renews: { id: previous.id, signature: previous.signature },
+    }, this.getIdentity(), timestamp);
+    if (accept && !(await accept(renewed))) {
+      throw new Error('Commitment renewal was rejected');
+    }
+
+    this.commitment = renewed;
+    return this.commitment;
+  }
+
+  /**
+   * Attach steward quorum signatures to the current commitment
+   *
+   * Stewards sign `ConstitutionalIdentityVerifier.getCommitmentPayload` of
+   * the commitment. Returns false, leaving the commitment unchanged, if the
+   * approval does not meet the policy.
+   */
+  async attachStewardApproval(approval: MultiSignature, policy: QuorumPolicy): Promise<boolean> {
+    this.ensureInitialized();
+    const payload = ConstitutionalIdentityVerifier.getCommitmentPayload(this.commitment);
+    if (!(await verifyMultiSignature(payload, approval, policy))) {
       return false;
     }
+
+    this.commitment = { ...this.commitment, stewardApproval: approval };
+    return true;
+  }
+
+  /**
+   * Sign a statement revoking the current key or commitment
+   *
+   * Revoking the key also revokes every commitment signed with it.
+   */
+  async createRevocation(
+    type: 'key' | 'commitment' = 'key',
+    reason: RevocationReason = 'unspecified'
+  ): Promise<RevocationStatement> {
+    this.ensureInitialized();
+
+    const statementData = {
+      type,
+      subject: type === 'key' ? this.publicKeyInfo.fingerprint : this.commitment.id,
+      keyFingerprint: this.publicKeyInfo.fingerprint,
+      publicKey: this.publicKeyInfo.spki,
+      signatureSuite: this.keyProvider.algorithm,
+      reason,
+      revokedAt: Date.now(),
+    };
+
+    return {
+      ...statementData,
+      signature: await this.keyProvider.sign(canonicalize(statementData)),
+    };
+  }
+
+  /**
+   * Get the succession records of every rotation, oldest first
+   */
+  getSuccessionRecords(): KeySuccessionRecord[] {
+    return [...this.successionRecords];
+  }
+
+  /**
+   * Decrypt an envelope addressed to this identity
+   */
+  async decrypt(envelope: EncryptedEnvelope, expectedAssociatedData?: string): Promise<string> {
+    this.ensureInitialized();
+    if (envelope.recipientKeyId !== this.publicKeyInfo.fingerprint) {
+      throw new Error('Envelope is not addressed to this identity');
+    }
+    if (!this.keyProvider.decrypt) {
+      throw new Error('Key provider does not support decryption');
+    }
+    return await this.keyProvider.decrypt(envelope, expectedAssociatedData);
+  }
+
+  /**
+   * Save the identity's key pair to a password-protected keystore
+   */
+  async exportKeystore(
+    password: string,
+    options: { agentId?: string; iterations?: number } = {}
+  ): Promise<EncryptedKeystore> {
+    this.ensureInitialized();
+    if (!this.keyProvider.exportKeystore) {
+      throw new Error('Key provider does not support keystore export');
+    }
+    return await this.keyProvider.exportKeystore(password, options);
   }
 
   /**
-   * Extract public key from private key
+   * Get the key provider that signs for the current key
    */
-  private extractPublicKey(): string {
-    // In a real implementation, this would extract the public key
-    // For now, we'll use a placeholder
-    return 'public-key-placeholder';
+  getKeyProvider(): KeyProvider {
+    return this.keyProvider;
   }
 
   /**
@@ -118,7 +380,7 @@ export class ConstitutionalIdentity {
    */
   generateIdentityHash(): string {
     this.ensureInitialized();
-    return generateHash(this.commitment.id);
+    return generateHash(this.getIdentity());
   }
 
   /**
@@ -126,7 +388,7 @@ export class ConstitutionalIdentity {
    */
   matches(otherIdentity: string): boolean {
     this.ensureInitialized();
-    return this.commitment.id === otherIdentity;
+    return this.getIdentity() === otherIdentity;
   }
 
   /**
@@ -136,13 +398,25 @@ export class ConstitutionalIdentity {
     this.ensureInitialized();
     return {
       id: this.commitment.id,
+      identityId: this.getIdentity(),
       lawsHash: this.commitment.lawsHash,
       timestamp: this.commitment.timestamp,
       publicKey: this.commitment.publicKey,
+      keyFingerprint: this.publicKeyInfo.fingerprint,
     };
   }
 }
 
+/**
+ * Check a commitment validity period is a positive number of milliseconds
+ */
+function checkValidityPeriod(validFor: number): number {
+  if (!Number.isFinite(validFor) || validFor <= 0) {
+    throw new Error('Validity period must be a positive number of milliseconds');
+  }
+  return validFor;
+}
+
 /**
  * Constitutional Identity Factory
  * 
@@ -152,9 +426,13 @@ export class ConstitutionalIdentityFactory {
   /**
    * Create a new constitutional identity
    */
-  static async create(laws: ConstitutionalLaws): Promise<ConstitutionalIdentity> {
-    const keyPair = await this.generateKeyPair();
-    const identity = new ConstitutionalIdentity(keyPair.privateKey, laws);
+  static async create(
+    laws: ConstitutionalLaws | LoadedConstitution,
+    signatureSuite: string = DEFAULT_SIGNATURE_SUITE_ID,
+    revocationRegistry?: RevocationRegistry
+  ): Promise<ConstitutionalIdentity> {
+    const keyPair = await this.generateKeyPair(signatureSuite);
+    const identity = new ConstitutionalIdentity(keyPair, laws, revocationRegistry);
     
     // Initialize the commitment
     await identity.initializeCommitment(laws);
@@ -163,17 +441,10 @@ export class ConstitutionalIdentityFactory {
   }
 
   /**
-   * Generate a cryptographic key pair
+   * Generate a cryptographic key pair for the given signature suite
    */
-  private static async generateKeyPair(): Promise<CryptoKeyPair> {
-    return await crypto.subtle.generateKey(
-      {
-        name: 'ECDSA',
-        namedCurve: 'P-256',
-      },
-      true,
-      ['sign', 'verify']
-    );
+  private static async generateKeyPair(signatureSuite: string): Promise<CryptoKeyPair> {
+    return await getSignatureSuite(signatureSuite).generateKeyPair();
   }
 }
 
@@ -185,19 +456,32 @@ export class ConstitutionalIdentityFactory {
 export class ConstitutionalIdentityVerifier {
   /**
    * Verify a constitutional identity
+   *
+   * Commitments revoked in `revocationRegistry`, directly or through their
+   * key, are rejected.
    */
-  static async verify(commitment: ConstitutionalCommitment): Promise<boolean> {
+  static async verify(commitment: ConstitutionalCommitment, revocationRegistry?: RevocationRegistry): Promise<boolean> {
     try {
-      const commitmentData = {
-        id: commitment.id,
-        lawsHash: commitment.lawsHash,
-        timestamp: commitment.timestamp,
-      };
+      if (revocationRegistry && await revocationRegistry.isCommitmentRevoked(commitment)) {
+        return false;
+      }
+
+      // A published fingerprint must match the key it claims to describe
+      const keyFingerprint = generateKeyFingerprint(commitment.publicKey);
+      if (commitment.keyFingerprint !== undefined && commitment.keyFingerprint !== keyFingerprint) {
+        return false;
+      }
+
+      // The ID is derived from the key, so another key cannot claim it
+      if (commitment.id !== this.getCommitmentId(commitment.lawsHash, keyFingerprint, commitment.timestamp)) {
+        return false;
+      }
 
       const isValid = await verifySignature(
-        JSON.stringify(commitmentData),
+        this.getCommitmentPayload(commitment),
         commitment.signature,
-        commitment.publicKey
+        commitment.publicKey,
+        commitment.signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID
       );
 
       return isValid;
@@ -207,6 +491,159 @@ export class ConstitutionalIdentityVerifier {
     }
   }
 
+  /**
+   * Derive a commitment's ID from its laws, key and creation time
+   */
+  static getCommitmentId(lawsHash: string, keyFingerprint: string, timestamp: number): string {
+    return generateHash(`${lawsHash}-${keyFingerprint}-${timestamp}`);
+  }
+
+  /**
+   * The canonical bytes the identity key (and any stewards) sign
+   *
+   * Covers the fingerprint of the committed key, so approvals cannot be
+   * moved onto a commitment to another key.
+   */
+  static getCommitmentPayload(commitment: Omit<ConstitutionalCommitment, 'signature'>): string {
+    return canonicalize({
+      id: commitment.id,
+      keyFingerprint: generateKeyFingerprint(commitment.publicKey),
+      lawsHash: commitment.lawsHash,
+      timestamp: commitment.timestamp,
+      signatureSuite: commitment.signatureSuite,
+      identityId: commitment.identityId,
+      constitution: commitment.constitution,
+      compatibleWith: commitment.compatibleWith,
+      expiresAt: commitment.expiresAt,
+      renews: commitment.renews,
+    });
+  }
+
+  /**
+   * Verify a commitment together with its steward quorum approval
+   */
+  static async verifyStewardApproval(
+    commitment: ConstitutionalCommitment,
+    policy: QuorumPolicy,
+    revocationRegistry?: RevocationRegistry
+  ): Promise<boolean> {
+    if (!commitment.stewardApproval || !(await this.verify(commitment, revocationRegistry))) {
+      return false;
+    }
+    return await verifyMultiSignature(this.getCommitmentPayload(commitment), commitment.stewardApproval, policy);
+  }
+
+  /**
+   * Verify a key succession record
+   *
+   * Both keys must have signed the record and the fingerprints must match
+   * the keys they describe. Records signed by a key that had already been
+   * revoked in `revocationRegistry`, or that was ever revoked as
+   * compromised, are rejected.
+   */
+  static async verifySuccession(record: KeySuccessionRecord, revocationRegistry?: RevocationRegistry): Promise<boolean> {
+    try {
+      if (record.previousKeyFingerprint !== generateKeyFingerprint(record.previousPublicKey) ||
+          record.nextKeyFingerprint !== generateKeyFingerprint(record.nextPublicKey)) {
+        return false;
+      }
+
+      if (revocationRegistry && await revocationRegistry.isKeyRevoked(record.previousKeyFingerprint, record.timestamp)) {
+        return false;
+      }
+
+      const payload = canonicalize({
+        identityId: record.identityId,
+        sequence: record.sequence,
+        previousPublicKey: record.previousPublicKey,
+        previousKeyFingerprint: record.previousKeyFingerprint,
+        previousSignatureSuite: record.previousSignatureSuite,
+        nextPublicKey: record.nextPublicKey,
+        nextKeyFingerprint: record.nextKeyFingerprint,
+        nextSignatureSuite: record.nextSignatureSuite,
+        timestamp: record.timestamp,
+      });
+
+      return await verifySignature(payload, record.signature, record.previousPublicKey, record.previousSignatureSuite) &&
+        await verifySignature(payload, record.nextKeySignature, record.nextPublicKey, record.nextSignatureSuite);
+    } catch (error) {
+      console.error('Error verifying key succession:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Verify that `currentCommitment` belongs to the same identity as
+   * `knownCommitment`, through an unbroken chain of succession records
+   *
+   * Rotations signed by a key already revoked in `revocationRegistry` break
+   * the chain. Whether the current commitment has since been revoked is
+   * left to the caller.
+   */
+  static async verifySuccessionChain(
+    knownCommitment: ConstitutionalCommitment,
+    records: KeySuccessionRecord[],
+    currentCommitment: ConstitutionalCommitment,
+    revocationRegistry?: RevocationRegistry
+  ): Promise<boolean> {
+    const identityId = knownCommitment.identityId ?? knownCommitment.id;
+    let fingerprint = knownCommitment.keyFingerprint ?? generateKeyFingerprint(knownCommitment.publicKey);
+
+    for (let i = 0; i < records.length; i++) {
+      const record = records[i];
+      if (record.identityId !== identityId ||
+          record.previousKeyFingerprint !== fingerprint ||
+          (i > 0 && record.sequence !== records[i - 1].sequence + 1) ||
+          !(await this.verifySuccession(record, revocationRegistry))) {
+        return false;
+      }
+      fingerprint = record.nextKeyFingerprint;
+    }
+
+    return (currentCommitment.identityId ?? currentCommitment.id) === identityId &&
+      generateKeyFingerprint(currentCommitment.publicKey) === fingerprint &&
+      await this.verify(currentCommitment);
+  }
+
+  /**
+   * Verify that `renewed` renews `previous`
+   *
+   * The renewal must name `previous` by ID and signature, belong to the
+   * same identity and be signed by the same key, no earlier than it.
+   * Either commitment may have expired.
+   */
+  static async verifyRenewal(
+    previous: ConstitutionalCommitment,
+    renewed: ConstitutionalCommitment,
+    revocationRegistry?: RevocationRegistry
+  ): Promise<boolean> {
+    if (!renewed.renews ||
+        renewed.renews.id !== previous.id ||
+        renewed.renews.signature !== previous.signature ||
+        renewed.identityId !== (previous.identityId ?? previous.id) ||
+        renewed.publicKey !== previous.publicKey ||
+        renewed.timestamp < previous.timestamp) {
+      return false;
+    }
+
+    return await this.verify(previous, revocationRegistry) && await this.verify(renewed, revocationRegistry);
+  }
+
+  /**
+   * Verify a chain of renewals, oldest first, each renewing the one before
+   */
+  static async verifyRenewalChain(
+    commitments: ConstitutionalCommitment[],
+    revocationRegistry?: RevocationRegistry
+  ): Promise<boolean> {
+    for (let i = 1; i < commitments.length; i++) {
+      if (!(await this.verifyRenewal(commitments[i - 1], commitments[i], revocationRegistry))) {
+        return false;
+      }
+    }
+    return commitments.length > 0;
+  }
+
   /**
    * Validate constitutional commitment format
    */
@@ -0,0 +1,187 @@
+/**
+ * DID Resolver Implementation
+ *
+ * Registers constitutional identities as did:chp DIDs and resolves did:chp
+ * and did:key DIDs to DID documents
+ */
+
+import { DIDRecord, DIDRegistry, DIDResolutionResult, DIDService } from '../types/did';
+import { ConstitutionalIdentity, ConstitutionalIdentityVerifier } from './constitutional-identity';
+import { RevocationRegistry } from './revocation-registry';
+import { verifySignature } from '../utils/crypto';
+import { canonicalize } from '../utils/canonical-json';
+import { createDIDDocument, getChpDID, parseDID, resolveDidKey } from '../utils/did';
+import { DEFAULT_SIGNATURE_SUITE_ID } from '../utils/signature-suites';
+
+/**
+ * In-memory did:chp registry
+ */
+export class InMemoryDIDRegistry implements DIDRegistry {
+  private records: Map<string, DIDRecord> = new Map();
+
+  async put(did: string, record: DIDRecord): Promise<void> {
+    this.records.set(did, record);
+  }
+
+  async get(did: string): Promise<DIDRecord | null> {
+    return this.records.get(did) || null;
+  }
+}
+
+/**
+ * DID Resolver
+ *
+ * Records are verified when resolved, not only when registered, so a
+ * registry backend does not have to be trusted.
+ */
+export class DIDResolver {
+  private registry: DIDRegistry;
+  private revocationRegistry?: RevocationRegistry;
+
+  /**
+   * Identities whose commitment or key is in `revocationRegistry` resolve
+   * as deactivated
+   */
+  constructor(registry: DIDRegistry = new InMemoryDIDRegistry(), revocationRegistry?: RevocationRegistry) {
+    this.registry = registry;
+    this.revocationRegistry = revocationRegistry;
+  }
+
+  /**
+   * Register an identity's current commitment and services under its
+   * did:chp DID
+   *
+   * Re-registering after a key rotation, a renewal or to change services
+   * replaces the record; an older commitment cannot replace a newer one.
+   */
+  async register(identity: ConstitutionalIdentity, services: DIDService[] = []): Promise<string> {
+    const did = identity.getDID();
+    const existing = await this.registry.get(did);
+    const commitment = identity.getCommitment();
+
+    if (existing && existing.commitment.timestamp > commitment.timestamp) {
+      throw new Error('A newer commitment is already registered for this DID');
+    }
+
+    const now = Date.now();
+    const unsigned = {
+      initialCommitment: identity.getInitialCommitment(),
+      commitment,
+      successionRecords: identity.getSuccessionRecords(),
+      services,
+      created: existing?.created ?? now,
+      updated: now,
+    };
+    const record: DIDRecord = {
+      ...unsigned,
+      signature: await identity.getKeyProvider().sign(DIDResolver.getRecordPayload(did, unsigned)),
+    };
+
+    await this.registry.put(did, record);
+    return did;
+  }
+
+  /**
+   * Resolve a did:chp or did:key DID
+   */
+  async resolve(did: string): Promise<DIDResolutionResult> {
+    const parsed = parseDID(did);
+    if (!parsed) {
+      return DIDResolver.failure('invalidDid');
+    }
+
+    if (parsed.method === 'key') {
+      try {
+        return {
+          didDocument: await resolveDidKey(did),
+          didResolutionMetadata: { contentType: 'application/did+ld+json' },
+          didDocumentMetadata: {},
+        };
+      } catch (error) {
+        return DIDResolver.failure('invalidDid');
+      }
+    }
+
+    if (parsed.method !== 'chp') {
+      return DIDResolver.failure('methodNotSupported');
+    }
+
+    const baseDid = `did:chp:${parsed.id}`;
+    const record = await this.registry.get(baseDid);
+    if (!record || !(await DIDResolver.verifyRecord(baseDid, record, this.revocationRegistry))) {
+      return DIDResolver.failure('notFound');
+    }
+
+    const deactivated = this.revocationRegistry
+      ? await this.revocationRegistry.isCommitmentRevoked(record.commitment)
+      : false;
+
+    return {
+      didDocument: await createDIDDocument(record.commitment, record.services),
+      didResolutionMetadata: { contentType: 'application/did+ld+json' },
+      didDocumentMetadata: {
+        created: new Date(record.created).toISOString(),
+        updated: new Date(record.updated).toISOString(),
+        deactivated,
+      },
+    };
+  }
+
+  /**
+   * Verify a did:chp record
+   *
+   * The first commitment must carry the DID's identity ID, derived from its
+   * own key, each key rotation must be signed by both keys, by a key not yet
+   * revoked in `revocationRegistry`, and the current key must have signed
+   * the record.
+   */
+  static async verifyRecord(did: string, record: DIDRecord, revocationRegistry?: RevocationRegistry): Promise<boolean> {
+    try {
+      const { initialCommitment, commitment } = record;
+      if (getChpDID(initialCommitment) !== did || getChpDID(commitment) !== did ||
+          (initialCommitment.identityId !== undefined && initialCommitment.identityId !== initialCommitment.id)) {
+        return false;
+      }
+
+      if (!(await ConstitutionalIdentityVerifier.verify(initialCommitment)) ||
+          !(await ConstitutionalIdentityVerifier.verifySuccessionChain(
+            initialCommitment,
+            record.successionRecords,
+            commitment,
+            revocationRegistry
+          ))) {
+        return false;
+      }
+
+      return await verifySignature(
+        DIDResolver.getRecordPayload(did, record),
+        record.signature,
+        commitment.publicKey,
+        commitment.signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID
+      );
+    } catch (error) {
+      console.error('Error verifying DID record:', error);
+      return false;
+    }
+  }
+
+  /**
+   * The canonical bytes the current key signs to publish a record
+   */
+  private static getRecordPayload(did: string, record: Omit<DIDRecord, 'signature'>): string {
+    return canonicalize({
+      did,
+      commitmentId: record.commitment.id,
+      services: record.services,
+      updated: record.updated,
+    });
+  }
+
+  private static failure(error: 'invalidDid' | 'notFound' | 'methodNotSupported'): DIDResolutionResult {
+    return {
+      didDocument: null,
+      didResolutionMetadata: { error },
+      didDocumentMetadata: {},
+    };
+  }
+}
@@ -4,12 +4,21 @@
  * Manages multi-step verification process between constitutional agents
  */
 
-import { ConstitutionalCommitment } from '../types/constitutional';
+import { ConstitutionalCommitment, ConstitutionAmendment, ConstitutionVersion } from '../types/constitutional';
+import { QuorumPolicy } from '../types/crypto';
 // Import types for handshake evidence and verification
 import { TrustLevel } from '../types/trust';
-import { ConstitutionalIdentity } from './constitutional-identity';
+import { ConsistencyProof, SelectiveDisclosureProof, BehavioralAttestation } from '../types/attestation';
+import { ConstitutionalIdentity, ConstitutionalIdentityVerifier } from './constitutional-identity';
 import { BehavioralAttestationChain } from './behavioral-attestation-chain';
 import { TrustGraphProtocol } from './trust-graph-protocol';
+import { DEFAULT_SIGNATURE_SUITE_ID, getSupportedSignatureSuites, negotiateSignatureSuite } from '../utils/signature-suites';
+import { verifyMerkleConsistencyProof, generateNonce, generateHash, verifySignature } from '../utils/crypto';
+import { canonicalize } from '../utils/canonical-json';
+import { verifySelectiveDisclosure } from '../utils/selective-disclosure';
+import { isCommitmentExpired } from '../utils/validation';
+import { getSharedConstitutionVersion, verifyConstitutionAmendment } from '../utils/constitution';
+import { FREEDOM_PRESERVING_FIVE } from '../constitutions/freedom-preserving-five';
 
 /**
  * Handshake sequence states
@@ -18,6 +27,7 @@ export enum HandshakeState {
   INITIATED = 'initiated',
   COMMITMENT_EXCHANGE = 'commitment_exchange',
   ATTESTATION_REQUEST = 'attestation_request',
+  CHALLENGE_RESPONSE = 'challenge_response',
   ATTESTATION_VERIFICATION = 'attestation_verification',
   TRUST_VERIFICATION = 'trust_verification',
   HANDSHAKE_COMPLETE = 'handshake_complete',
@@ -34,6 +44,8 @@ export interface HandshakeResult {
   evidence: HandshakeEvidence[];
   timestamp: number;
   sessionId: string;
+  /** Latest constitution version both parties' commitments satisfy, when they share one */
+  sharedConstitutionVersion?: ConstitutionVersion;
   errors?: string[];
 }
 
@@ -59,6 +71,37 @@ export interface HandshakeSession {
   lastUpdate: number;
   evidence: HandshakeEvidence[];
   result?: HandshakeResult;
+  /** Signature suites the initiator accepts, in preference order */
+  offeredSignatureSuites: string[];
+  /** Suite both parties accept, set once the responder has negotiated */
+  signatureSuite?: string;
+  /** Random challenge issued by the initiator; the responder's proof of key possession is bound to it */
+  initiatorChallenge: string;
+  /** Random challenge issued by the responder */
+  responderChallenge?: string;
+  /** Each party's signature over the transcript hash, answering the other's challenge */
+  transcriptSignatures: { initiator?: string; responder?: string };
+}
+
+/**
+ * Everything a handshake's transcript signatures bind together
+ */
+export interface HandshakeTranscript {
+  sessionId: string;
+  /** When the initiator issued its challenge */
+  startTime: number;
+  initiator: { agentId: string; commitmentId: string; keyFingerprint?: string };
+  responder: { agentId: string; commitmentId: string; keyFingerprint?: string };
+  initiatorChallenge: string;
+  responderChallenge: string;
+  signatureSuite: string;
+}
+
+/**
+ * Hash of a handshake transcript, which both parties sign
+ */
+export function getHandshakeTranscriptHash(transcript: HandshakeTranscript): string {
+  return generateHash(canonicalize(transcript));
 }
 
 /**
@@ -66,11 +109,66 @@ export interface HandshakeSession {
  */
 export class ConstitutionalHandshakeSequence {
   private activeSessions: Map<string, HandshakeSession> = new Map();
+  /** Initiator identities of sessions still waiting on the initiator's challenge response */
+  private initiatorIdentities: Map<string, ConstitutionalIdentity> = new Map();
   private trustGraph: TrustGraphProtocol;
   private maxHandshakeTime: number = 300000; // 5 minutes
-
-  constructor(trustGraph: TrustGraphProtocol) {
+  private acceptedSignatureSuites: string[];
+  private amendmentPolicy?: QuorumPolicy;
+  private amendments: ConstitutionAmendment[] = [];
+  /** Keys of the laws attested actions may relate to */
+  private recognizedLaws: string[] = FREEDOM_PRESERVING_FIVE.precedence;
+  /** Whether a peer that presents no proof of key possession fails the handshake */
+  private requireKeyPossessionProof: boolean = false;
+
+  constructor(trustGraph: TrustGraphProtocol, acceptedSignatureSuites: string[] = getSupportedSignatureSuites()) {
     this.trustGraph = trustGraph;
+    this.acceptedSignatureSuites = acceptedSignatureSuites;
+  }
+
+  /**
+   * Set the keys of the laws a peer's attested actions may relate to
+   * (the Freedom-Preserving Five by default)
+   */
+  setRecognizedLaws(lawKeys: string[]): void {
+    this.recognizedLaws = [...lawKeys];
+  }
+
+  /**
+   * Fail handshakes with peers that present no proof of possession of their
+   * committed key
+   *
+   * Off by default, since signers such as `ChildProcessKeyProvider` cannot
+   * produce proofs; a missing proof is then reported in the peer
+   * verification evidence and lowers its confidence.
+   */
+  setRequireKeyPossessionProof(required: boolean): void {
+    this.requireKeyPossessionProof = required;
+  }
+
+  /**
+   * Count a commitment's declared compatibility with an earlier
+   * constitution version only when amendments approved by `policy`, the
+   * constitution maintainers' quorum, back it
+   *
+   * Replaces any amendments added under a previous policy.
+   */
+  setAmendmentPolicy(policy: QuorumPolicy): void {
+    this.amendmentPolicy = policy;
+    this.amendments = [];
+  }
+
+  /**
+   * Add an amendment approved under the amendment policy
+   *
+   * Returns false if no policy is set or the amendment does not verify.
+   */
+  async addConstitutionAmendment(amendment: ConstitutionAmendment): Promise<boolean> {
+    if (!this.amendmentPolicy || !(await verifyConstitutionAmendment(amendment, this.amendmentPolicy))) {
+      return false;
+    }
+    this.amendments.push(amendment);
+    return true;
   }
 
   /**
@@ -80,10 +178,15 @@ export class ConstitutionalHandshakeSequence {
     initiatorId: string,
     responderId: string,
     initiatorIdentity: ConstitutionalIdentity,
-    initiatorBAC: BehavioralAttestationChain
+    initiatorBAC: BehavioralAttestationChain,
+    acceptedSignatureSuites: string[] = this.acceptedSignatureSuites
   ): Promise<HandshakeSession> {
     const sessionId = this.generateSessionId(initiatorId, responderId);
     
+    // Offer our own suite first so the responder knows how we sign
+    const ownSuite = initiatorIdentity.getCommitment().signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID;
+    const offeredSignatureSuites = [ownSuite, ...acceptedSignatureSuites.filter(id => id !== ownSuite)];
+
     const session: HandshakeSession = {
       sessionId,
       initiator: initiatorId,
@@ -92,9 +195,13 @@ export class ConstitutionalHandshakeSequence {
       startTime: Date.now(),
       lastUpdate: Date.now(),
       evidence: [],
+      offeredSignatureSuites,
+      initiatorChallenge: generateNonce(),
+      transcriptSignatures: {},
     };
 
     this.activeSessions.set(sessionId, session);
+    this.initiatorIdentities.set(sessionId, initiatorIdentity);
 
     // Start the handshake process
     await this.processHandshakeStep(session, initiatorIdentity, initiatorBAC);
@@ -108,7 +215,8 @@ export class ConstitutionalHandshakeSequence {
   async respondToHandshake(
     sessionId: string,
     responderIdentity: ConstitutionalIdentity,
-    responderBAC: BehavioralAttestationChain
+    responderBAC: BehavioralAttestationChain,
+    acceptedSignatureSuites: string[] = this.acceptedSignatureSuites
   ): Promise<HandshakeResult | null> {
     const session = this.activeSessions.get(sessionId);
     if (!session) {
@@ -119,12 +227,46 @@ export class ConstitutionalHandshakeSequence {
       return null; // Invalid state
     }
 
-    // Continue the handshake process
-    await this.processHandshakeStep(session, responderIdentity, responderBAC);
+    // Both sides must be able to verify each other's signatures
+    const responderSuite = responderIdentity.getCommitment().signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID;
+    const signatureSuite = negotiateSignatureSuite(session.offeredSignatureSuites, acceptedSignatureSuites);
+    if (!signatureSuite ||
+        !acceptedSignatureSuites.includes(session.offeredSignatureSuites[0]) ||
+        !session.offeredSignatureSuites.includes(responderSuite)) {
+      session.state = HandshakeState.HANDSHAKE_FAILED;
+      session.lastUpdate = Date.now();
+      session.result = {
+        success: false,
+        trustLevel: TrustLevel.UNKNOWN,
+        confidence: 0,
+        evidence: session.evidence,
+        timestamp: Date.now(),
+        sessionId,
+        errors: ['No mutually accepted signature suite'],
+      };
+      this.initiatorIdentities.delete(sessionId);
+      return session.result;
+    }
+    session.signatureSuite = signatureSuite;
+    session.responderChallenge = generateNonce();
+
+    // Run the remaining steps until the handshake completes or fails
+    while (!this.isSessionFinished(session)) {
+      await this.processHandshakeStep(session, responderIdentity, responderBAC);
+    }
+    this.initiatorIdentities.delete(sessionId);
 
     return session.result || null;
   }
 
+  /**
+   * Whether a session has reached a terminal state
+   */
+  private isSessionFinished(session: HandshakeSession): boolean {
+    return session.state === HandshakeState.HANDSHAKE_COMPLETE ||
+           session.state === HandshakeState.HANDSHAKE_FAILED;
+  }
+
   /**
    * Process a handshake step
    */
@@ -140,10 +282,14 @@ export class ConstitutionalHandshakeSequence {
           break;
         
         case HandshakeState.COMMITMENT_EXCHANGE:
-          await this.processAttestationRequest(session, bac);
+          await this.processAttestationRequest(session, identity, bac);
           break;
         
         case HandshakeState.ATTESTATION_REQUEST:
+          await this.processChallengeResponse(session);
+          break;
+        
+        case HandshakeState.CHALLENGE_RESPONSE:
           await this.processAttestationVerification(session, bac);
           break;
         
@@ -201,30 +347,74 @@ export class ConstitutionalHandshakeSequence {
    */
   private async processAttestationRequest(
     session: HandshakeSession,
+    identity: ConstitutionalIdentity,
     bac: BehavioralAttestationChain
   ): Promise<void> {
-    // Get recent behavioral attestations
+    // Disclose only the law and time of the last 5 attestations; the rest
+    // of each action stays behind its salted digests
     const chain = bac.getChain();
-    const recentAttestations = chain.slice(-5); // Last 5 attestations
+    const recentDisclosures = chain
+      .map((_, index) => index)
+      .slice(-5)
+      .map(index => bac.createDisclosure(index, ['relatedLaw', 'timestamp']))
+      .filter((disclosure): disclosure is SelectiveDisclosureProof => disclosure !== null);
+
+    // If we have seen this agent's chain before, ask it to prove the current
+    // chain extends that head rather than rewriting it
+    const cachedHead = this.trustGraph.getChainHead(session.responder);
+    const consistencyProof = cachedHead ? bac.createConsistencyProof(cachedHead.treeSize) : undefined;
+
+    // Prove control of the committed key for this session; signers that
+    // cannot produce proofs simply omit it
+    let possessionProof: BehavioralAttestation | undefined;
+    try {
+      possessionProof = await bac.createPossessionProof(session.initiatorChallenge);
+    } catch (error) {
+      possessionProof = undefined;
+    }
+
+    // Answer the initiator's challenge by signing the transcript
+    const initiatorCommitment = session.evidence.find(e => e.type === 'constitutional_commitment')?.data;
+    const transcript = this.getTranscript(session, initiatorCommitment, identity.getCommitment());
+    session.transcriptSignatures.responder = await identity.getKeyProvider().sign(getHandshakeTranscriptHash(transcript));
 
     const evidence: HandshakeEvidence = {
       type: 'behavioral_attestation',
       data: {
-        attestationCount: recentAttestations.length,
+        attestationCount: recentDisclosures.length,
         merkleRoot: bac.getMerkleRoot(),
+        treeSize: chain.length,
+        consistencyProof,
         chainIntegrity: bac.verifyChainIntegrity(),
-        recentActions: recentAttestations.map(entry => ({
-          actionType: entry.attestation.data.actionType,
-          relatedLaw: entry.attestation.data.relatedLaw,
-          timestamp: entry.attestation.timestamp,
-        })),
+        recentDisclosures,
+        // Commitment whose key signed the disclosures
+        attesterCommitment: identity.getCommitment(),
+        possessionProof,
       },
       confidence: 0.9, // High confidence in our own attestations
       timestamp: Date.now(),
     };
 
     session.evidence.push(evidence);
-    session.state = HandshakeState.ATTESTATION_VERIFICATION;
+    session.state = HandshakeState.ATTESTATION_REQUEST;
+  }
+
+  /**
+   * Process challenge response step
+   *
+   * The initiator answers the responder's challenge by signing the
+   * transcript in turn.
+   */
+  private async processChallengeResponse(session: HandshakeSession): Promise<void> {
+    const initiatorIdentity = this.initiatorIdentities.get(session.sessionId);
+    const responderCommitment = session.evidence.find(e => e.type === 'behavioral_attestation')?.data.attesterCommitment;
+    if (!initiatorIdentity || !responderCommitment) {
+      throw new Error('Initiator cannot answer the responder\'s challenge');
+    }
+
+    const transcript = this.getTranscript(session, initiatorIdentity.getCommitment(), responderCommitment);
+    session.transcriptSignatures.initiator = await initiatorIdentity.getKeyProvider().sign(getHandshakeTranscriptHash(transcript));
+    session.state = HandshakeState.CHALLENGE_RESPONSE;
   }
 
   /**
@@ -232,7 +422,7 @@ export class ConstitutionalHandshakeSequence {
    */
   private async processAttestationVerification(
     session: HandshakeSession,
-    _bac: BehavioralAttestationChain
+    bac: BehavioralAttestationChain
   ): Promise<void> {
     // Verify the other party's attestations
     const commitmentEvidence = session.evidence.find(e => e.type === 'constitutional_commitment');
@@ -242,27 +432,62 @@ export class ConstitutionalHandshakeSequence {
       throw new Error('Missing required evidence for verification');
     }
 
-    // Verify constitutional commitment
+    // A revoked commitment or key ends the handshake outright
     const commitment = commitmentEvidence.data as ConstitutionalCommitment;
+    if (await this.trustGraph.getRevocationRegistry().isCommitmentRevoked(commitment)) {
+      throw new Error('Constitutional commitment has been revoked');
+    }
+
+    // Evidence replayed from another session, or answered too late, fails
+    // the transcript check
+    if (!(await this.verifyTranscript(session, commitment, attestationEvidence.data.attesterCommitment))) {
+      throw new Error('Handshake transcript is stale or does not match this session');
+    }
+
+    // A commitment that does not verify ends the handshake outright
     const commitmentValid = await this.verifyConstitutionalCommitment(commitment);
+    if (!commitmentValid) {
+      throw new Error('Constitutional commitment failed verification');
+    }
 
-    // Verify behavioral attestations
+    // A chain that does not extend the head we saw before has been
+    // rewritten, which ends the handshake outright
     const attestationData = attestationEvidence.data;
-    const attestationValid = await this.verifyBehavioralAttestations(attestationData);
+    const historyConsistent = this.verifyChainHistory(session.responder, attestationData);
+    if (!historyConsistent) {
+      throw new Error('Behavioral attestation chain does not extend the previously seen chain head');
+    }
+
+    // A missing proof of possession is reported, never counted as verified
+    const keyPossessionVerified = await this.verifyKeyPossession(session, attestationData, bac);
+    if (keyPossessionVerified === undefined && this.requireKeyPossessionProof) {
+      throw new Error('Peer did not prove possession of its committed key');
+    }
+
+    // Verify behavioral attestations
+    const attestationValid = keyPossessionVerified !== false &&
+      await this.verifyBehavioralAttestations(attestationData);
+
+    if (attestationValid) {
+      this.trustGraph.recordChainHead(session.responder, attestationData.merkleRoot, attestationData.treeSize);
+    }
 
     const evidence: HandshakeEvidence = {
       type: 'peer_verification',
       data: {
         commitmentValid,
         attestationValid,
+        historyConsistent,
+        keyPossessionVerified: keyPossessionVerified === true,
+        keyPossessionProofPresented: keyPossessionVerified !== undefined,
         verificationTimestamp: Date.now(),
       },
-      confidence: commitmentValid && attestationValid ? 0.8 : 0.3,
+      confidence: !attestationValid ? 0.3 : keyPossessionVerified ? 0.8 : 0.6,
       timestamp: Date.now(),
     };
 
     session.evidence.push(evidence);
-    session.state = HandshakeState.TRUST_VERIFICATION;
+    session.state = HandshakeState.ATTESTATION_VERIFICATION;
   }
 
   /**
@@ -302,7 +527,7 @@ export class ConstitutionalHandshakeSequence {
     };
 
     session.evidence.push(evidence);
-    session.state = HandshakeState.HANDSHAKE_COMPLETE;
+    session.state = HandshakeState.TRUST_VERIFICATION;
   }
 
   /**
@@ -314,6 +539,16 @@ export class ConstitutionalHandshakeSequence {
     const confidence = this.calculateFinalConfidence(session);
     const success = confidence > 0.5; // Threshold for successful handshake
 
+    const initiatorCommitment = session.evidence.find(e => e.type === 'constitutional_commitment')?.data;
+    const responderCommitment = session.evidence.find(e => e.type === 'behavioral_attestation')?.data.attesterCommitment;
+    const sharedConstitutionVersion = initiatorCommitment && responderCommitment
+      ? getSharedConstitutionVersion(
+          initiatorCommitment,
+          responderCommitment,
+          this.amendmentPolicy ? this.amendments : undefined
+        )
+      : null;
+
     session.result = {
       success,
       trustLevel,
@@ -321,6 +556,7 @@ export class ConstitutionalHandshakeSequence {
       evidence: session.evidence,
       timestamp: Date.now(),
       sessionId: session.sessionId,
+      sharedConstitutionVersion: sharedConstitutionVersion ?? undefined,
     };
 
     session.state = success ? HandshakeState.HANDSHAKE_COMPLETE : HandshakeState.HANDSHAKE_FAILED;
@@ -425,23 +661,139 @@ export class ConstitutionalHandshakeSequence {
         return false;
       }
 
-      // Check timestamp (not too old)
-      const oneYearAgo = Date.now() - (365 * 24 * 60 * 60 * 1000);
-      if (commitment.timestamp < oneYearAgo) {
+      // Check the commitment is within its validity window
+      if (isCommitmentExpired(commitment)) {
         return false;
       }
 
-      // In a real implementation, this would verify the cryptographic signature
-      // For now, we'll do basic validation
-      return commitment.signature.length > 0;
+      return await ConstitutionalIdentityVerifier.verify(commitment);
     } catch (error) {
       console.error('Error verifying constitutional commitment:', error);
       return false;
     }
   }
 
+  /**
+   * Build the transcript of a session between two committed identities
+   */
+  private getTranscript(
+    session: HandshakeSession,
+    initiatorCommitment: ConstitutionalCommitment,
+    responderCommitment: ConstitutionalCommitment
+  ): HandshakeTranscript {
+    if (!initiatorCommitment || !responderCommitment || !session.responderChallenge || !session.signatureSuite) {
+      throw new Error('Handshake transcript is incomplete');
+    }
+
+    return {
+      sessionId: session.sessionId,
+      startTime: session.startTime,
+      initiator: {
+        agentId: session.initiator,
+        commitmentId: initiatorCommitment.id,
+        keyFingerprint: initiatorCommitment.keyFingerprint,
+      },
+      responder: {
+        agentId: session.responder,
+        commitmentId: responderCommitment.id,
+        keyFingerprint: responderCommitment.keyFingerprint,
+      },
+      initiatorChallenge: session.initiatorChallenge,
+      responderChallenge: session.responderChallenge,
+      signatureSuite: session.signatureSuite,
+    };
+  }
+
+  /**
+   * Check both parties signed this session's transcript with their
+   * committed keys, within the handshake time limit
+   */
+  private async verifyTranscript(
+    session: HandshakeSession,
+    initiatorCommitment: ConstitutionalCommitment,
+    responderCommitment: ConstitutionalCommitment | undefined
+  ): Promise<boolean> {
+    try {
+      const { initiator, responder } = session.transcriptSignatures;
+      if (!responderCommitment || !initiator || !responder || Date.now() - session.startTime > this.maxHandshakeTime) {
+        return false;
+      }
+
+      const transcriptHash = getHandshakeTranscriptHash(this.getTranscript(session, initiatorCommitment, responderCommitment));
+      return await verifySignature(
+        transcriptHash,
+        initiator,
+        initiatorCommitment.publicKey,
+        initiatorCommitment.signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID
+      ) && await verifySignature(
+        transcriptHash,
+        responder,
+        responderCommitment.publicKey,
+        responderCommitment.signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID
+      );
+    } catch (error) {
+      console.error('Error verifying handshake transcript:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check that an agent's chain extends the head we cached for it
+   *
+   * Agents we have not seen before have no history to check.
+   */
+  private verifyChainHistory(agentId: string, attestationData: any): boolean {
+    const cachedHead = this.trustGraph.getChainHead(agentId);
+    if (!cachedHead) {
+      return true;
+    }
+
+    const proof: ConsistencyProof | undefined = attestationData.consistencyProof;
+    if (!proof ||
+        proof.oldSize !== cachedHead.treeSize ||
+        proof.oldRoot !== cachedHead.merkleRoot ||
+        proof.newSize !== attestationData.treeSize ||
+        proof.newRoot !== attestationData.merkleRoot) {
+      return false;
+    }
+
+    return verifyMerkleConsistencyProof(proof);
+  }
+
+  /**
+   * Check the attester's proof of possession against its commitment and
+   * this session's nonce
+   *
+   * Returns undefined when no proof was presented.
+   */
+  private async verifyKeyPossession(
+    session: HandshakeSession,
+    attestationData: any,
+    bac: BehavioralAttestationChain
+  ): Promise<boolean | undefined> {
+    const proof: BehavioralAttestation | undefined = attestationData.possessionProof;
+    if (!proof) {
+      return undefined;
+    }
+
+    const commitment = attestationData.attesterCommitment as ConstitutionalCommitment | undefined;
+    if (!commitment || proof.type !== 'zero_knowledge') {
+      return false;
+    }
+
+    const verification = await bac.verifyAttestation(proof, {
+      publicKey: commitment.publicKey,
+      nonce: session.initiatorChallenge,
+    });
+    return verification.isValid;
+  }
+
   /**
    * Verify behavioral attestations
+   *
+   * The attester's commitment must verify and not have expired, and each
+   * recent disclosure must be signed by its key and reveal a constitutional
+   * law and a recent timestamp.
    */
   private async verifyBehavioralAttestations(attestationData: any): Promise<boolean> {
     try {
@@ -457,20 +809,33 @@ export class ConstitutionalHandshakeSequence {
         return false;
       }
 
+      const attesterCommitment = attestationData.attesterCommitment as ConstitutionalCommitment | undefined;
+      if (!attesterCommitment || isCommitmentExpired(attesterCommitment) ||
+          !(await ConstitutionalIdentityVerifier.verify(attesterCommitment, this.trustGraph.getRevocationRegistry()))) {
+        return false;
+      }
+
       // Check for recent constitutional actions
-      const recentActions = attestationData.recentActions || [];
-      if (recentActions.length === 0) {
+      const recentDisclosures: SelectiveDisclosureProof[] = attestationData.recentDisclosures || [];
+      if (recentDisclosures.length === 0) {
         return false; // No recent actions
       }
 
       // Verify all actions are constitutional
-      const validLaws = ['law1', 'law2', 'law3', 'law4', 'law5'];
-      const allActionsValid = recentActions.every((action: any) => 
-        validLaws.includes(action.relatedLaw) && 
-        action.timestamp > (Date.now() - 30 * 24 * 60 * 60 * 1000) // Last 30 days
-      );
+      for (const disclosure of recentDisclosures) {
+        const action = await verifySelectiveDisclosure(
+          disclosure,
+          attesterCommitment.publicKey,
+          attesterCommitment.signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID
+        );
+        if (!action ||
+            !this.recognizedLaws.includes(action.relatedLaw as string) ||
+            !((action.timestamp as number) > (Date.now() - 30 * 24 * 60 * 60 * 1000))) { // Last 30 days
+          return false;
+        }
+      }
 
-      return allActionsValid;
+      return true;
     } catch (error) {
       console.error('Error verifying behavioral attestations:', error);
       return false;
@@ -528,6 +893,7 @@ export class ConstitutionalHandshakeSequence {
         };
       }
       this.activeSessions.delete(sessionId);
+      this.initiatorIdentities.delete(sessionId);
     });
   }
 
@@ -574,7 +940,7 @@ export class ConstitutionalHandshakeSequenceFactory {
   /**
    * Create a new CHS instance
    */
-  static create(trustGraph: TrustGraphProtocol): ConstitutionalHandshakeSequence {
-    return new ConstitutionalHandshakeSequence(trustGraph);
+  static create(trustGraph: TrustGraphProtocol, acceptedSignatureSuites?: string[]): ConstitutionalHandshakeSequence {
+    return new ConstitutionalHandshakeSequence(trustGraph, acceptedSignatureSuites);
   }
 }
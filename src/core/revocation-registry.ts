@@ -0,0 +1,159 @@
+/**
+ * Revocation Registry Implementation
+ * 
+ * Tracks signed revocations of keys and constitutional commitments
+ */
+
+import { RevocationStatement, RevocationStore } from '../types/revocation';
+import { ConstitutionalCommitment } from '../types/constitutional';
+import { generateKeyFingerprint, verifySignature } from '../utils/crypto';
+import { canonicalize } from '../utils/canonical-json';
+
+/**
+ * In-memory revocation store
+ */
+export class InMemoryRevocationStore implements RevocationStore {
+  private statements: Map<string, RevocationStatement[]> = new Map();
+
+  async put(statement: RevocationStatement): Promise<void> {
+    const existing = this.statements.get(statement.subject) || [];
+    if (!existing.some(stored => stored.signature === statement.signature)) {
+      this.statements.set(statement.subject, [...existing, statement]);
+    }
+  }
+
+  async find(subject: string): Promise<RevocationStatement[]> {
+    return [...(this.statements.get(subject) || [])];
+  }
+
+  async list(): Promise<RevocationStatement[]> {
+    return Array.from(this.statements.values()).flat();
+  }
+}
+
+/**
+ * Revocation Registry
+ * 
+ * Verifies revocation statements before storing them and answers whether a
+ * key or commitment has been revoked
+ */
+export class RevocationRegistry {
+  private store: RevocationStore;
+
+  constructor(store: RevocationStore = new InMemoryRevocationStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Record a revocation statement
+   *
+   * Returns false, without storing anything, if the statement is not validly
+   * signed by the key it names.
+   */
+  async revoke(statement: RevocationStatement): Promise<boolean> {
+    if (!(await RevocationRegistry.verifyStatement(statement))) {
+      return false;
+    }
+
+    await this.store.put(statement);
+    return true;
+  }
+
+  /**
+   * Check whether a key has been revoked
+   *
+   * When `at` is given, only revocations issued at or before that time
+   * count, so signatures the key made earlier still stand. Compromise
+   * revocations count whatever `at` is, since whoever took the key can
+   * sign with any time they like.
+   */
+  async isKeyRevoked(keyFingerprint: string, at?: number): Promise<boolean> {
+    const statements = await this.store.find(keyFingerprint);
+    return statements.some(statement =>
+      statement.type === 'key' &&
+      (at === undefined || statement.reason === 'key_compromise' || statement.revokedAt <= at)
+    );
+  }
+
+  /**
+   * Check whether a commitment, or the key it was signed with, has been revoked
+   *
+   * A commitment revocation only counts when it was signed by the
+   * commitment's own key.
+   */
+  async isCommitmentRevoked(commitment: ConstitutionalCommitment): Promise<boolean> {
+    const keyFingerprint = generateKeyFingerprint(commitment.publicKey);
+    if (await this.isKeyRevoked(keyFingerprint)) {
+      return true;
+    }
+
+    const statements = await this.store.find(commitment.id);
+    return statements.some(statement =>
+      statement.type === 'commitment' && statement.keyFingerprint === keyFingerprint
+    );
+  }
+
+  /**
+   * Get every recorded revocation
+   */
+  async getRevocations(): Promise<RevocationStatement[]> {
+    return await this.store.list();
+  }
+
+  /**
+   * Verify a revocation statement's signature and key binding
+   */
+  static async verifyStatement(statement: RevocationStatement): Promise<boolean> {
+    try {
+      if (statement.type !== 'key' && statement.type !== 'commitment') {
+        return false;
+      }
+
+      if (statement.keyFingerprint !== generateKeyFingerprint(statement.publicKey)) {
+        return false;
+      }
+
+      // A key can only revoke itself
+      if (statement.type === 'key' && statement.subject !== statement.keyFingerprint) {
+        return false;
+      }
+
+      return await verifySignature(
+        canonicalize(RevocationRegistry.statementData(statement)),
+        statement.signature,
+        statement.publicKey,
+        statement.signatureSuite
+      );
+    } catch (error) {
+      console.error('Error verifying revocation statement:', error);
+      return false;
+    }
+  }
+
+  /**
+   * The signed portion of a revocation statement
+   */
+  private static statementData(statement: Omit<RevocationStatement, 'signature'>): Omit<RevocationStatement, 'signature'> {
+    return {
+      type: statement.type,
+      subject: statement.subject,
+      keyFingerprint: statement.keyFingerprint,
+      publicKey: statement.publicKey,
+      signatureSuite: statement.signatureSuite,
+      reason: statement.reason,
+      revokedAt: statement.revokedAt,
+    };
+  }
+}
+
+/**
+ * Revocation Registry Factory
+ */
+export class RevocationRegistryFactory {
+  /**
+   * Create a new registry, optionally over a custom storage backend
+   */
+  static create(store?: RevocationStore): RevocationRegistry {
+    return new RevocationRegistry(store);
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Timestamp Authority Implementation
+ *
+ * Issues RFC 3161-style timestamp tokens, in process or over HTTP
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { TimestampAuthority, TimestampRequest, TimestampToken } from '../types/timestamp';
+import { KeyProvider, PublicKeyInfo, Signer } from '../types/crypto';
+import { getHashAlgorithm } from '../utils/crypto';
+import { toKeyProvider } from '../utils/key-provider';
+import { getTimestampTokenPayload } from '../utils/timestamp';
+import { DEFAULT_SIGNATURE_SUITE_ID, getSignatureSuite } from '../utils/signature-suites';
+
+/**
+ * Largest timestamp request body the HTTP server accepts, in bytes
+ */
+const MAX_REQUEST_SIZE = 16 * 1024;
+
+/**
+ * Timestamp authority running in the current process
+ *
+ * Serial numbers and token times never decrease, even if the clock steps
+ * back.
+ */
+export class LocalTimestampAuthority implements TimestampAuthority {
+  private signer: KeyProvider;
+  private policy: string;
+  private accuracy: number;
+  private clock: () => number;
+  private lastSerialNumber: number = 0;
+  private lastGenTime: number = 0;
+
+  constructor(
+    signer: CryptoKey | CryptoKeyPair | Signer,
+    options: { policy?: string; accuracy?: number; clock?: () => number } = {}
+  ) {
+    this.signer = toKeyProvider(signer);
+    this.policy = options.policy ?? 'chp-tsa-default';
+    this.accuracy = options.accuracy ?? 1000;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  /**
+   * Issue a token for a request
+   */
+  async timestamp(request: TimestampRequest): Promise<TimestampToken> {
+    const algorithm = getHashAlgorithm(request.messageImprint);
+    if (algorithm === null || algorithm === 'legacy') {
+      throw new Error('Unsupported message imprint');
+    }
+
+    const serialNumber = ++this.lastSerialNumber;
+    const genTime = Math.max(this.clock(), this.lastGenTime);
+    this.lastGenTime = genTime;
+
+    const { spki, fingerprint } = await this.signer.getPublicKey();
+    const tstInfo = {
+      version: 1 as const,
+      policy: this.policy,
+      messageImprint: request.messageImprint,
+      serialNumber,
+      genTime,
+      accuracy: this.accuracy,
+      nonce: request.nonce,
+      publicKey: spki,
+      keyFingerprint: fingerprint,
+      signatureSuite: this.signer.algorithm,
+    };
+
+    return {
+      ...tstInfo,
+      signature: await this.signer.sign(getTimestampTokenPayload(tstInfo)),
+    };
+  }
+
+  /**
+   * Get the TSA public key, whose fingerprint verifiers should trust
+   */
+  async getPublicKey(): Promise<PublicKeyInfo> {
+    return await this.signer.getPublicKey();
+  }
+
+  /**
+   * Create a timestamp authority with a new key
+   */
+  static async generate(
+    signatureSuite: string = DEFAULT_SIGNATURE_SUITE_ID,
+    options: { policy?: string; accuracy?: number; clock?: () => number } = {}
+  ): Promise<LocalTimestampAuthority> {
+    return new LocalTimestampAuthority(await getSignatureSuite(signatureSuite).generateKeyPair(), options);
+  }
+}
+
+/**
+ * Client for a timestamp authority served over HTTP
+ *
+ * Posts the request as JSON and expects the token back as JSON.
+ */
+export class HttpTimestampAuthority implements TimestampAuthority {
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async timestamp(request: TimestampRequest): Promise<TimestampToken> {
+    let token: TimestampToken;
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        throw new Error(`Timestamp authority responded with status ${response.status}`);
+      }
+      token = await response.json();
+    } catch (error) {
+      console.error('Error requesting timestamp token:', error);
+      throw new Error('Failed to obtain timestamp token');
+    }
+
+    if (token?.messageImprint !== request.messageImprint || token.nonce !== request.nonce) {
+      throw new Error('Timestamp token does not match the request');
+    }
+    return token;
+  }
+}
+
+/**
+ * Serve a timestamp authority over HTTP
+ *
+ * Accepts `POST` requests with a JSON `TimestampRequest` body on any path.
+ * Listens on localhost and a free port unless told otherwise.
+ */
+export async function serveTimestampAuthority(
+  authority: TimestampAuthority,
+  options: { port?: number; host?: string } = {}
+): Promise<{ url: string; close: () => Promise<void> }> {
+  const host = options.host ?? '127.0.0.1';
+  const server = createServer((req, res) => {
+    handleTimestampRequest(authority, req, res).catch(error => {
+      console.error('Error serving timestamp request:', error);
+      sendJson(res, 500, { error: 'Internal error' });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://${host}:${port}/`,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+    }),
+  };
+}
+
+async function handleTimestampRequest(
+  authority: TimestampAuthority,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_REQUEST_SIZE) {
+      sendJson(res, 413, { error: 'Request too large' });
+      return;
+    }
+  }
+
+  let request: TimestampRequest;
+  try {
+    request = JSON.parse(body);
+  } catch (error) {
+    sendJson(res, 400, { error: 'Malformed request' });
+    return;
+  }
+  if (typeof request?.messageImprint !== 'string' ||
+      (request.nonce !== undefined && typeof request.nonce !== 'string')) {
+    sendJson(res, 400, { error: 'Malformed request' });
+    return;
+  }
+
+  let token: TimestampToken;
+  try {
+    token = await authority.timestamp({ messageImprint: request.messageImprint, nonce: request.nonce });
+  } catch (error) {
+    sendJson(res, 400, { error: error instanceof Error ? error.message : 'Request rejected' });
+    return;
+  }
+  sendJson(res, 200, token);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
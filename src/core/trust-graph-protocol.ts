@@ -4,8 +4,11 @@
  * Manages distributed network of constitutional agents and reputation system
  */
 
-import { TrustRelationship, TrustNode, TrustLevel, TrustPropagation, TrustGraphStats, TrustUpdateEvent, ReputationMetrics } from '../types/trust';
-import { ConstitutionalCommitment } from '../types/constitutional';
+import { TrustRelationship, TrustNode, TrustLevel, TrustPropagation, TrustGraphStats, TrustUpdateEvent, ReputationMetrics, ChainHead } from '../types/trust';
+import { ConstitutionalCommitment, KeySuccessionRecord } from '../types/constitutional';
+import { RevocationStatement } from '../types/revocation';
+import { ConstitutionalIdentityVerifier } from './constitutional-identity';
+import { RevocationRegistry } from './revocation-registry';
 // Import utilities for trust graph operations
 
 /**
@@ -17,8 +20,11 @@ export class TrustGraphProtocol {
   private nodes: Map<string, TrustNode> = new Map();
   private relationships: Map<string, TrustRelationship> = new Map();
   private updateEvents: TrustUpdateEvent[] = [];
+  private chainHeads: Map<string, ChainHead> = new Map();
+  private revocationRegistry: RevocationRegistry;
 
-  constructor() {
+  constructor(revocationRegistry: RevocationRegistry = new RevocationRegistry()) {
+    this.revocationRegistry = revocationRegistry;
     this.initializeGraph();
   }
 
@@ -30,6 +36,7 @@ export class TrustGraphProtocol {
     this.nodes.clear();
     this.relationships.clear();
     this.updateEvents = [];
+    this.chainHeads.clear();
   }
 
   /**
@@ -38,11 +45,13 @@ export class TrustGraphProtocol {
   addAgent(
     agentId: string, 
     constitutionalId: string, 
-    _commitment: ConstitutionalCommitment
+    commitment: ConstitutionalCommitment
   ): TrustNode {
     const node: TrustNode = {
       id: agentId,
       constitutionalId,
+      keyFingerprint: commitment.keyFingerprint,
+      commitmentId: commitment.id,
       trustScore: 0.5, // Neutral starting score
       interactionCount: 0,
       lastActivity: Date.now(),
@@ -95,11 +104,111 @@ export class TrustGraphProtocol {
     });
 
     this.nodes.delete(agentId);
+    this.chainHeads.delete(agentId);
     this.logUpdateEvent('node_removed', [agentId], { agentId });
     
     return true;
   }
 
+  /**
+   * Move an agent to its successor key
+   *
+   * The succession record must be signed by both keys, start from the key we
+   * currently know for the agent and end at the key of `commitment`. A key
+   * revoked before it signed the record cannot hand over to a successor.
+   * Trust relationships and reputation are keyed by agent ID and carry over.
+   */
+  async applyKeySuccession(
+    agentId: string,
+    record: KeySuccessionRecord,
+    commitment: ConstitutionalCommitment
+  ): Promise<boolean> {
+    const node = this.nodes.get(agentId);
+    if (!node) {
+      return false;
+    }
+
+    if (record.identityId !== node.constitutionalId ||
+        (commitment.identityId ?? commitment.id) !== node.constitutionalId ||
+        (node.keyFingerprint !== undefined && record.previousKeyFingerprint !== node.keyFingerprint) ||
+        commitment.keyFingerprint !== record.nextKeyFingerprint) {
+      return false;
+    }
+
+    if (!(await ConstitutionalIdentityVerifier.verifySuccession(record, this.revocationRegistry)) ||
+        !(await ConstitutionalIdentityVerifier.verify(commitment, this.revocationRegistry))) {
+      return false;
+    }
+
+    node.keyFingerprint = record.nextKeyFingerprint;
+    node.commitmentId = commitment.id;
+    node.lastActivity = Date.now();
+    this.logUpdateEvent('key_rotated', [agentId], { record });
+
+    return true;
+  }
+
+  /**
+   * Move an agent to its renewed commitment
+   *
+   * `previous` must be the commitment we currently know for the agent and
+   * `renewed` must renew it under the same identity and key. Trust
+   * relationships and reputation carry over.
+   */
+  async applyCommitmentRenewal(
+    agentId: string,
+    previous: ConstitutionalCommitment,
+    renewed: ConstitutionalCommitment
+  ): Promise<boolean> {
+    const node = this.nodes.get(agentId);
+    if (!node) {
+      return false;
+    }
+
+    if ((previous.identityId ?? previous.id) !== node.constitutionalId ||
+        (node.commitmentId !== undefined && previous.id !== node.commitmentId)) {
+      return false;
+    }
+
+    if (!(await ConstitutionalIdentityVerifier.verifyRenewal(previous, renewed, this.revocationRegistry))) {
+      return false;
+    }
+
+    node.commitmentId = renewed.id;
+    node.lastActivity = Date.now();
+    this.logUpdateEvent('commitment_renewed', [agentId], { previousCommitmentId: previous.id, commitment: renewed });
+
+    return true;
+  }
+
+  /**
+   * Record a revocation and announce it as an update event
+   *
+   * The event lists the agents whose current key or commitment is affected
+   * so that subscribers can stop trusting them.
+   */
+  async recordRevocation(statement: RevocationStatement): Promise<boolean> {
+    if (!(await this.revocationRegistry.revoke(statement))) {
+      return false;
+    }
+
+    const affectedAgents = Array.from(this.nodes.values())
+      .filter(node => statement.type === 'commitment'
+        ? node.commitmentId === statement.subject && node.keyFingerprint === statement.keyFingerprint
+        : node.keyFingerprint === statement.subject)
+      .map(node => node.id);
+
+    this.logUpdateEvent('revocation', affectedAgents, { statement });
+    return true;
+  }
+
+  /**
+   * Get the registry that revocations are recorded in
+   */
+  getRevocationRegistry(): RevocationRegistry {
+    return this.revocationRegistry;
+  }
+
   /**
    * Establish a trust relationship between two agents
    */
@@ -315,6 +424,28 @@ export class TrustGraphProtocol {
     return true;
   }
 
+  /**
+   * Cache the latest verified behavioral chain head of an agent
+   *
+   * Later handshakes ask the agent to prove its chain still extends it.
+   */
+  recordChainHead(agentId: string, merkleRoot: string, treeSize: number): ChainHead {
+    const head: ChainHead = {
+      merkleRoot,
+      treeSize,
+      recordedAt: Date.now(),
+    };
+    this.chainHeads.set(agentId, head);
+    return head;
+  }
+
+  /**
+   * Get the cached behavioral chain head of an agent
+   */
+  getChainHead(agentId: string): ChainHead | null {
+    return this.chainHeads.get(agentId) || null;
+  }
+
   /**
    * Get agent node
    */
@@ -520,7 +651,7 @@ export class TrustGraphProtocol {
   }
 
   private logUpdateEvent(
-    type: 'new_relationship' | 'trust_change' | 'node_added' | 'node_removed',
+    type: 'new_relationship' | 'trust_change' | 'node_added' | 'node_removed' | 'key_rotated' | 'commitment_renewed' | 'revocation',
     agents: string[],
     data: any
   ): void {
@@ -548,8 +679,8 @@ export class TrustGraphProtocolFactory {
   /**
    * Create a new TGP instance
    */
-  static create(): TrustGraphProtocol {
-    return new TrustGraphProtocol();
+  static create(revocationRegistry?: RevocationRegistry): TrustGraphProtocol {
+    return new TrustGraphProtocol(revocationRegistry);
   }
 
   /**
@@ -0,0 +1,224 @@
+/**
+ * Verifiable Credentials Implementation
+ *
+ * Issues constitutional commitments and handshake results as W3C
+ * Verifiable Credentials in the VC-JWT encoding, and verifies them against
+ * the issuer's DID document
+ */
+
+import { ConstitutionalCommitment, ConstitutionalLaws, LoadedConstitution } from '../types/constitutional';
+import {
+  VerifiableCredential,
+  CommitmentCredentialSubject,
+  HandshakeCredentialSubject,
+} from '../types/credential';
+import { ConstitutionalIdentity, ConstitutionalIdentityVerifier } from './constitutional-identity';
+import { DIDResolver } from './did-resolver';
+import { HandshakeSession } from './handshake-sequence';
+import { verifyHash } from '../utils/crypto';
+import { canonicalize } from '../utils/canonical-json';
+import { getChpDID } from '../utils/did';
+import { isLoadedConstitution, loadConstitution } from '../utils/constitution';
+import { createJws, decodeJws, verifyJws } from '../utils/jws';
+import { isCommitmentExpired } from '../utils/validation';
+
+/**
+ * Base context of every W3C Verifiable Credential
+ */
+export const CREDENTIALS_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+
+/**
+ * Context defining the CHP credential types and subject properties
+ */
+export const CHP_CREDENTIALS_CONTEXT = 'https://w3id.org/chp/credentials/v1';
+
+/**
+ * Issues credentials signed by a constitutional identity
+ */
+export class VerifiableCredentialIssuer {
+  private identity: ConstitutionalIdentity;
+  private agentId: string;
+
+  constructor(identity: ConstitutionalIdentity, agentId: string) {
+    this.identity = identity;
+    this.agentId = agentId;
+  }
+
+  /**
+   * Issue the identity's current commitment as a self-signed credential
+   *
+   * `laws` must be the law set or loaded constitution the commitment was
+   * made to. A loaded constitution's document is included in the subject.
+   */
+  async issueCommitmentCredential(
+    laws: ConstitutionalLaws | LoadedConstitution,
+    options: { validFor?: number } = {}
+  ): Promise<string> {
+    const commitment = this.identity.getCommitment();
+    const loaded = isLoadedConstitution(laws) ? laws : undefined;
+    if (!verifyHash(canonicalize(loaded ? loaded.document : laws), commitment.lawsHash, false)) {
+      throw new Error('Laws do not match the commitment');
+    }
+
+    const subject: CommitmentCredentialSubject = {
+      id: this.identity.getDID(),
+      agentId: this.agentId,
+      constitutionHash: commitment.lawsHash,
+      laws: loaded ? loaded.laws : laws as ConstitutionalLaws,
+      constitution: loaded?.document,
+      commitment,
+    };
+    return await this.issue('ConstitutionalCommitmentCredential', subject, options.validFor);
+  }
+
+  /**
+   * Issue the result of a finished handshake this agent took part in
+   *
+   * The subject is the other party.
+   */
+  async issueHandshakeCredential(
+    session: HandshakeSession,
+    options: { validFor?: number } = {}
+  ): Promise<string> {
+    if (!session.result) {
+      throw new Error('Handshake has not finished');
+    }
+    if (this.agentId !== session.initiator && this.agentId !== session.responder) {
+      throw new Error('Agent did not take part in the handshake');
+    }
+
+    const peerIsResponder = this.agentId === session.initiator;
+    const peerCommitment: ConstitutionalCommitment | undefined = peerIsResponder
+      ? session.evidence.find(e => e.type === 'behavioral_attestation')?.data.attesterCommitment
+      : session.evidence.find(e => e.type === 'constitutional_commitment')?.data;
+    const peerId = peerIsResponder ? session.responder : session.initiator;
+
+    const subject: HandshakeCredentialSubject = {
+      id: peerCommitment ? getChpDID(peerCommitment) : `urn:chp:agent:${encodeURIComponent(peerId)}`,
+      agentId: peerId,
+      sessionId: session.sessionId,
+      initiator: session.initiator,
+      success: session.result.success,
+      trustLevel: session.result.trustLevel,
+      confidence: session.result.confidence,
+      completedAt: new Date(session.result.timestamp).toISOString(),
+    };
+    return await this.issue('ConstitutionalHandshakeCredential', subject, options.validFor);
+  }
+
+  /**
+   * Wrap a subject in a credential and sign it as a VC-JWT
+   */
+  private async issue(type: string, subject: { id: string }, validFor?: number): Promise<string> {
+    const issuer = this.identity.getDID();
+    const issuedAt = Date.now();
+    const expiresAt = validFor !== undefined ? issuedAt + validFor : undefined;
+
+    const credential: VerifiableCredential = {
+      '@context': [CREDENTIALS_CONTEXT, CHP_CREDENTIALS_CONTEXT],
+      id: `urn:uuid:${crypto.randomUUID()}`,
+      type: ['VerifiableCredential', type],
+      issuer,
+      issuanceDate: new Date(issuedAt).toISOString(),
+      expirationDate: expiresAt !== undefined ? new Date(expiresAt).toISOString() : undefined,
+      credentialSubject: subject,
+    };
+
+    const payload = {
+      iss: issuer,
+      sub: subject.id,
+      jti: credential.id,
+      nbf: Math.floor(issuedAt / 1000),
+      exp: expiresAt !== undefined ? Math.floor(expiresAt / 1000) : undefined,
+      vc: credential,
+    };
+
+    return await createJws(JSON.parse(JSON.stringify(payload)), this.identity.getKeyProvider(), {
+      typ: 'JWT',
+      kid: `${issuer}#${this.identity.getKeyFingerprint()}`,
+    });
+  }
+}
+
+/**
+ * Verifies VC-JWT credentials against their issuers' DID documents
+ */
+export class VerifiableCredentialVerifier {
+  private resolver: DIDResolver;
+
+  /**
+   * did:chp issuers must be registered with `resolver`; did:key issuers
+   * resolve anywhere
+   */
+  constructor(resolver: DIDResolver = new DIDResolver()) {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Verify a VC-JWT
+   *
+   * The signing key must be an assertion method of the issuer's DID
+   * document and the DID must not be deactivated. Commitment credentials
+   * must also carry a valid commitment to their law set. Returns the
+   * credential, or null if any check fails.
+   */
+  async verify(jwt: string): Promise<VerifiableCredential<any> | null> {
+    try {
+      const { header, payload } = decodeJws(jwt);
+      const credential: VerifiableCredential<any> | undefined = payload?.vc;
+      if (!credential ||
+          !Array.isArray(credential.type) ||
+          !credential.type.includes('VerifiableCredential') ||
+          payload.iss !== credential.issuer ||
+          payload.sub !== credential.credentialSubject?.id ||
+          payload.jti !== credential.id) {
+        return null;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      if ((payload.nbf !== undefined && payload.nbf > now) || (payload.exp !== undefined && payload.exp <= now)) {
+        return null;
+      }
+
+      const { didDocument, didDocumentMetadata } = await this.resolver.resolve(payload.iss);
+      const method = didDocument?.verificationMethod.find(candidate => candidate.id === header.kid);
+      if (!didDocument || didDocumentMetadata.deactivated || !method ||
+          !didDocument.assertionMethod.includes(method.id) ||
+          !(await verifyJws(jwt, JSON.stringify(method.publicKeyJwk)))) {
+        return null;
+      }
+
+      if (credential.type.includes('ConstitutionalCommitmentCredential') &&
+          !(await VerifiableCredentialVerifier.verifyCommitmentSubject(credential))) {
+        return null;
+      }
+
+      return credential;
+    } catch (error) {
+      console.error('Error verifying credential:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Check a commitment credential is self-issued and its commitment is
+   * valid, unexpired and made to the law set it carries, or to the
+   * constitution document the law set was loaded from
+   */
+  private static async verifyCommitmentSubject(
+    credential: VerifiableCredential<CommitmentCredentialSubject>
+  ): Promise<boolean> {
+    const { id, constitutionHash, laws, constitution, commitment } = credential.credentialSubject;
+    const lawsMatch = constitution
+      ? verifyHash(canonicalize(constitution), constitutionHash, false) &&
+        canonicalize(loadConstitution(constitution).laws) === canonicalize(laws)
+      : verifyHash(canonicalize(laws), constitutionHash, false);
+
+    return id === credential.issuer &&
+      getChpDID(commitment) === id &&
+      commitment.lawsHash === constitutionHash &&
+      lawsMatch &&
+      !isCommitmentExpired(commitment) &&
+      await ConstitutionalIdentityVerifier.verify(commitment);
+  }
+}
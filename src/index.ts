@@ -10,14 +10,40 @@ export * from './core/constitutional-identity';
 export * from './core/behavioral-attestation-chain';
 export * from './core/trust-graph-protocol';
 export * from './core/handshake-sequence';
+export * from './core/revocation-registry';
+export * from './core/timestamp-authority';
+export * from './core/did-resolver';
+export * from './core/verifiable-credentials';
 
 // Types (implemented)
 export * from './types/constitutional';
 export * from './types/attestation';
 export * from './types/trust';
+export * from './types/crypto';
+export * from './types/revocation';
+export * from './types/timestamp';
+export * from './types/did';
+export * from './types/credential';
+
+// Bundled constitutions
+export * from './constitutions/freedom-preserving-five';
 
 // Utilities (implemented)
 export * from './utils/crypto';
+export * from './utils/signature-suites';
+export * from './utils/canonical-json';
+export * from './utils/multisig';
+export * from './utils/selective-disclosure';
+export * from './utils/schnorr';
+export * from './utils/batch-verification';
+export * from './utils/timestamp';
+export * from './utils/proof-of-work';
+export * from './utils/did';
+export * from './utils/jws';
+export * from './utils/constitution';
+export * from './utils/keystore';
+export * from './utils/key-provider';
+export * from './utils/child-process-signer';
 export * from './utils/validation';
 
 // Main CHP class for easy integration
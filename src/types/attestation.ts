@@ -4,6 +4,8 @@
  * Defines types for behavioral attestations and verification
  */
 
+import { TimestampToken } from './timestamp';
+
 /**
  * Behavioral attestation proving constitutional adherence
  */
@@ -20,6 +22,14 @@ export interface BehavioralAttestation {
   data: any;
   /** Cryptographic proof */
   proof: string;
+  /** Signature suite used for the proof (ECDSA P-256 when absent) */
+  signatureSuite?: string;
+  /** Fingerprint of the key that signed the proof */
+  keyFingerprint?: string;
+  /** Commitment to salted digests of the action's fields, for selective disclosure */
+  disclosureCommitment?: string;
+  /** Signature over the attestation ID and disclosure commitment */
+  disclosureProof?: string;
   /** Timestamp when attestation was created */
   timestamp: number;
   /** Expiration time for this attestation */
@@ -45,6 +55,25 @@ export interface MerkleProof {
   root: string;
   /** Index of the leaf in the tree */
   index: number;
+  /** Number of leaves in the tree the root was computed over */
+  treeSize: number;
+}
+
+/**
+ * Merkle consistency proof that a newer tree is an append-only extension
+ * of an older one
+ */
+export interface ConsistencyProof {
+  /** Number of leaves in the older tree */
+  oldSize: number;
+  /** Number of leaves in the newer tree */
+  newSize: number;
+  /** Root hash of the older tree */
+  oldRoot: string;
+  /** Root hash of the newer tree */
+  newRoot: string;
+  /** Subtree hashes needed to recompute both roots */
+  path: string[];
 }
 
 /**
@@ -75,6 +104,8 @@ export interface AttestationChainEntry {
   nonce: number;
   /** Timestamp when entry was created */
   timestamp: number;
+  /** Timestamp authority countersignature over the entry hash */
+  timestampToken?: TimestampToken;
 }
 
 /**
@@ -97,15 +128,40 @@ export interface AttestationVerification {
 
 /**
  * Selective disclosure proof
+ *
+ * Every field of an attested action is committed to with a salted hash, in
+ * the style of SD-JWT, so the holder can reveal chosen fields and keep the
+ * rest hidden.
  */
 export interface SelectiveDisclosureProof {
-  /** What is being disclosed */
+  /** Attestation the fields belong to */
+  attestationId: string;
+  /** What is being disclosed, as base64url-encoded `[salt, field, value]` arrays */
   disclosed: string[];
-  /** What remains hidden */
+  /** What remains hidden, as the salted digests of the undisclosed fields */
   hidden: string[];
-  /** Proof that hidden data exists without revealing it */
+  /** Signature over the attestation ID and commitment */
   proof: string;
-  /** Commitment to the hidden data */
+  /** Commitment to every field: the hash of all salted digests, sorted */
   commitment: string;
+  /** Signature suite used for the proof (ECDSA P-256 when absent) */
+  signatureSuite?: string;
+  /** Fingerprint of the key that signed the proof */
+  keyFingerprint?: string;
 }
 
+/**
+ * Outcome of verifying one attestation in a batch
+ */
+export interface BatchVerificationResult {
+  /** Position of the attestation or chain entry in the batch */
+  index: number;
+  /** Attestation that was checked */
+  attestationId: string;
+  /** Whether every signature on the attestation verified */
+  isValid: boolean;
+  /** Fingerprint of the key the attestation was checked against */
+  keyFingerprint?: string;
+  /** Why verification could not be completed, if it could not */
+  error?: string;
+}
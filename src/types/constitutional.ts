@@ -1,38 +1,184 @@
 /**
  * Constitutional Framework Types
  * 
- * Defines the core types for the Paulsens-Freedom-Preserving-Five framework
+ * Defines the core types for constitutions such as the
+ * Paulsens-Freedom-Preserving-Five
  */
 
+import { MultiSignature } from './crypto';
+
 /**
- * The five constitutional laws that govern agent behavior
+ * A constitutional law that governs agent behavior
  */
-export interface ConstitutionalLaws {
-  law1: {
-    name: 'Options and Consent';
-    principle: 'Do not unjustifiably reduce another\'s options; when feasible and consented, increase them; if expansion conflicts with privacy or agreed fairness, protect those first.';
-    parameters: string[];
-  };
-  law2: {
-    name: 'Corrigibility and Oversight';
-    principle: 'Remain correctable by stewards who are both authorized and accountable to affected users; provide auditable logs; allow safe interruption with safeguards.';
-    parameters: string[];
-  };
-  law3: {
-    name: 'Reversibility and Proportion';
-    principle: 'Prefer reversible, low impact actions justified by reasons; escalate to higher impact only with explicit proportionality or urgent prevention of Law 1 violations.';
-    parameters: string[];
+export interface ConstitutionalLaw {
+  name: string;
+  principle: string;
+  parameters: string[];
+}
+
+/**
+ * Constitutional laws by key, e.g. `law1`
+ */
+export type ConstitutionalLaws = Record<string, ConstitutionalLaw>;
+
+/**
+ * Clause that applies when norms are unclear or laws conflict
+ */
+export interface ConstitutionalMetaClause {
+  name: string;
+  principle: string;
+  parameters: string[];
+  /** Situations that invoke the clause */
+  triggers: string[];
+}
+
+/**
+ * A constitution of any number of laws, with an optional meta clause and
+ * an order of precedence among the laws
+ */
+export interface Constitution {
+  name: string;
+  version: string;
+  laws: ConstitutionalLaws;
+  metaClause?: ConstitutionalMetaClause;
+  /** Law keys, highest precedence first */
+  precedence: string[];
+}
+
+/**
+ * A law as written in a machine-readable constitution document
+ */
+export interface ConstitutionDocumentLaw {
+  id: string;
+  name: string;
+  /** Position of the law in the hierarchy's precedence order, from 1 */
+  order: number;
+  primary_sentence: string;
+  defining_parameters: string[];
+  keywords?: string[];
+  enforcement_priority?: string;
+  conflicts_with?: string[];
+  protects?: string[];
+  references_laws?: string[];
+  [field: string]: unknown;
+}
+
+/**
+ * A law added to an existing constitution, which takes its order from its
+ * position after the existing laws
+ */
+export type ConstitutionExtensionLaw = Pick<
+  ConstitutionDocumentLaw,
+  'id' | 'name' | 'primary_sentence' | 'defining_parameters' | 'keywords' |
+  'enforcement_priority' | 'conflicts_with' | 'protects' | 'references_laws'
+>;
+
+/**
+ * Machine-readable constitution document, as in
+ * `constitution-machine-readable.json` and `.yaml`
+ */
+export interface ConstitutionDocument {
+  constitution: {
+    name: string;
+    version: string;
+    format_version: string;
+    description?: string;
+    created?: string;
+    laws: Record<string, ConstitutionDocumentLaw>;
+    meta_clause?: {
+      id: string;
+      name: string;
+      primary_sentence: string;
+      defining_parameters: string[];
+      keywords?: string[];
+      triggers?: string[];
+      enforcement_priority?: string;
+      applies_to?: string;
+      [field: string]: unknown;
+    };
+    hierarchy: {
+      precedence_order: string[];
+      meta_clause_precedence?: string;
+      conflict_resolution?: {
+        primary_principle?: string;
+        escalation_path?: string[];
+        tie_breaking?: string;
+      };
+    };
+    [section: string]: unknown;
   };
-  law4: {
-    name: 'Commitments with a Safety Valve';
-    principle: 'Keep explicit promises; if fulfillment would cause a serious Law 1 violation, pause, notify parties, and seek renegotiation with transparent logging.';
-    parameters: string[];
+  schema: {
+    version: string;
+    description?: string;
+    required_fields: string[];
+    validation: {
+      law_structure: {
+        required: string[];
+        optional?: string[];
+      };
+      parameter_format?: string;
+      precedence_validation?: string;
+    };
   };
-  law5: {
-    name: 'Scoped Exploration';
-    principle: 'Explore to improve understanding and competence within the bounds of Laws 1 through 4; declare scope and budget; obtain consent when shared resources or people are affected.';
-    parameters: string[];
+}
+
+/**
+ * Metadata the constitution document carries about a law beyond its
+ * `ConstitutionalLaws` entry
+ */
+export interface LawMetadata {
+  /** Stable ID of the law, e.g. `options_and_consent` */
+  id: string;
+  order: number;
+  keywords: string[];
+  enforcementPriority?: string;
+  conflictsWith: string[];
+  protects: string[];
+  /** Keys of the laws this law refers to */
+  referencesLaws: string[];
+}
+
+/**
+ * A constitution loaded from a machine-readable document
+ */
+export interface LoadedConstitution extends Constitution {
+  formatVersion: string;
+  /** Metadata by law key */
+  lawMetadata: Record<string, LawMetadata>;
+  metaClause?: ConstitutionalMetaClause & {
+    id: string;
+    keywords: string[];
+    enforcementPriority?: string;
   };
+  /** The validated document */
+  document: ConstitutionDocument;
+  /** Hash of the canonical document, committed to in place of a hash of `laws` */
+  lawsHash: string;
+}
+
+/**
+ * A version of a constitution, identified by the hash of its canonical
+ * document
+ */
+export interface ConstitutionVersion {
+  name: string;
+  version: string;
+  lawsHash: string;
+}
+
+/**
+ * Record of an amendment from one version of a constitution to the next,
+ * approved by a quorum of the constitution's maintainers
+ */
+export interface ConstitutionAmendment {
+  from: ConstitutionVersion;
+  to: ConstitutionVersion;
+  /** Whether commitments to `to` also satisfy `from` */
+  backwardCompatible: boolean;
+  description: string;
+  timestamp: number;
+  /** Maintainer quorum signatures over the amendment */
+  approval: MultiSignature;
 }
 
 /**
@@ -45,10 +191,54 @@ export interface ConstitutionalCommitment {
   lawsHash: string;
   /** Timestamp when commitment was made */
   timestamp: number;
+  /** End of the commitment's validity window (one year after `timestamp` when absent) */
+  expiresAt?: number;
+  /** The commitment this one renews, for renewals of the same identity */
+  renews?: { id: string; signature: string };
   /** Cryptographic signature of the commitment */
   signature: string;
   /** Public key used for signing */
   publicKey: string;
+  /** Short fingerprint of the public key */
+  keyFingerprint?: string;
+  /** Signature suite used for signing (ECDSA P-256 when absent) */
+  signatureSuite?: string;
+  /** Stable identity carried across key rotations (the first commitment's ID when absent) */
+  identityId?: string;
+  /** Constitution `lawsHash` identifies, when committed to a loaded constitution */
+  constitution?: { name: string; version: string };
+  /** Earlier versions of the constitution this commitment also satisfies */
+  compatibleWith?: ConstitutionVersion[];
+  /** Steward quorum signatures over the commitment, for identities under dual control */
+  stewardApproval?: MultiSignature;
+}
+
+/**
+ * Record of a key rotation, signed by both the outgoing and incoming keys
+ */
+export interface KeySuccessionRecord {
+  /** Stable identity whose key is being rotated */
+  identityId: string;
+  /** Position of this rotation in the identity's succession chain, from 1 */
+  sequence: number;
+  /** Public key (SPKI) being retired */
+  previousPublicKey: string;
+  /** Fingerprint of the retired key */
+  previousKeyFingerprint: string;
+  /** Signature suite of the retired key */
+  previousSignatureSuite: string;
+  /** Public key (SPKI) taking over */
+  nextPublicKey: string;
+  /** Fingerprint of the new key */
+  nextKeyFingerprint: string;
+  /** Signature suite of the new key */
+  nextSignatureSuite: string;
+  /** Timestamp of the rotation */
+  timestamp: number;
+  /** Signature by the retired key, authorizing the successor */
+  signature: string;
+  /** Signature by the new key, proving possession */
+  nextKeySignature: string;
 }
 
 /**
@@ -60,7 +250,7 @@ export interface ConstitutionalVerification {
   /** Confidence level (0-1) */
   confidence: number;
   /** Specific laws that were verified */
-  verifiedLaws: Array<keyof ConstitutionalLaws>;
+  verifiedLaws: string[];
   /** Evidence supporting the verification */
   evidence: VerificationEvidence[];
   /** Timestamp of verification */
@@ -91,8 +281,8 @@ export interface ConstitutionalAction {
   type: 'decision' | 'commitment' | 'verification' | 'correction';
   /** Description of the action */
   description: string;
-  /** Which constitutional law this action relates to */
-  relatedLaw: keyof ConstitutionalLaws;
+  /** Key of the constitutional law this action relates to */
+  relatedLaw: string;
   /** Justification for the action */
   justification: string;
   /** Timestamp when action was taken */
@@ -101,6 +291,10 @@ export interface ConstitutionalAction {
   hash: string;
   /** Signature of the action */
   signature: string;
+  /** High-impact actions, including interrupts, need steward quorum approval */
+  impact?: 'low' | 'high';
+  /** Steward quorum signatures over the action */
+  stewardApproval?: MultiSignature;
 }
 
 /**
@@ -0,0 +1,64 @@
+/**
+ * Credential Types
+ *
+ * Defines types for W3C Verifiable Credentials issued over constitutional
+ * commitments and handshake results
+ */
+
+import { ConstitutionalCommitment, ConstitutionalLaws, ConstitutionDocument } from './constitutional';
+import { TrustLevel } from './trust';
+
+/**
+ * W3C Verifiable Credential (VC Data Model 1.1)
+ */
+export interface VerifiableCredential<Subject = Record<string, unknown>> {
+  '@context': string[];
+  /** Credential ID, a URN */
+  id: string;
+  type: string[];
+  /** DID of the issuer */
+  issuer: string;
+  issuanceDate: string;
+  expirationDate?: string;
+  credentialSubject: Subject & { id: string };
+}
+
+/**
+ * Subject of a credential attesting to an agent's constitutional commitment
+ */
+export interface CommitmentCredentialSubject {
+  /** DID of the committed identity */
+  id: string;
+  agentId: string;
+  /** Hash of the canonical law set */
+  constitutionHash: string;
+  /** The law set committed to */
+  laws: ConstitutionalLaws;
+  /** The constitution document committed to, when the laws were loaded from one */
+  constitution?: ConstitutionDocument;
+  /** The commitment itself, so verifiers can recheck its signature */
+  commitment: ConstitutionalCommitment;
+}
+
+/**
+ * Subject of a credential recording the outcome of a handshake with an agent
+ */
+export interface HandshakeCredentialSubject {
+  /** DID of the peer, or a URN naming its agent ID when its DID is unknown */
+  id: string;
+  agentId: string;
+  sessionId: string;
+  /** Agent that initiated the handshake */
+  initiator: string;
+  success: boolean;
+  trustLevel: TrustLevel;
+  confidence: number;
+  /** Time the handshake finished */
+  completedAt: string;
+}
+
+/**
+ * Credential type of each subject
+ */
+export type ConstitutionalCommitmentCredential = VerifiableCredential<CommitmentCredentialSubject>;
+export type ConstitutionalHandshakeCredential = VerifiableCredential<HandshakeCredentialSubject>;
@@ -0,0 +1,166 @@
+/**
+ * Cryptographic Types
+ * 
+ * Defines types for keys and signature suites used across the protocol
+ */
+
+import { ZeroKnowledgeProof } from './attestation';
+
+/**
+ * Public key published by a constitutional identity
+ */
+export interface PublicKeyInfo {
+  /** Public key as a JSON Web Key */
+  jwk: JsonWebKey;
+  /** Base64url-encoded SubjectPublicKeyInfo */
+  spki: string;
+  /** Short fingerprint of the SPKI encoding */
+  fingerprint: string;
+}
+
+/**
+ * A signature algorithm together with its key handling
+ */
+export interface SignatureSuite {
+  /** Identifier recorded in commitments and attestation proofs */
+  id: string;
+  /** Web Crypto algorithm name of the suite's keys */
+  keyAlgorithm: string;
+  /** JWS `alg` of the suite's signatures, when they can be used in a JWS */
+  jwsAlgorithm?: string;
+  /** Generate an extractable signing key pair */
+  generateKeyPair(): Promise<CryptoKeyPair>;
+  /** Sign data, returning a hex signature */
+  sign(data: string, privateKey: CryptoKey): Promise<string>;
+  /** Verify a hex signature */
+  verify(data: string, signature: string, publicKey: CryptoKey): Promise<boolean>;
+  /** Import a published public key for verification */
+  importPublicKey(publicKey: string): Promise<CryptoKey>;
+  /** Import an extractable signing key from its PKCS#8 encoding */
+  importPrivateKey(pkcs8: ArrayBuffer): Promise<CryptoKey>;
+  /** Derive the public half of an extractable private key */
+  derivePublicKey(privateKey: CryptoKey): Promise<CryptoKey>;
+}
+
+/**
+ * Holds a signing key and signs with it on the caller's behalf
+ *
+ * Implementations backed by another process, an HSM or a KMS keep the
+ * private key out of the agent process entirely.
+ */
+export interface Signer {
+  /** Signature suite of the key, e.g. `ecdsa-p256-sha256` */
+  readonly algorithm: string;
+  /** Public half of the key */
+  getPublicKey(): Promise<PublicKeyInfo>;
+  /** Sign data, returning a hex signature */
+  sign(data: string): Promise<string>;
+}
+
+/**
+ * Signer for an identity key, plus the optional operations a backend may
+ * support beyond signing
+ */
+export interface KeyProvider extends Signer {
+  /** Decrypt a hybrid encryption envelope addressed to the key */
+  decrypt?(envelope: EncryptedEnvelope, expectedAssociatedData?: string): Promise<string>;
+  /** Prove possession of the key with a Schnorr proof bound to a nonce */
+  proveKeyPossession?(nonce: string): Promise<ZeroKnowledgeProof>;
+  /** Save the key to a password-protected keystore */
+  exportKeystore?(password: string, options?: { agentId?: string; iterations?: number }): Promise<EncryptedKeystore>;
+  /** Generate a new key for the same suite, held by the same kind of backend */
+  generateSuccessor?(): Promise<KeyProvider>;
+  /** Release resources held by the provider, such as a signer process */
+  close?(): Promise<void>;
+}
+
+/**
+ * Hybrid encryption envelope addressed to a constitutional identity
+ */
+export interface EncryptedEnvelope {
+  /** Envelope format version */
+  version: 1;
+  /** Key agreement, key derivation and cipher, e.g. `X25519+HKDF-SHA256+A256GCM` */
+  algorithm: string;
+  /** Fingerprint of the recipient's public key */
+  recipientKeyId: string;
+  /** Sender's ephemeral key agreement public key (base64url, raw) */
+  ephemeralPublicKey: string;
+  /** AES-GCM initialization vector (base64url) */
+  iv: string;
+  /** Ciphertext including the GCM tag (base64url) */
+  ciphertext: string;
+  /** Authenticated but unencrypted context bound to the ciphertext */
+  associatedData?: string;
+}
+
+/**
+ * Password-protected private key, as saved to disk between restarts
+ */
+export interface EncryptedKeystore {
+  /** Keystore format version */
+  version: 1;
+  /** Signature suite of the stored key */
+  signatureSuite: string;
+  /** Base64url-encoded SPKI public key */
+  publicKey: string;
+  /** Fingerprint of the public key */
+  keyFingerprint: string;
+  /** Agent the key belongs to, if recorded */
+  agentId?: string;
+  /** Timestamp when the keystore was written */
+  createdAt: number;
+  /** Password-based key derivation parameters */
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    /** Random salt (base64url) */
+    salt: string;
+  };
+  /** Cipher used to wrap the private key */
+  cipher: {
+    name: 'AES-256-GCM';
+    /** AES-GCM initialization vector (base64url) */
+    iv: string;
+  };
+  /** PKCS#8 private key encrypted with the derived key (base64url) */
+  ciphertext: string;
+}
+
+/**
+ * A key holder allowed to sign under a quorum policy
+ */
+export interface QuorumMember {
+  /** Base64url-encoded SPKI public key */
+  publicKey: string;
+  /** Fingerprint of the public key */
+  keyFingerprint: string;
+  /** Signature suite of the key */
+  signatureSuite: string;
+}
+
+/**
+ * k-of-n signing policy, e.g. two of a board of stewards
+ */
+export interface QuorumPolicy {
+  /** Number of distinct members that must sign */
+  threshold: number;
+  /** Members allowed to sign */
+  members: QuorumMember[];
+}
+
+/**
+ * Independent signatures from members of a quorum policy over one payload
+ */
+export interface MultiSignature {
+  /** Hash identifying the policy the signatures were made under */
+  policyId: string;
+  /** One signature per signing member */
+  signatures: Array<{
+    /** Fingerprint of the signing member's key */
+    keyFingerprint: string;
+    /** Hex signature over the policy ID and payload */
+    signature: string;
+  }>;
+}
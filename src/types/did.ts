@@ -0,0 +1,96 @@
+/**
+ * DID Types
+ *
+ * Defines types for decentralized identifiers (W3C DID Core) naming
+ * constitutional identities
+ */
+
+import { ConstitutionalCommitment, KeySuccessionRecord } from './constitutional';
+
+/**
+ * Public key in a DID document
+ */
+export interface DIDVerificationMethod {
+  /** DID URL of the key, the DID with the key fingerprint as fragment */
+  id: string;
+  type: 'JsonWebKey2020';
+  /** DID of the key's controller */
+  controller: string;
+  publicKeyJwk: JsonWebKey;
+}
+
+/**
+ * Service endpoint in a DID document
+ */
+export interface DIDService {
+  /** DID URL of the service */
+  id: string;
+  /** Service type, e.g. `CHPHandshake` */
+  type: string;
+  serviceEndpoint: string;
+}
+
+/**
+ * DID document describing how to authenticate a constitutional agent
+ */
+export interface DIDDocument {
+  '@context': string[];
+  id: string;
+  verificationMethod: DIDVerificationMethod[];
+  /** Keys that can authenticate as the DID subject */
+  authentication: string[];
+  /** Keys that can sign attestations for the DID subject */
+  assertionMethod: string[];
+  service?: DIDService[];
+  /** Hash of the constitutional laws the subject committed to (did:chp only) */
+  constitutionHash?: string;
+  /** ID of the commitment the document was generated from (did:chp only) */
+  constitutionalCommitment?: string;
+}
+
+/**
+ * What a registry holds for a did:chp identity
+ */
+export interface DIDRecord {
+  /** The identity's first commitment, whose ID is the method-specific ID */
+  initialCommitment: ConstitutionalCommitment;
+  /** The identity's current commitment */
+  commitment: ConstitutionalCommitment;
+  /** Key succession records from the first commitment's key to the current one */
+  successionRecords: KeySuccessionRecord[];
+  /** Service endpoints to publish */
+  services: DIDService[];
+  /** When the DID was first registered */
+  created: number;
+  /** When the record last changed */
+  updated: number;
+  /** Signature by the current key over the DID, commitment ID, services and update time */
+  signature: string;
+}
+
+/**
+ * Storage backend for did:chp records
+ */
+export interface DIDRegistry {
+  /** Store the record for a DID, replacing any existing one */
+  put(did: string, record: DIDRecord): Promise<void>;
+  /** Find the record for a DID */
+  get(did: string): Promise<DIDRecord | null>;
+}
+
+/**
+ * Result of resolving a DID, following DID Resolution
+ */
+export interface DIDResolutionResult {
+  didDocument: DIDDocument | null;
+  didResolutionMetadata: {
+    contentType?: string;
+    error?: 'invalidDid' | 'notFound' | 'methodNotSupported';
+  };
+  didDocumentMetadata: {
+    created?: string;
+    updated?: string;
+    /** Whether the identity's commitment or key has been revoked */
+    deactivated?: boolean;
+  };
+}
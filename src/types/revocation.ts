@@ -0,0 +1,47 @@
+/**
+ * Revocation Types
+ * 
+ * Defines types for revoking leaked keys and withdrawn commitments
+ */
+
+/**
+ * Why a key or commitment was revoked
+ */
+export type RevocationReason = 'key_compromise' | 'superseded' | 'cessation_of_operation' | 'unspecified';
+
+/**
+ * Signed statement that a key or commitment must no longer be trusted
+ *
+ * Statements are signed by the key being revoked, or by the key of the
+ * commitment being revoked, so only its holder can issue them.
+ */
+export interface RevocationStatement {
+  /** What is being revoked */
+  type: 'key' | 'commitment';
+  /** Key fingerprint or commitment ID being revoked */
+  subject: string;
+  /** Fingerprint of the key that signed the statement */
+  keyFingerprint: string;
+  /** Public key (SPKI) that signed the statement */
+  publicKey: string;
+  /** Signature suite of the signing key */
+  signatureSuite: string;
+  /** Reason for the revocation */
+  reason: RevocationReason;
+  /** Timestamp of the revocation */
+  revokedAt: number;
+  /** Signature over the statement */
+  signature: string;
+}
+
+/**
+ * Storage backend for revocation statements
+ */
+export interface RevocationStore {
+  /** Store a verified statement */
+  put(statement: RevocationStatement): Promise<void>;
+  /** Find every statement about a subject */
+  find(subject: string): Promise<RevocationStatement[]>;
+  /** List every stored statement */
+  list(): Promise<RevocationStatement[]>;
+}
@@ -0,0 +1,82 @@
+/**
+ * Timestamp Types
+ *
+ * Defines types for trusted timestamp tokens, modelled on RFC 3161
+ */
+
+/**
+ * Request for a timestamp token over a hash of some data
+ */
+export interface TimestampRequest {
+  /** Multihash of the data being timestamped */
+  messageImprint: string;
+  /** Nonce the token must echo, so responses cannot be replayed */
+  nonce?: string;
+}
+
+/**
+ * Timestamp token issued by a timestamp authority (TSA)
+ *
+ * The TSA signs every other field, attesting that the data behind
+ * `messageImprint` existed at `genTime`.
+ */
+export interface TimestampToken {
+  /** Token format version */
+  version: 1;
+  /** Policy the TSA issued the token under */
+  policy: string;
+  /** Multihash of the timestamped data */
+  messageImprint: string;
+  /** Serial number, unique and increasing for each TSA key */
+  serialNumber: number;
+  /** Time the token was generated, in milliseconds */
+  genTime: number;
+  /** Accuracy of `genTime`, in milliseconds either side */
+  accuracy: number;
+  /** Nonce from the request */
+  nonce?: string;
+  /** Public key (SPKI) of the TSA */
+  publicKey: string;
+  /** Fingerprint of the TSA key */
+  keyFingerprint: string;
+  /** Signature suite of the TSA key */
+  signatureSuite: string;
+  /** TSA signature over the token */
+  signature: string;
+}
+
+/**
+ * Service that issues timestamp tokens
+ */
+export interface TimestampAuthority {
+  /** Issue a token for a request */
+  timestamp(request: TimestampRequest): Promise<TimestampToken>;
+}
+
+/**
+ * What a verifier requires of timestamp tokens
+ */
+export interface TimestampPolicy {
+  /** Fingerprints of TSA keys to trust; tokens from any other TSA are invalid, and every token is when omitted */
+  trustedAuthorities?: string[];
+  /** Reject entries without a token */
+  required?: boolean;
+  /** How long before its token an entry may claim to have been created, in milliseconds */
+  maxDelay?: number;
+  /** Earliest acceptable token time */
+  notBefore?: number;
+  /** Latest acceptable token time */
+  notAfter?: number;
+}
+
+/**
+ * Result of checking the timestamp tokens of a chain
+ */
+export interface TimestampVerificationResult {
+  /** Whether every check passed */
+  isValid: boolean;
+  /** Number of entries carrying a valid token */
+  timestampedEntries: number;
+  /** Problems found, one per failed check */
+  errors: string[];
+}
@@ -61,6 +61,10 @@ export interface TrustNode {
   id: string;
   /** Constitutional identity of the agent */
   constitutionalId: string;
+  /** Fingerprint of the agent's current public key */
+  keyFingerprint?: string;
+  /** ID of the agent's current commitment */
+  commitmentId?: string;
   /** Current trust score (0-1) */
   trustScore: number;
   /** Number of verified interactions */
@@ -95,6 +99,18 @@ export interface ReputationMetrics {
   neutralInteractions: number;
 }
 
+/**
+ * Last behavioral chain head seen from an agent
+ */
+export interface ChainHead {
+  /** Merkle root of the agent's attestation chain */
+  merkleRoot: string;
+  /** Number of entries the root covers */
+  treeSize: number;
+  /** Timestamp when the head was recorded */
+  recordedAt: number;
+}
+
 /**
  * Trust propagation result
  */
@@ -136,7 +152,7 @@ export interface TrustGraphStats {
  */
 export interface TrustUpdateEvent {
   /** Type of update */
-  type: 'new_relationship' | 'trust_change' | 'node_added' | 'node_removed';
+  type: 'new_relationship' | 'trust_change' | 'node_added' | 'node_removed' | 'key_rotated' | 'commitment_renewed' | 'revocation';
   /** Affected agents */
   agents: string[];
   /** Update data */
@@ -0,0 +1,199 @@
+/**
+ * Batch Verification
+ *
+ * Verifies the signatures on many attestations at once, as when importing a
+ * chain or auditing a peer. Public keys are imported once per fingerprint
+ * and shared across every entry, and checks run with bounded concurrency.
+ */
+
+import { BehavioralAttestation, AttestationChainEntry, BatchVerificationResult, ZeroKnowledgeProof } from '../types/attestation';
+import { generateKeyFingerprint } from './crypto';
+import { canonicalize } from './canonical-json';
+import { getDisclosurePayload } from './selective-disclosure';
+import { verifySchnorrProof } from './schnorr';
+import { DEFAULT_SIGNATURE_SUITE_ID, getSignatureSuite } from './signature-suites';
+
+/**
+ * Number of checks in flight when no concurrency is given
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 32;
+
+/**
+ * A public key attestations may be signed with, e.g. a constitutional
+ * commitment
+ */
+export interface VerificationKey {
+  /** Base64url-encoded SPKI public key */
+  publicKey: string;
+  /** Signature suite of the key (ECDSA P-256 when absent) */
+  signatureSuite?: string;
+}
+
+/**
+ * Imported verification keys, cached by suite and fingerprint
+ *
+ * Concurrent requests for the same key share one import. Pass one cache to
+ * several batches to reuse keys across them.
+ */
+export class VerificationKeyCache {
+  private keys: Map<string, Promise<CryptoKey>> = new Map();
+
+  /**
+   * Get the imported form of a public key, importing it on first use
+   */
+  async get(publicKey: string, signatureSuite: string = DEFAULT_SIGNATURE_SUITE_ID): Promise<CryptoKey> {
+    const cacheKey = `${signatureSuite}:${generateKeyFingerprint(publicKey)}`;
+    let key = this.keys.get(cacheKey);
+    if (!key) {
+      key = getSignatureSuite(signatureSuite).importPublicKey(publicKey);
+      this.keys.set(cacheKey, key);
+      // Let a failed import be retried rather than cached
+      key.catch(() => this.keys.delete(cacheKey));
+    }
+    return await key;
+  }
+
+  /**
+   * Number of cached keys
+   */
+  get size(): number {
+    return this.keys.size;
+  }
+
+  /**
+   * Drop every cached key
+   */
+  clear(): void {
+    this.keys.clear();
+  }
+}
+
+/**
+ * Run `task` for indices 0..count-1 with at most `concurrency` in flight,
+ * returning the results in index order
+ */
+async function mapWithConcurrency<T>(
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<T>
+): Promise<T[]> {
+  const results = new Array<T>(count);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < count) {
+      const index = next++;
+      results[index] = await task(index);
+    }
+  };
+
+  const workers = Math.min(Math.max(1, Math.floor(concurrency)), count);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Pick the key an attestation names by fingerprint, or the only key given
+ */
+function selectKey(
+  attestation: BehavioralAttestation,
+  keysByFingerprint: Map<string, VerificationKey>
+): VerificationKey {
+  if (attestation.keyFingerprint) {
+    const key = keysByFingerprint.get(attestation.keyFingerprint);
+    if (!key) {
+      throw new Error(`No public key with fingerprint ${attestation.keyFingerprint}`);
+    }
+    return key;
+  }
+  if (keysByFingerprint.size === 1) {
+    return keysByFingerprint.values().next().value!;
+  }
+  throw new Error('Attestation does not name its signing key');
+}
+
+/**
+ * Check every signature on one attestation
+ */
+async function verifyOne(
+  attestation: BehavioralAttestation,
+  key: VerificationKey,
+  keyCache: VerificationKeyCache
+): Promise<boolean> {
+  if (attestation.type === 'zero_knowledge') {
+    const proof = attestation.data as ZeroKnowledgeProof;
+    return proof?.proof === attestation.proof && await verifySchnorrProof(proof, { publicKey: key.publicKey });
+  }
+
+  // The key decides the suite; an attestation claiming another one is rejected
+  const suiteId = key.signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID;
+  if ((attestation.signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID) !== suiteId) {
+    return false;
+  }
+  const suite = getSignatureSuite(suiteId);
+  const cryptoKey = await keyCache.get(key.publicKey, suiteId);
+
+  if (!attestation.proof || !(await suite.verify(canonicalize(attestation.data), attestation.proof, cryptoKey))) {
+    return false;
+  }
+
+  if (attestation.disclosureCommitment !== undefined || attestation.disclosureProof !== undefined) {
+    const payload = getDisclosurePayload(attestation.id, attestation.disclosureCommitment ?? '');
+    return !!attestation.disclosureProof && await suite.verify(payload, attestation.disclosureProof, cryptoKey);
+  }
+
+  return true;
+}
+
+/**
+ * Verify the signatures on a set of attestations
+ *
+ * Each attestation is checked against the key matching its fingerprint,
+ * or against the only key when a single one is given; pass every key the
+ * signer has used (e.g. its commitments before and after rotations).
+ * Returns one result per attestation, in order.
+ */
+export async function verifyAttestationsBatch(
+  attestations: BehavioralAttestation[],
+  keys: VerificationKey | VerificationKey[],
+  options: { concurrency?: number; keyCache?: VerificationKeyCache } = {}
+): Promise<BatchVerificationResult[]> {
+  const keysByFingerprint = new Map(
+    (Array.isArray(keys) ? keys : [keys]).map(key => [generateKeyFingerprint(key.publicKey), key])
+  );
+  const keyCache = options.keyCache ?? new VerificationKeyCache();
+
+  return await mapWithConcurrency(attestations.length, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY, async index => {
+    const attestation = attestations[index];
+    try {
+      const key = selectKey(attestation, keysByFingerprint);
+      return {
+        index,
+        attestationId: attestation.id,
+        isValid: await verifyOne(attestation, key, keyCache),
+        keyFingerprint: generateKeyFingerprint(key.publicKey),
+      };
+    } catch (error) {
+      return {
+        index,
+        attestationId: attestation?.id,
+        isValid: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+}
+
+/**
+ * Verify the attestation signatures of every entry in a chain
+ *
+ * Only signatures are checked; use `verifyChainIntegrity` or `importChain`
+ * for the hash links and Merkle root.
+ */
+export async function verifyChainSignatures(
+  entries: AttestationChainEntry[],
+  keys: VerificationKey | VerificationKey[],
+  options: { concurrency?: number; keyCache?: VerificationKeyCache } = {}
+): Promise<BatchVerificationResult[]> {
+  return await verifyAttestationsBatch(entries.map(entry => entry.attestation), keys, options);
+}
@@ -0,0 +1,75 @@
+/**
+ * Canonical JSON
+ *
+ * RFC 8785 JSON Canonicalization Scheme (JCS). Everything that is hashed or
+ * signed is serialized through `canonicalize` so that any implementation can
+ * reproduce the exact bytes from the parsed data.
+ */
+
+/**
+ * Serialize a value as RFC 8785 canonical JSON
+ *
+ * Object members are sorted by the UTF-16 code units of their names, numbers
+ * use the ECMAScript shortest round-trip form and strings use the minimal
+ * JSON escaping, which is what `JSON.stringify` already produces for
+ * primitives. As with `JSON.stringify`, `undefined` members are omitted and
+ * `undefined` array elements become `null`.
+ */
+export function canonicalize(value: unknown): string {
+  const serialized = serializeValue(value);
+  if (serialized === undefined) {
+    throw new Error('Cannot canonicalize a top-level undefined value');
+  }
+  return serialized;
+}
+
+function serializeValue(value: unknown): string | undefined {
+  if (value === null) {
+    return 'null';
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+    case 'string':
+      return JSON.stringify(value);
+
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error('Cannot canonicalize a non-finite number');
+      }
+      return JSON.stringify(value);
+
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+
+    case 'bigint':
+      throw new Error('Cannot canonicalize a bigint');
+
+    default:
+      break;
+  }
+
+  const candidate = value as { toJSON?: () => unknown };
+  if (typeof candidate.toJSON === 'function') {
+    return serializeValue(candidate.toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    const elements = value.map(element => serializeValue(element) ?? 'null');
+    return `[${elements.join(',')}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  // Default sort compares UTF-16 code units, as RFC 8785 requires
+  const members = Object.keys(record)
+    .sort()
+    .map(key => {
+      const serialized = serializeValue(record[key]);
+      return serialized === undefined ? undefined : `${JSON.stringify(key)}:${serialized}`;
+    })
+    .filter((member): member is string => member !== undefined);
+
+  return `{${members.join(',')}}`;
+}
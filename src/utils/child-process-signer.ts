@@ -0,0 +1,302 @@
+/**
+ * Child Process Signer
+ *
+ * Key provider that keeps the private key in a separate Node.js process and
+ * asks it for signatures over stdio. A local stand-in for an HSM or KMS:
+ * the agent process only ever sees public keys, signatures and encrypted
+ * keystores.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
+import { KeyProvider, PublicKeyInfo, EncryptedKeystore } from '../types/crypto';
+import { exportPublicKey } from './crypto';
+import { createKeystoreHeader, getKeystoreAdditionalData, parseKeystore } from './keystore';
+import { DEFAULT_SIGNATURE_SUITE_ID, getSignatureSuite } from './signature-suites';
+
+/**
+ * Program run by the signer process
+ *
+ * Reads one JSON request per line from stdin and writes one JSON response
+ * per line to stdout. Exits when stdin closes.
+ */
+const SIGNER_PROCESS_SOURCE = `
+const { webcrypto: { subtle } } = require('crypto');
+const { createInterface } = require('readline');
+
+const SUITES = {
+  'ecdsa-p256-sha256': {
+    key: { name: 'ECDSA', namedCurve: 'P-256' },
+    sign: { name: 'ECDSA', hash: 'SHA-256' },
+    publicMembers: ['kty', 'crv', 'x', 'y'],
+  },
+  'ed25519': {
+    key: { name: 'Ed25519' },
+    sign: { name: 'Ed25519' },
+    publicMembers: ['kty', 'crv', 'x'],
+  },
+};
+
+let suite;
+let privateKey;
+
+function selectSuite(id) {
+  if (!SUITES[id]) {
+    throw new Error('Unsupported signature suite: ' + id);
+  }
+  return SUITES[id];
+}
+
+async function exportPublicKey() {
+  const jwk = await subtle.exportKey('jwk', privateKey);
+  const publicJwk = {};
+  for (const member of suite.publicMembers) {
+    publicJwk[member] = jwk[member];
+  }
+  const publicKey = await subtle.importKey('jwk', publicJwk, suite.key, true, ['verify']);
+  return Buffer.from(await subtle.exportKey('spki', publicKey)).toString('base64url');
+}
+
+async function deriveWrappingKey(password, kdf, usage) {
+  const passwordKey = await subtle.importKey('raw', Buffer.from(password, 'utf8'), 'PBKDF2', false, ['deriveKey']);
+  return await subtle.deriveKey(
+    { name: 'PBKDF2', hash: kdf.hash, salt: Buffer.from(kdf.salt, 'base64url'), iterations: kdf.iterations },
+    passwordKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+const handlers = {
+  async generate(request) {
+    suite = selectSuite(request.signatureSuite);
+    privateKey = (await subtle.generateKey(suite.key, true, ['sign', 'verify'])).privateKey;
+    return await exportPublicKey();
+  },
+
+  async load(request) {
+    suite = selectSuite(request.signatureSuite);
+    const wrappingKey = await deriveWrappingKey(request.password, request.kdf, 'decrypt');
+    const pkcs8 = await subtle.decrypt(
+      { name: 'AES-GCM', iv: Buffer.from(request.iv, 'base64url'), additionalData: Buffer.from(request.additionalData, 'utf8') },
+      wrappingKey,
+      Buffer.from(request.ciphertext, 'base64url')
+    );
+    privateKey = await subtle.importKey('pkcs8', pkcs8, suite.key, true, ['sign']);
+    return await exportPublicKey();
+  },
+
+  async save(request) {
+    const wrappingKey = await deriveWrappingKey(request.password, request.kdf, 'encrypt');
+    const ciphertext = await subtle.encrypt(
+      { name: 'AES-GCM', iv: Buffer.from(request.iv, 'base64url'), additionalData: Buffer.from(request.additionalData, 'utf8') },
+      wrappingKey,
+      await subtle.exportKey('pkcs8', privateKey)
+    );
+    return Buffer.from(ciphertext).toString('base64url');
+  },
+
+  async sign(request) {
+    const signature = await subtle.sign(suite.sign, privateKey, Buffer.from(request.data, 'utf8'));
+    return Buffer.from(signature).toString('hex');
+  },
+};
+
+createInterface({ input: process.stdin }).on('line', async line => {
+  let id = null;
+  try {
+    const request = JSON.parse(line);
+    id = request.id;
+    const handler = handlers[request.op];
+    if (!handler) {
+      throw new Error('Unknown operation: ' + request.op);
+    }
+    if (!privateKey && request.op !== 'generate' && request.op !== 'load') {
+      throw new Error('No key loaded');
+    }
+    process.stdout.write(JSON.stringify({ id, result: await handler(request) }) + '\\n');
+  } catch (error) {
+    process.stdout.write(JSON.stringify({ id, error: error && error.message ? error.message : String(error) }) + '\\n');
+  }
+});
+`;
+
+/**
+ * Key provider backed by a signer process that holds the private key
+ *
+ * The process keeps running until `close` is called. Decryption is not
+ * supported, since key agreement would need the private key here.
+ */
+export class ChildProcessKeyProvider implements KeyProvider {
+  readonly algorithm: string;
+  private child: ChildProcess;
+  private pending: Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }> = new Map();
+  private nextRequestId: number = 1;
+  private publicKeyInfo!: PublicKeyInfo;
+  private exited: boolean = false;
+
+  private constructor(child: ChildProcess, algorithm: string) {
+    this.child = child;
+    this.algorithm = algorithm;
+
+    createInterface({ input: child.stdout! }).on('line', line => this.handleResponse(line));
+    child.on('exit', () => this.rejectPending(new Error('Signer process exited')));
+    child.on('error', error => {
+      console.error('Error in signer process:', error);
+      this.rejectPending(new Error('Signer process failed'));
+    });
+  }
+
+  /**
+   * Start a signer process that generates a new key
+   */
+  static async generate(signatureSuite: string = DEFAULT_SIGNATURE_SUITE_ID): Promise<ChildProcessKeyProvider> {
+    getSignatureSuite(signatureSuite);
+    const provider = new ChildProcessKeyProvider(ChildProcessKeyProvider.spawnSigner(), signatureSuite);
+
+    try {
+      await provider.setPublicKey(await provider.request('generate', { signatureSuite }));
+      return provider;
+    } catch (error) {
+      await provider.close();
+      console.error('Error starting signer process:', error);
+      throw new Error('Failed to start signer process');
+    }
+  }
+
+  /**
+   * Start a signer process that loads its key from a password-protected
+   * keystore
+   *
+   * The keystore is decrypted inside the signer process.
+   */
+  static async fromKeystore(keystore: EncryptedKeystore | string, password: string): Promise<ChildProcessKeyProvider> {
+    const parsed = parseKeystore(keystore);
+    const { ciphertext, ...header } = parsed;
+    const provider = new ChildProcessKeyProvider(ChildProcessKeyProvider.spawnSigner(), parsed.signatureSuite);
+
+    try {
+      const spki = await provider.request('load', {
+        signatureSuite: parsed.signatureSuite,
+        password,
+        kdf: parsed.kdf,
+        iv: parsed.cipher.iv,
+        additionalData: getKeystoreAdditionalData(header),
+        ciphertext,
+      });
+      await provider.setPublicKey(spki);
+
+      if (provider.publicKeyInfo.fingerprint !== parsed.keyFingerprint) {
+        throw new Error('Keystore public key does not match the private key');
+      }
+      return provider;
+    } catch (error) {
+      await provider.close();
+      console.error('Error loading keystore:', error);
+      throw new Error('Failed to load keystore');
+    }
+  }
+
+  async getPublicKey(): Promise<PublicKeyInfo> {
+    return this.publicKeyInfo;
+  }
+
+  async sign(data: string): Promise<string> {
+    return await this.request('sign', { data });
+  }
+
+  /**
+   * Save the key to a password-protected keystore
+   *
+   * The signer process encrypts the key; only the keystore leaves it.
+   */
+  async exportKeystore(
+    password: string,
+    options: { agentId?: string; iterations?: number } = {}
+  ): Promise<EncryptedKeystore> {
+    if (!password) {
+      throw new Error('A keystore password is required');
+    }
+
+    const header = createKeystoreHeader(this.publicKeyInfo, this.algorithm, options);
+    const ciphertext = await this.request('save', {
+      password,
+      kdf: header.kdf,
+      iv: header.cipher.iv,
+      additionalData: getKeystoreAdditionalData(header),
+    });
+
+    return { ...header, ciphertext };
+  }
+
+  /**
+   * Start a new signer process with a new key for the same suite
+   */
+  async generateSuccessor(): Promise<KeyProvider> {
+    return await ChildProcessKeyProvider.generate(this.algorithm);
+  }
+
+  /**
+   * Stop the signer process, discarding its key
+   */
+  async close(): Promise<void> {
+    if (this.exited) {
+      return;
+    }
+    const exit = new Promise<void>(resolve => this.child.once('exit', () => resolve()));
+    this.child.stdin!.end();
+    await exit;
+  }
+
+  private static spawnSigner(): ChildProcess {
+    return spawn(process.execPath, ['-e', SIGNER_PROCESS_SOURCE], {
+      stdio: ['pipe', 'pipe', 'inherit'],
+    });
+  }
+
+  private async setPublicKey(spki: string): Promise<void> {
+    const publicKey = await getSignatureSuite(this.algorithm).importPublicKey(spki);
+    this.publicKeyInfo = await exportPublicKey(publicKey);
+  }
+
+  private request(op: string, params: Record<string, unknown>): Promise<any> {
+    if (this.exited) {
+      return Promise.reject(new Error('Signer process exited'));
+    }
+
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.child.stdin!.write(JSON.stringify({ id, op, ...params }) + '\n');
+    });
+  }
+
+  private rejectPending(error: Error): void {
+    this.exited = true;
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+  }
+
+  private handleResponse(line: string): void {
+    let response: { id: number; result?: unknown; error?: string };
+    try {
+      response = JSON.parse(line);
+    } catch (error) {
+      console.error('Error parsing signer process response:', error);
+      return;
+    }
+
+    const request = this.pending.get(response.id);
+    if (!request) {
+      return;
+    }
+    this.pending.delete(response.id);
+
+    if (response.error !== undefined) {
+      request.reject(new Error(`Signer process error: ${response.error}`));
+    } else {
+      request.resolve(response.result);
+    }
+  }
+}
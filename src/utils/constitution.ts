@@ -0,0 +1,410 @@
+/**
+ * Constitution Loading
+ *
+ * Loads `ConstitutionalLaws` and their metadata from the machine-readable
+ * constitution documents, validated against the schema the document embeds,
+ * so that every agent commits to the same canonical laws. Also compares the
+ * constitution versions commitments declare, and verifies the amendments
+ * that make one version compatible with an earlier one.
+ */
+
+import { readFile } from 'fs/promises';
+import {
+  ConstitutionAmendment,
+  ConstitutionDocument,
+  ConstitutionDocumentLaw,
+  ConstitutionExtensionLaw,
+  ConstitutionVersion,
+  ConstitutionalCommitment,
+  ConstitutionalLaws,
+  LawMetadata,
+  LoadedConstitution,
+} from '../types/constitutional';
+import { QuorumPolicy } from '../types/crypto';
+import { generateHash } from './crypto';
+import { canonicalize } from './canonical-json';
+import { verifyMultiSignature } from './multisig';
+import { parseYaml } from './yaml';
+
+/**
+ * Parse a constitution document from JSON or YAML text
+ *
+ * The format is detected from the text when not given.
+ */
+export function parseConstitutionDocument(text: string, format?: 'json' | 'yaml'): unknown {
+  const resolvedFormat = format ?? (/^\s*[{[]/.test(text) ? 'json' : 'yaml');
+  return resolvedFormat === 'json' ? JSON.parse(text) : parseYaml(text);
+}
+
+/**
+ * Validate a constitution document against its embedded schema
+ */
+export function validateConstitutionDocument(document: any): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!isObject(document) || !isObject(document.schema) || !isObject(document.schema.validation) ||
+      !isObject(document.schema.validation.law_structure) ||
+      !isStringArray(document.schema.validation.law_structure.required) ||
+      !isStringArray(document.schema.required_fields)) {
+    return { isValid: false, errors: ['Missing or invalid schema'] };
+  }
+
+  const { schema } = document;
+  for (const field of schema.required_fields) {
+    if (document[field] === undefined) {
+      errors.push(`Missing required field: ${field}`);
+    }
+  }
+
+  const constitution = document.constitution;
+  if (!isObject(constitution)) {
+    return { isValid: false, errors: [...errors, 'Invalid constitution'] };
+  }
+
+  for (const field of ['name', 'version', 'format_version']) {
+    if (typeof constitution[field] !== 'string' || constitution[field].length === 0) {
+      errors.push(`Invalid constitution ${field}`);
+    }
+  }
+
+  if (!isObject(constitution.laws) || Object.keys(constitution.laws).length === 0) {
+    return { isValid: false, errors: [...errors, 'Constitution defines no laws'] };
+  }
+
+  const lawKeys = Object.keys(constitution.laws);
+  const lawStructure = schema.validation.law_structure;
+  for (const key of lawKeys) {
+    const law = constitution.laws[key];
+    if (!isObject(law)) {
+      errors.push(`Invalid law: ${key}`);
+      continue;
+    }
+
+    for (const field of lawStructure.required) {
+      if (law[field] === undefined) {
+        errors.push(`Law ${key} is missing required field: ${field}`);
+      }
+    }
+    for (const field of ['id', 'name', 'primary_sentence']) {
+      if (law[field] !== undefined && typeof law[field] !== 'string') {
+        errors.push(`Law ${key} has an invalid ${field}`);
+      }
+    }
+    if (law.order !== undefined && !(Number.isInteger(law.order) && law.order > 0)) {
+      errors.push(`Law ${key} has an invalid order`);
+    }
+    if (schema.validation.parameter_format === 'array_of_strings' &&
+        law.defining_parameters !== undefined && !isStringArray(law.defining_parameters)) {
+      errors.push(`Law ${key} parameters must be an array of strings`);
+    }
+    for (const field of ['keywords', 'conflicts_with', 'protects', 'references_laws']) {
+      if (law[field] !== undefined && !isStringArray(law[field])) {
+        errors.push(`Law ${key} has an invalid ${field}`);
+      }
+    }
+    for (const reference of [...(law.references_laws ?? []), ...(law.conflicts_with ?? [])]) {
+      if (typeof reference === 'string' && !lawKeys.includes(reference)) {
+        errors.push(`Law ${key} refers to an unknown law: ${reference}`);
+      }
+    }
+  }
+
+  const precedence = constitution.hierarchy?.precedence_order;
+  if (!isStringArray(precedence) ||
+      precedence.length !== lawKeys.length ||
+      new Set(precedence).size !== precedence.length ||
+      precedence.some(key => !lawKeys.includes(key))) {
+    errors.push('Hierarchy precedence order must list every law exactly once');
+  } else if (schema.validation.precedence_validation === 'order_field_must_match_hierarchy') {
+    precedence.forEach((key, index) => {
+      if (constitution.laws[key]?.order !== index + 1) {
+        errors.push(`Law ${key} order does not match the hierarchy`);
+      }
+    });
+  }
+
+  const metaClause = constitution.meta_clause;
+  if (metaClause !== undefined &&
+      (!isObject(metaClause) ||
+       typeof metaClause.name !== 'string' ||
+       typeof metaClause.primary_sentence !== 'string' ||
+       !isStringArray(metaClause.defining_parameters))) {
+    errors.push('Invalid meta clause');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Load a constitution from a document or its JSON or YAML text
+ *
+ * `lawsHash` is the hash of the canonical document, so the JSON and YAML
+ * forms of a constitution hash the same.
+ */
+export function loadConstitution(source: string | object, format?: 'json' | 'yaml'): LoadedConstitution {
+  const document = typeof source === 'string' ? parseConstitutionDocument(source, format) : source;
+
+  const validation = validateConstitutionDocument(document);
+  if (!validation.isValid) {
+    throw new Error(`Invalid constitution document: ${validation.errors.join('; ')}`);
+  }
+
+  const { constitution } = document as ConstitutionDocument;
+  const laws: ConstitutionalLaws = {};
+  const lawMetadata: Record<string, LawMetadata> = {};
+  for (const [key, law] of Object.entries(constitution.laws)) {
+    laws[key] = {
+      name: law.name,
+      principle: law.primary_sentence,
+      parameters: law.defining_parameters,
+    };
+    lawMetadata[key] = {
+      id: law.id,
+      order: law.order,
+      keywords: law.keywords ?? [],
+      enforcementPriority: law.enforcement_priority,
+      conflictsWith: law.conflicts_with ?? [],
+      protects: law.protects ?? [],
+      referencesLaws: law.references_laws ?? [],
+    };
+  }
+
+  const metaClause = constitution.meta_clause;
+  return {
+    name: constitution.name,
+    version: constitution.version,
+    formatVersion: constitution.format_version,
+    laws,
+    lawMetadata,
+    metaClause: metaClause && {
+      id: metaClause.id,
+      name: metaClause.name,
+      principle: metaClause.primary_sentence,
+      parameters: metaClause.defining_parameters,
+      keywords: metaClause.keywords ?? [],
+      triggers: metaClause.triggers ?? [],
+      enforcementPriority: metaClause.enforcement_priority,
+    },
+    precedence: constitution.hierarchy.precedence_order,
+    document: document as ConstitutionDocument,
+    lawsHash: generateHash(canonicalize(document)),
+  };
+}
+
+/**
+ * Extend a loaded constitution with further laws, e.g. organization-specific
+ * ones, as a new constitution
+ *
+ * The new laws take the lowest precedence, in the order given.
+ */
+export function extendConstitution(
+  base: LoadedConstitution,
+  extension: {
+    name: string;
+    version: string;
+    laws: Record<string, ConstitutionExtensionLaw>;
+  }
+): LoadedConstitution {
+  const { constitution, schema } = base.document;
+  const laws: Record<string, ConstitutionDocumentLaw> = { ...constitution.laws };
+  const precedence = [...constitution.hierarchy.precedence_order];
+
+  for (const [key, law] of Object.entries(extension.laws)) {
+    if (laws[key]) {
+      throw new Error(`Constitution already defines ${key}`);
+    }
+    precedence.push(key);
+    laws[key] = { ...law, order: precedence.length };
+  }
+
+  return loadConstitution({
+    constitution: {
+      ...constitution,
+      name: extension.name,
+      version: extension.version,
+      laws,
+      hierarchy: { ...constitution.hierarchy, precedence_order: precedence },
+    },
+    schema,
+  });
+}
+
+/**
+ * Keys of the laws of plain laws or a loaded constitution, highest
+ * precedence first where the constitution defines one
+ */
+export function getLawKeys(laws: ConstitutionalLaws | LoadedConstitution): string[] {
+  return isLoadedConstitution(laws) ? laws.precedence : Object.keys(laws);
+}
+
+/**
+ * Load a constitution from a `.json`, `.yaml` or `.yml` file
+ */
+export async function loadConstitutionFile(path: string): Promise<LoadedConstitution> {
+  const text = await readFile(path, 'utf8');
+  return loadConstitution(text, /\.ya?ml$/i.test(path) ? 'yaml' : 'json');
+}
+
+/**
+ * Hash committed to for a set of laws
+ *
+ * A loaded constitution commits to its canonical document; plain laws to
+ * their own canonical form.
+ */
+export function getLawsHash(laws: ConstitutionalLaws | LoadedConstitution): string {
+  return isLoadedConstitution(laws) ? laws.lawsHash : generateHash(canonicalize(laws));
+}
+
+/**
+ * Whether `laws` is a loaded constitution rather than plain laws
+ */
+export function isLoadedConstitution(laws: ConstitutionalLaws | LoadedConstitution): laws is LoadedConstitution {
+  return 'document' in laws && 'lawsHash' in laws;
+}
+
+/**
+ * Version identifier of a loaded constitution
+ */
+export function getConstitutionVersion(constitution: LoadedConstitution): ConstitutionVersion {
+  return {
+    name: constitution.name,
+    version: constitution.version,
+    lawsHash: constitution.lawsHash,
+  };
+}
+
+/**
+ * Compare two dotted version strings, numerically where both parts are
+ * numbers
+ *
+ * Returns a negative number if `a` is earlier, positive if later, 0 if equal.
+ */
+export function compareConstitutionVersions(a: string, b: string): number {
+  const partsA = a.split('.');
+  const partsB = b.split('.');
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const partA = partsA[i] ?? '0';
+    const partB = partsB[i] ?? '0';
+    const difference = /^\d+$/.test(partA) && /^\d+$/.test(partB)
+      ? Number(partA) - Number(partB)
+      : partA.localeCompare(partB);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * The canonical bytes a constitution's maintainers sign to approve an
+ * amendment
+ */
+export function getAmendmentPayload(amendment: Omit<ConstitutionAmendment, 'approval'>): string {
+  return canonicalize({
+    from: amendment.from,
+    to: amendment.to,
+    backwardCompatible: amendment.backwardCompatible,
+    description: amendment.description,
+    timestamp: amendment.timestamp,
+  });
+}
+
+/**
+ * Verify an amendment against the verifier's policy for the constitution's
+ * maintainers
+ *
+ * The amendment must move one constitution to a later version.
+ */
+export async function verifyConstitutionAmendment(
+  amendment: ConstitutionAmendment,
+  policy: QuorumPolicy
+): Promise<boolean> {
+  if (amendment.from.name !== amendment.to.name ||
+      compareConstitutionVersions(amendment.to.version, amendment.from.version) <= 0 ||
+      amendment.to.lawsHash === amendment.from.lawsHash) {
+    return false;
+  }
+  return await verifyMultiSignature(getAmendmentPayload(amendment), amendment.approval, policy);
+}
+
+/**
+ * Whether backward-compatible amendments lead from `earlier` to `later`
+ *
+ * `amendments` must already have been verified.
+ */
+export function isCompatibleThroughAmendments(
+  later: ConstitutionVersion,
+  earlier: ConstitutionVersion,
+  amendments: ConstitutionAmendment[]
+): boolean {
+  let current = later;
+  // Each step moves to a strictly earlier version, so this terminates
+  while (!isSameVersion(current, earlier)) {
+    const step = amendments.find(amendment =>
+      amendment.backwardCompatible && isSameVersion(amendment.to, current) &&
+      compareConstitutionVersions(amendment.from.version, current.version) < 0
+    );
+    if (!step) {
+      return false;
+    }
+    current = step.from;
+  }
+  return true;
+}
+
+/**
+ * Constitution versions a commitment satisfies: the version it commits to,
+ * then those it declares compatibility with
+ *
+ * Commitments to plain laws declare no version. With `amendments`, only
+ * compatibility they back is counted.
+ */
+export function getCommitmentConstitutionVersions(
+  commitment: ConstitutionalCommitment,
+  amendments?: ConstitutionAmendment[]
+): ConstitutionVersion[] {
+  if (!commitment.constitution) {
+    return [];
+  }
+
+  const committed: ConstitutionVersion = { ...commitment.constitution, lawsHash: commitment.lawsHash };
+  const compatible = (commitment.compatibleWith ?? []).filter(version =>
+    version.name === committed.name &&
+    (!amendments || isCompatibleThroughAmendments(committed, version, amendments))
+  );
+  return [committed, ...compatible];
+}
+
+/**
+ * Latest constitution version both commitments satisfy, or null if they
+ * share none
+ */
+export function getSharedConstitutionVersion(
+  a: ConstitutionalCommitment,
+  b: ConstitutionalCommitment,
+  amendments?: ConstitutionAmendment[]
+): ConstitutionVersion | null {
+  const versionsB = getCommitmentConstitutionVersions(b, amendments);
+  const shared = getCommitmentConstitutionVersions(a, amendments)
+    .filter(version => versionsB.some(candidate => isSameVersion(candidate, version)))
+    .sort((x, y) => compareConstitutionVersions(y.version, x.version));
+  return shared[0] ?? null;
+}
+
+function isSameVersion(a: ConstitutionVersion, b: ConstitutionVersion): boolean {
+  return a.name === b.name && a.version === b.version && a.lawsHash === b.lawsHash;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -4,12 +4,82 @@
  * Provides cryptographic functions for the CHP protocol
  */
 
+import { createHash } from 'crypto';
+import { toHex, fromHex, toBase64Url, fromBase64Url, toArrayBuffer } from './encoding';
+import { DEFAULT_SIGNATURE_SUITE_ID, getSignatureSuite, resolveSignatureSuite } from './signature-suites';
+import { getKeyAgreementAlgorithm, getKeyAgreementParams, getAgreementKeyAlgorithm, importAgreementPublicKey, toAgreementPrivateKey, KeyAgreementAlgorithm, KEY_AGREEMENT_ALGORITHMS } from './key-agreement';
+import { PublicKeyInfo, EncryptedEnvelope } from '../types/crypto';
+import { ConsistencyProof } from '../types/attestation';
+
+/**
+ * Supported digest algorithms
+ */
+export type HashAlgorithm = 'sha-256' | 'sha-384' | 'sha-512';
+
+/**
+ * Algorithm used when none is specified
+ */
+export const DEFAULT_HASH_ALGORITHM: HashAlgorithm = 'sha-256';
+
+/**
+ * Multihash function codes and digest lengths for each algorithm
+ */
+const MULTIHASH_CODES: Record<HashAlgorithm, { code: number; length: number; webCrypto: string; node: string }> = {
+  'sha-256': { code: 0x12, length: 32, webCrypto: 'SHA-256', node: 'sha256' },
+  'sha-384': { code: 0x20, length: 48, webCrypto: 'SHA-384', node: 'sha384' },
+  'sha-512': { code: 0x13, length: 64, webCrypto: 'SHA-512', node: 'sha512' },
+};
+
+/**
+ * Compute a raw SHA-2 digest with Node's crypto module
+ */
+function digestBytes(algorithm: HashAlgorithm, message: Uint8Array | string): Uint8Array {
+  const entry = MULTIHASH_CODES[algorithm];
+  if (!entry) {
+    throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+  }
+  return new Uint8Array(createHash(entry.node).update(message).digest());
+}
+
+/**
+ * Prefix a raw digest with its multihash code and length
+ */
+function encodeMultihash(algorithm: HashAlgorithm, digestBytes: Uint8Array): string {
+  const { code, length } = MULTIHASH_CODES[algorithm];
+  return toHex(new Uint8Array([code, length])) + toHex(digestBytes);
+}
+
+/**
+ * Generate a hash of the input data
+ *
+ * Returns a hex multihash: one byte of function code, one byte of digest
+ * length, then the digest itself (e.g. `1220...` for SHA-256).
+ */
+export function generateHash(data: string, algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): string {
+  return encodeMultihash(algorithm, digestBytes(algorithm, data));
+}
+
+/**
+ * Generate a hash of the input data using the Web Crypto API
+ *
+ * Produces the same multihash as `generateHash`.
+ */
+export async function digest(data: string, algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): Promise<string> {
+  const entry = MULTIHASH_CODES[algorithm];
+  if (!entry) {
+    throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+  }
+  const buffer = await crypto.subtle.digest(entry.webCrypto, new TextEncoder().encode(data));
+  return encodeMultihash(algorithm, new Uint8Array(buffer));
+}
+
 /**
- * Generate a SHA-256 hash of the input data
+ * Generate a legacy 32-bit string hash
+ *
+ * @deprecated Only used to verify data hashed before the move to SHA-2.
+ * Collisions are trivial to find, so new data must never be hashed with it.
  */
-export function generateHash(data: string): string {
-  // In a real implementation, this would use the Web Crypto API
-  // For now, we'll use a simple hash function
+export function generateLegacyHash(data: string): string {
   let hash = 0;
   for (let i = 0; i < data.length; i++) {
     const char = data.charCodeAt(i);
@@ -19,48 +89,150 @@ export function generateHash(data: string): string {
   return hash.toString(16);
 }
 
+/**
+ * Generate the root of the legacy Merkle tree, which hashed concatenated
+ * children with the legacy hash and duplicated an odd last node
+ *
+ * @deprecated Only used to verify chains exported before the move to
+ * RFC 6962 trees. Different leaf lists can share a root.
+ */
+export function generateLegacyMerkleRoot(leaves: string[]): string {
+  if (leaves.length <= 1) {
+    return leaves[0] ?? '';
+  }
+
+  const nextLevel: string[] = [];
+  for (let i = 0; i < leaves.length; i += 2) {
+    nextLevel.push(generateLegacyHash(leaves[i] + (leaves[i + 1] ?? leaves[i])));
+  }
+  return generateLegacyMerkleRoot(nextLevel);
+}
+
+/**
+ * Identify the algorithm behind a hash produced by this module
+ *
+ * Returns `'legacy'` for pre-SHA-2 hashes and `null` for anything else.
+ */
+export function getHashAlgorithm(hash: string): HashAlgorithm | 'legacy' | null {
+  if (typeof hash !== 'string') {
+    return null;
+  }
+
+  for (const [algorithm, { code, length }] of Object.entries(MULTIHASH_CODES)) {
+    const prefix = toHex(new Uint8Array([code, length]));
+    if (hash.length === 4 + length * 2 && hash.startsWith(prefix) && /^[0-9a-f]+$/.test(hash)) {
+      return algorithm as HashAlgorithm;
+    }
+  }
+
+  return /^-?[0-9a-f]{1,8}$/.test(hash) ? 'legacy' : null;
+}
+
+/**
+ * Hash data with the same algorithm that produced `reference`
+ *
+ * Lets verifiers recompute digests during the migration window in which
+ * legacy and SHA-2 hashes coexist.
+ */
+export function generateMatchingHash(data: string, reference: string): string {
+  const algorithm = getHashAlgorithm(reference);
+  if (algorithm === 'legacy') {
+    return generateLegacyHash(data);
+  }
+  return generateHash(data, algorithm || DEFAULT_HASH_ALGORITHM);
+}
+
+/**
+ * Check that `hash` is a valid digest of `data` under any accepted algorithm
+ *
+ * Legacy hashes are rejected unless `allowLegacy` is set, which callers
+ * should only do for data known to predate the move to SHA-2.
+ */
+export function verifyHash(data: string, hash: string, allowLegacy: boolean = false): boolean {
+  const algorithm = getHashAlgorithm(hash);
+  if (algorithm === null || (algorithm === 'legacy' && !allowLegacy)) {
+    return false;
+  }
+  return generateMatchingHash(data, hash) === hash;
+}
+
 /**
  * Create a cryptographic signature
+ *
+ * The signature suite is chosen from the private key's algorithm.
  */
 export async function createSignature(data: string, privateKey: CryptoKey): Promise<string> {
   try {
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
-    
-    const signature = await crypto.subtle.sign(
-      {
-        name: 'ECDSA',
-        hash: 'SHA-256',
-      },
-      privateKey,
-      dataBuffer
-    );
-
-    // Convert ArrayBuffer to hex string
-    const signatureArray = new Uint8Array(signature);
-    return Array.from(signatureArray)
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
+    return await resolveSignatureSuite(privateKey).sign(data, privateKey);
   } catch (error) {
     console.error('Error creating signature:', error);
     throw new Error('Failed to create signature');
   }
 }
 
+/**
+ * Import a public key for signature verification
+ *
+ * Accepted encodings depend on the suite; every suite accepts a JWK (as a
+ * JSON string), the raw key (hex or base64url) and base64url SPKI.
+ */
+export async function importPublicKey(
+  publicKey: string,
+  suiteId: string = DEFAULT_SIGNATURE_SUITE_ID
+): Promise<CryptoKey> {
+  return await getSignatureSuite(suiteId).importPublicKey(publicKey);
+}
+
+/**
+ * Compute the short fingerprint of a public key
+ *
+ * The first 16 bytes of the SHA-256 digest of its SPKI encoding, in hex.
+ */
+export function generateKeyFingerprint(spki: string): string {
+  return toHex(digestBytes('sha-256', new Uint8Array(fromBase64Url(spki))).slice(0, 16));
+}
+
+/**
+ * Derive the public half of an extractable private key
+ */
+export async function derivePublicKey(privateKey: CryptoKey): Promise<CryptoKey> {
+  return await resolveSignatureSuite(privateKey).derivePublicKey(privateKey);
+}
+
+/**
+ * Export a public key as JWK, base64url SPKI and fingerprint
+ */
+export async function exportPublicKey(publicKey: CryptoKey): Promise<PublicKeyInfo> {
+  const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', publicKey);
+  const spki = toBase64Url(new Uint8Array(await crypto.subtle.exportKey('spki', publicKey)));
+
+  return {
+    jwk: y === undefined ? { kty, crv, x } : { kty, crv, x, y },
+    spki,
+    fingerprint: generateKeyFingerprint(spki),
+  };
+}
+
 /**
  * Verify a cryptographic signature
+ *
+ * `signature` is the hex encoding produced by `createSignature`; `publicKey`
+ * may be in any encoding accepted by `importPublicKey` for the suite.
  */
 export async function verifySignature(
   data: string,
   signature: string,
-  publicKey: string
+  publicKey: string,
+  suiteId: string = DEFAULT_SIGNATURE_SUITE_ID
 ): Promise<boolean> {
   try {
-    // In a real implementation, this would use the Web Crypto API
-    // For now, we'll use a placeholder verification
-    // Note: data parameter would be used in real implementation
-    console.log('Verifying signature for data:', data.substring(0, 20) + '...');
-    return signature.length > 0 && publicKey.length > 0;
+    if (!signature || !publicKey) {
+      return false;
+    }
+
+    const suite = getSignatureSuite(suiteId);
+    const key = await suite.importPublicKey(publicKey);
+    return await suite.verify(data, signature, key);
   } catch (error) {
     console.error('Error verifying signature:', error);
     return false;
@@ -77,111 +249,442 @@ export function generateNonce(): string {
 }
 
 /**
- * Generate a Merkle tree root hash
+ * Domain separation prefixes from RFC 6962, so a leaf can never be passed
+ * off as an interior node or vice versa
  */
-export function generateMerkleRoot(leaves: string[]): string {
-  if (leaves.length === 0) {
-    return '';
+const MERKLE_LEAF_PREFIX = 0x00;
+const MERKLE_NODE_PREFIX = 0x01;
+
+/**
+ * A sibling hash on the path from a leaf to the Merkle root
+ */
+export interface MerklePathStep {
+  hash: string;
+  position: 'left' | 'right';
+}
+
+/**
+ * Hash `prefix || bytes` and return the result as a multihash
+ */
+function hashPrefixed(prefix: number, bytes: Uint8Array, algorithm: HashAlgorithm): string {
+  const message = new Uint8Array(bytes.length + 1);
+  message[0] = prefix;
+  message.set(bytes, 1);
+  return encodeMultihash(algorithm, digestBytes(algorithm, message));
+}
+
+/**
+ * Raw digest bytes of a multihash, without the code and length prefix
+ */
+function multihashDigest(hash: string, algorithm: HashAlgorithm): Uint8Array {
+  if (getHashAlgorithm(hash) !== algorithm) {
+    throw new Error(`Merkle node is not a ${algorithm} hash`);
   }
-  
-  if (leaves.length === 1) {
-    return leaves[0];
+  return new Uint8Array(fromHex(hash.slice(4)));
+}
+
+/**
+ * Leaf hash: H(0x00 || leaf)
+ */
+function hashMerkleLeaf(leaf: string, algorithm: HashAlgorithm): string {
+  return hashPrefixed(MERKLE_LEAF_PREFIX, new TextEncoder().encode(leaf), algorithm);
+}
+
+/**
+ * Interior node hash: H(0x01 || left || right), over the raw digests
+ */
+function hashMerkleNodes(left: string, right: string, algorithm: HashAlgorithm): string {
+  const leftDigest = multihashDigest(left, algorithm);
+  const rightDigest = multihashDigest(right, algorithm);
+  const children = new Uint8Array(leftDigest.length + rightDigest.length);
+  children.set(leftDigest);
+  children.set(rightDigest, leftDigest.length);
+  return hashPrefixed(MERKLE_NODE_PREFIX, children, algorithm);
+}
+
+/**
+ * Largest power of two strictly less than `n` (n > 1)
+ */
+function merkleSplit(n: number): number {
+  let k = 1;
+  while (k * 2 < n) {
+    k *= 2;
   }
+  return k;
+}
 
-  const nextLevel: string[] = [];
-  for (let i = 0; i < leaves.length; i += 2) {
-    const left = leaves[i];
-    const right = leaves[i + 1] || left; // If odd number, duplicate the last leaf
-    nextLevel.push(generateHash(left + right));
+/**
+ * Merkle Tree Hash over already-hashed leaves (RFC 6962 section 2.1)
+ */
+function merkleTreeHash(leafHashes: string[], algorithm: HashAlgorithm): string {
+  if (leafHashes.length === 1) {
+    return leafHashes[0];
   }
+  const k = merkleSplit(leafHashes.length);
+  return hashMerkleNodes(
+    merkleTreeHash(leafHashes.slice(0, k), algorithm),
+    merkleTreeHash(leafHashes.slice(k), algorithm),
+    algorithm
+  );
+}
+
+/**
+ * Audit path for leaf `index`, ordered from the leaf up to the root
+ */
+function merkleAuditPath(leafHashes: string[], index: number, algorithm: HashAlgorithm): MerklePathStep[] {
+  if (leafHashes.length <= 1) {
+    return [];
+  }
+  const k = merkleSplit(leafHashes.length);
+  if (index < k) {
+    return [
+      ...merkleAuditPath(leafHashes.slice(0, k), index, algorithm),
+      { hash: merkleTreeHash(leafHashes.slice(k), algorithm), position: 'right' },
+    ];
+  }
+  return [
+    ...merkleAuditPath(leafHashes.slice(k), index - k, algorithm),
+    { hash: merkleTreeHash(leafHashes.slice(0, k), algorithm), position: 'left' },
+  ];
+}
 
-  return generateMerkleRoot(nextLevel);
+/**
+ * Generate a Merkle tree root hash
+ *
+ * Follows RFC 6962: leaves and interior nodes are hashed with distinct
+ * prefixes and an odd node is promoted rather than duplicated, so no two
+ * different leaf lists share a root. The root of an empty tree is the hash
+ * of the empty string.
+ */
+export function generateMerkleRoot(leaves: string[], algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): string {
+  if (leaves.length === 0) {
+    return generateHash('', algorithm);
+  }
+  return merkleTreeHash(leaves.map(leaf => hashMerkleLeaf(leaf, algorithm)), algorithm);
 }
 
 /**
- * Create a Merkle proof
+ * Create a Merkle inclusion proof
  */
-export function createMerkleProof(leaves: string[], index: number): {
+export function createMerkleProof(leaves: string[], index: number, algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): {
   leaf: string;
-  path: Array<{ hash: string; position: 'left' | 'right' }>;
+  path: MerklePathStep[];
   root: string;
+  index: number;
+  treeSize: number;
 } {
-  const leaf = leaves[index];
-  const path: Array<{ hash: string; position: 'left' | 'right' }> = [];
-  
-  let currentLevel = [...leaves];
-  let currentIndex = index;
-  const root = generateMerkleRoot(leaves);
+  if (!Number.isInteger(index) || index < 0 || index >= leaves.length) {
+    throw new Error(`Leaf index ${index} is outside a tree of size ${leaves.length}`);
+  }
+
+  const leafHashes = leaves.map(leaf => hashMerkleLeaf(leaf, algorithm));
 
-  while (currentLevel.length > 1) {
-    if (currentLevel.length % 2 === 1) {
-      currentLevel.push(currentLevel[currentLevel.length - 1]);
+  return {
+    leaf: leaves[index],
+    path: merkleAuditPath(leafHashes, index, algorithm),
+    root: merkleTreeHash(leafHashes, algorithm),
+    index,
+    treeSize: leaves.length,
+  };
+}
+
+/**
+ * Verify a Merkle inclusion proof (RFC 9162 section 2.1.3.2)
+ *
+ * The shape of the path is fully determined by `index` and `treeSize`, so a
+ * proof whose length or sibling positions disagree with them is rejected.
+ * Interior nodes are recomputed with the algorithm of the root. Proofs
+ * against legacy roots are rejected unless `allowLegacy` is set.
+ */
+export function verifyMerkleProof(proof: {
+  leaf: string;
+  path: MerklePathStep[];
+  root: string;
+  index: number;
+  treeSize: number;
+}, allowLegacy: boolean = false): boolean {
+  try {
+    const { index, treeSize } = proof;
+    if (!Number.isInteger(index) || !Number.isInteger(treeSize) || index < 0 || index >= treeSize) {
+      return false;
     }
 
-    const nextLevel: string[] = [];
-    for (let i = 0; i < currentLevel.length; i += 2) {
-      const left = currentLevel[i];
-      const right = currentLevel[i + 1];
-      nextLevel.push(generateHash(left + right));
+    const algorithm = getHashAlgorithm(proof.root);
+    if (algorithm === 'legacy' && allowLegacy) {
+      return verifyLegacyMerkleProof(proof);
     }
+    if (algorithm === null || algorithm === 'legacy') {
+      return false;
+    }
+
+    let fn = index;
+    let sn = treeSize - 1;
+    let currentHash = hashMerkleLeaf(proof.leaf, algorithm);
 
-    // Add sibling to path
-    const siblingIndex = currentIndex % 2 === 0 ? currentIndex + 1 : currentIndex - 1;
-    if (siblingIndex < currentLevel.length) {
-      path.push({
-        hash: currentLevel[siblingIndex],
-        position: currentIndex % 2 === 0 ? 'right' : 'left',
-      });
+    for (const step of proof.path) {
+      if (sn === 0) {
+        return false;
+      }
+
+      if (fn % 2 === 1 || fn === sn) {
+        if (step.position !== 'left') {
+          return false;
+        }
+        currentHash = hashMerkleNodes(step.hash, currentHash, algorithm);
+        if (fn % 2 === 0) {
+          while (fn % 2 === 0 && fn !== 0) {
+            fn = Math.floor(fn / 2);
+            sn = Math.floor(sn / 2);
+          }
+        }
+      } else {
+        if (step.position !== 'right') {
+          return false;
+        }
+        currentHash = hashMerkleNodes(currentHash, step.hash, algorithm);
+      }
+
+      fn = Math.floor(fn / 2);
+      sn = Math.floor(sn / 2);
     }
 
-    currentLevel = nextLevel;
-    currentIndex = Math.floor(currentIndex / 2);
+    return sn === 0 && currentHash === proof.root;
+  } catch (error) {
+    console.error('Error verifying Merkle proof:', error);
+    return false;
   }
-
-  return { leaf, path, root };
 }
 
 /**
- * Verify a Merkle proof
+ * Verify an inclusion proof against a legacy Merkle root
+ *
+ * The legacy tree did not fix the path's shape, so only the positions in
+ * the path are followed.
  */
-export function verifyMerkleProof(proof: {
-  leaf: string;
-  path: Array<{ hash: string; position: 'left' | 'right' }>;
-  root: string;
-}): boolean {
+function verifyLegacyMerkleProof(proof: { leaf: string; path: MerklePathStep[]; root: string }): boolean {
   let currentHash = proof.leaf;
-
   for (const step of proof.path) {
-    if (step.position === 'left') {
-      currentHash = generateHash(step.hash + currentHash);
-    } else {
-      currentHash = generateHash(currentHash + step.hash);
+    currentHash = step.position === 'left'
+      ? generateLegacyHash(step.hash + currentHash)
+      : generateLegacyHash(currentHash + step.hash);
+  }
+  return currentHash === proof.root;
+}
+
+/**
+ * Consistency proof nodes for the first `m` leaves (RFC 6962 section 2.1.2)
+ */
+function merkleSubproof(m: number, leafHashes: string[], complete: boolean, algorithm: HashAlgorithm): string[] {
+  const n = leafHashes.length;
+  if (m === n) {
+    return complete ? [] : [merkleTreeHash(leafHashes, algorithm)];
+  }
+  const k = merkleSplit(n);
+  if (m <= k) {
+    return [
+      ...merkleSubproof(m, leafHashes.slice(0, k), complete, algorithm),
+      merkleTreeHash(leafHashes.slice(k), algorithm),
+    ];
+  }
+  return [
+    ...merkleSubproof(m - k, leafHashes.slice(k), false, algorithm),
+    merkleTreeHash(leafHashes.slice(0, k), algorithm),
+  ];
+}
+
+/**
+ * Create a proof that the tree over `leaves` extends the tree over its
+ * first `oldSize` leaves
+ */
+export function createMerkleConsistencyProof(
+  leaves: string[],
+  oldSize: number,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM
+): ConsistencyProof {
+  if (!Number.isInteger(oldSize) || oldSize < 0 || oldSize > leaves.length) {
+    throw new Error(`Old tree size ${oldSize} is outside a tree of size ${leaves.length}`);
+  }
+
+  const leafHashes = leaves.map(leaf => hashMerkleLeaf(leaf, algorithm));
+  const path = oldSize === 0 || oldSize === leaves.length
+    ? []
+    : merkleSubproof(oldSize, leafHashes, true, algorithm);
+
+  return {
+    oldSize,
+    newSize: leaves.length,
+    oldRoot: generateMerkleRoot(leaves.slice(0, oldSize), algorithm),
+    newRoot: generateMerkleRoot(leaves, algorithm),
+    path,
+  };
+}
+
+/**
+ * Verify a Merkle consistency proof (RFC 9162 section 2.1.4.2)
+ *
+ * Succeeds only if `oldRoot` is the root of the first `oldSize` leaves of
+ * the tree with root `newRoot`, i.e. nothing before `oldSize` was changed.
+ */
+export function verifyMerkleConsistencyProof(proof: ConsistencyProof): boolean {
+  try {
+    const { oldSize, newSize, oldRoot, newRoot, path } = proof;
+    if (!Number.isInteger(oldSize) || !Number.isInteger(newSize) || oldSize < 0 || oldSize > newSize) {
+      return false;
+    }
+
+    const algorithm = getHashAlgorithm(newRoot);
+    if (algorithm === null || algorithm === 'legacy' || getHashAlgorithm(oldRoot) !== algorithm) {
+      return false;
+    }
+
+    if (oldSize === newSize) {
+      return path.length === 0 && oldRoot === newRoot;
+    }
+    if (oldSize === 0) {
+      return path.length === 0 && oldRoot === generateHash('', algorithm);
+    }
+
+    // A power-of-two old tree is a complete subtree, so its root is omitted
+    const nodes = (oldSize & (oldSize - 1)) === 0 ? [oldRoot, ...path] : path;
+    if (nodes.length === 0) {
+      return false;
+    }
+
+    let fn = oldSize - 1;
+    let sn = newSize - 1;
+    while (fn % 2 === 1) {
+      fn = Math.floor(fn / 2);
+      sn = Math.floor(sn / 2);
     }
+
+    let oldHash = nodes[0];
+    let newHash = nodes[0];
+
+    for (const node of nodes.slice(1)) {
+      if (sn === 0) {
+        return false;
+      }
+
+      if (fn % 2 === 1 || fn === sn) {
+        oldHash = hashMerkleNodes(node, oldHash, algorithm);
+        newHash = hashMerkleNodes(node, newHash, algorithm);
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      } else {
+        newHash = hashMerkleNodes(newHash, node, algorithm);
+      }
+
+      fn = Math.floor(fn / 2);
+      sn = Math.floor(sn / 2);
+    }
+
+    return sn === 0 && oldHash === oldRoot && newHash === newRoot;
+  } catch (error) {
+    console.error('Error verifying Merkle consistency proof:', error);
+    return false;
   }
+}
 
-  return currentHash === proof.root;
+/**
+ * Current encryption envelope version
+ */
+const ENVELOPE_VERSION = 1;
+
+/**
+ * Bytes authenticated alongside an envelope's ciphertext
+ *
+ * Covers every header field, so none of them can be swapped after sealing.
+ */
+function envelopeAdditionalData(envelope: Omit<EncryptedEnvelope, 'iv' | 'ciphertext'>): ArrayBuffer {
+  return toArrayBuffer(new TextEncoder().encode(JSON.stringify([
+    envelope.version,
+    envelope.algorithm,
+    envelope.recipientKeyId,
+    envelope.ephemeralPublicKey,
+    envelope.associatedData ?? null,
+  ])));
 }
 
 /**
- * Encrypt data with a public key
+ * Derive the AES-256-GCM content key from an ECDH/X25519 shared secret
  */
-export async function encrypt(data: string, publicKey: CryptoKey): Promise<string> {
+async function deriveContentKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  algorithm: KeyAgreementAlgorithm,
+  header: Omit<EncryptedEnvelope, 'iv' | 'ciphertext'>,
+  usage: 'encrypt' | 'decrypt'
+): Promise<CryptoKey> {
+  const params = getKeyAgreementParams(algorithm);
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: params.name, public: publicKey },
+    privateKey,
+    256
+  );
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(fromBase64Url(header.ephemeralPublicKey)),
+      info: new TextEncoder().encode(`CHP-ENVELOPE-v${header.version}|${header.algorithm}|${header.recipientKeyId}`),
+    },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Encrypt data to a constitutional identity's published public key
+ *
+ * Uses an ephemeral ECDH (P-256) or X25519 key, matching the recipient's
+ * signature suite, with HKDF-SHA256 and AES-256-GCM. `associatedData` travels
+ * in the clear but is authenticated with the ciphertext.
+ */
+export async function encrypt(
+  data: string,
+  recipientPublicKey: string,
+  options: { signatureSuite?: string; associatedData?: string } = {}
+): Promise<EncryptedEnvelope> {
   try {
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
-    
-    const encrypted = await crypto.subtle.encrypt(
-      {
-        name: 'RSA-OAEP',
-      },
-      publicKey,
-      dataBuffer
+    const signatureSuite = options.signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID;
+    const agreement = getKeyAgreementAlgorithm(signatureSuite);
+    const recipientKey = await importAgreementPublicKey(recipientPublicKey, signatureSuite);
+    const { fingerprint } = await exportPublicKey(await importPublicKey(recipientPublicKey, signatureSuite));
+
+    const ephemeral = await crypto.subtle.generateKey(
+      getKeyAgreementParams(agreement),
+      true,
+      ['deriveBits']
+    ) as CryptoKeyPair;
+    const ephemeralRaw = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+    const header = {
+      version: ENVELOPE_VERSION as 1,
+      algorithm: `${agreement}+HKDF-SHA256+A256GCM`,
+      recipientKeyId: fingerprint,
+      ephemeralPublicKey: toBase64Url(ephemeralRaw),
+      associatedData: options.associatedData,
+    };
+
+    const contentKey = await deriveContentKey(ephemeral.privateKey, recipientKey, agreement, header, 'encrypt');
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: envelopeAdditionalData(header) },
+      contentKey,
+      new TextEncoder().encode(data)
     );
 
-    const encryptedArray = new Uint8Array(encrypted);
-    return Array.from(encryptedArray)
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
+    return {
+      ...header,
+      iv: toBase64Url(iv),
+      ciphertext: toBase64Url(new Uint8Array(ciphertext)),
+    };
   } catch (error) {
     console.error('Error encrypting data:', error);
     throw new Error('Failed to encrypt data');
@@ -189,28 +692,58 @@ export async function encrypt(data: string, publicKey: CryptoKey): Promise<strin
 }
 
 /**
- * Decrypt data with a private key
+ * Decrypt an envelope with the recipient identity's private key
+ *
+ * When `expectedAssociatedData` is given it must match the envelope's.
  */
-export async function decrypt(encryptedData: string, privateKey: CryptoKey): Promise<string> {
+export async function decrypt(
+  envelope: EncryptedEnvelope | string,
+  privateKey: CryptoKey,
+  expectedAssociatedData?: string
+): Promise<string> {
   try {
-    // Convert hex string to ArrayBuffer
-    const encryptedArray = new Uint8Array(
-      encryptedData.match(/.{2}/g)!.map(byte => parseInt(byte, 16))
+    const parsed: EncryptedEnvelope = typeof envelope === 'string' ? JSON.parse(envelope) : envelope;
+
+    if (parsed.version !== ENVELOPE_VERSION) {
+      throw new Error(`Unsupported envelope version: ${parsed.version}`);
+    }
+    if (expectedAssociatedData !== undefined && parsed.associatedData !== expectedAssociatedData) {
+      throw new Error('Associated data mismatch');
+    }
+
+    const agreement = KEY_AGREEMENT_ALGORITHMS.find(name => parsed.algorithm === `${name}+HKDF-SHA256+A256GCM`);
+    if (!agreement) {
+      throw new Error(`Unsupported envelope algorithm: ${parsed.algorithm}`);
+    }
+
+    // The envelope must use the recipient key's own agreement algorithm
+    const agreementKey = await toAgreementPrivateKey(privateKey);
+    if (getAgreementKeyAlgorithm(agreementKey) !== agreement) {
+      throw new Error(`Envelope algorithm does not match the recipient key: ${parsed.algorithm}`);
+    }
+
+    const ephemeralKey = await crypto.subtle.importKey(
+      'raw',
+      fromBase64Url(parsed.ephemeralPublicKey),
+      getKeyAgreementParams(agreement),
+      true,
+      []
     );
 
-    const decrypted = await crypto.subtle.decrypt(
+    const contentKey = await deriveContentKey(agreementKey, ephemeralKey, agreement, parsed, 'decrypt');
+    const plaintext = await crypto.subtle.decrypt(
       {
-        name: 'RSA-OAEP',
+        name: 'AES-GCM',
+        iv: fromBase64Url(parsed.iv),
+        additionalData: envelopeAdditionalData(parsed),
       },
-      privateKey,
-      encryptedArray
+      contentKey,
+      fromBase64Url(parsed.ciphertext)
     );
 
-    const decoder = new TextDecoder();
-    return decoder.decode(decrypted);
+    return new TextDecoder().decode(plaintext);
   } catch (error) {
     console.error('Error decrypting data:', error);
     throw new Error('Failed to decrypt data');
   }
 }
-
@@ -0,0 +1,138 @@
+/**
+ * Decentralized Identifiers
+ *
+ * DID document generation for two methods:
+ * - `did:chp:<identity ID>` names a constitutional identity. It survives
+ *   key rotation and is resolved through a registry.
+ * - `did:key:z<multibase key>` is self-certifying. The document is derived
+ *   from the key alone.
+ */
+
+import { ConstitutionalCommitment } from '../types/constitutional';
+import { DIDDocument, DIDService } from '../types/did';
+import { exportPublicKey } from './crypto';
+import { toHex, toBase58, fromBase58, fromBase64Url } from './encoding';
+import { DEFAULT_SIGNATURE_SUITE_ID, ECDSA_P256_SUITE_ID, ED25519_SUITE_ID, getSignatureSuite } from './signature-suites';
+
+/**
+ * JSON-LD contexts of generated DID documents
+ */
+export const DID_CONTEXTS = ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'];
+
+/**
+ * Multicodec prefixes (as varints) of the public key types did:key supports
+ */
+const DID_KEY_CODECS: Record<string, number[]> = {
+  [ED25519_SUITE_ID]: [0xed, 0x01],
+  [ECDSA_P256_SUITE_ID]: [0x80, 0x24],
+};
+
+/**
+ * Split a DID or DID URL into its method, method-specific ID and fragment
+ *
+ * Returns null if `did` is not syntactically a DID.
+ */
+export function parseDID(did: string): { method: string; id: string; fragment?: string } | null {
+  const match = typeof did === 'string'
+    ? /^did:([a-z0-9]+):((?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2})+(?::(?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2})+)*)(?:#(.*))?$/.exec(did)
+    : null;
+  if (!match) {
+    return null;
+  }
+  return { method: match[1], id: match[2], fragment: match[3] };
+}
+
+/**
+ * The did:chp DID of the identity a commitment belongs to
+ */
+export function getChpDID(commitment: ConstitutionalCommitment): string {
+  return `did:chp:${commitment.identityId ?? commitment.id}`;
+}
+
+/**
+ * Build a DID document around a single key
+ */
+function buildDIDDocument(did: string, keyId: string, publicKeyJwk: JsonWebKey): DIDDocument {
+  const methodId = `${did}#${keyId}`;
+  return {
+    '@context': [...DID_CONTEXTS],
+    id: did,
+    verificationMethod: [{ id: methodId, type: 'JsonWebKey2020', controller: did, publicKeyJwk }],
+    authentication: [methodId],
+    assertionMethod: [methodId],
+  };
+}
+
+/**
+ * Generate the did:chp DID document for a commitment
+ *
+ * The document names the commitment's key and records the constitution
+ * hash. The commitment itself is not verified here; resolvers do that.
+ */
+export async function createDIDDocument(
+  commitment: ConstitutionalCommitment,
+  services: DIDService[] = []
+): Promise<DIDDocument> {
+  const suite = getSignatureSuite(commitment.signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID);
+  const { jwk, fingerprint } = await exportPublicKey(await suite.importPublicKey(commitment.publicKey));
+
+  const document = buildDIDDocument(getChpDID(commitment), fingerprint, jwk);
+  if (services.length > 0) {
+    document.service = services;
+  }
+  document.constitutionHash = commitment.lawsHash;
+  document.constitutionalCommitment = commitment.id;
+  return document;
+}
+
+/**
+ * Derive the did:key DID of a public key
+ *
+ * P-256 keys are encoded compressed, as the did:key method requires.
+ */
+export async function createDidKey(publicKey: string, signatureSuite: string = DEFAULT_SIGNATURE_SUITE_ID): Promise<string> {
+  const codec = DID_KEY_CODECS[signatureSuite];
+  if (!codec) {
+    throw new Error(`did:key does not support signature suite: ${signatureSuite}`);
+  }
+
+  const { jwk } = await exportPublicKey(await getSignatureSuite(signatureSuite).importPublicKey(publicKey));
+  const x = new Uint8Array(fromBase64Url(jwk.x!));
+  const rawKey = jwk.y === undefined
+    ? x
+    : new Uint8Array([0x02 | (new Uint8Array(fromBase64Url(jwk.y))[31] & 1), ...x]);
+
+  return `did:key:z${toBase58(new Uint8Array([...codec, ...rawKey]))}`;
+}
+
+/**
+ * Get the signature suite and SPKI public key behind a did:key DID
+ */
+export async function decodeDidKey(did: string): Promise<{ signatureSuite: string; publicKey: string }> {
+  const parsed = parseDID(did);
+  if (!parsed || parsed.method !== 'key' || !parsed.id.startsWith('z')) {
+    throw new Error('Invalid did:key');
+  }
+
+  const bytes = fromBase58(parsed.id.slice(1));
+  const signatureSuite = Object.keys(DID_KEY_CODECS).find(suiteId =>
+    DID_KEY_CODECS[suiteId].every((byte, i) => bytes[i] === byte)
+  );
+  if (!signatureSuite) {
+    throw new Error('Unsupported did:key key type');
+  }
+
+  const rawKey = bytes.slice(DID_KEY_CODECS[signatureSuite].length);
+  const { spki } = await exportPublicKey(await getSignatureSuite(signatureSuite).importPublicKey(toHex(rawKey)));
+  return { signatureSuite, publicKey: spki };
+}
+
+/**
+ * Generate the DID document of a did:key DID
+ */
+export async function resolveDidKey(did: string): Promise<DIDDocument> {
+  const { signatureSuite, publicKey } = await decodeDidKey(did);
+  const { jwk } = await exportPublicKey(await getSignatureSuite(signatureSuite).importPublicKey(publicKey));
+  const { id } = parseDID(did)!;
+  return buildDIDDocument(`did:key:${id}`, id, jwk);
+}
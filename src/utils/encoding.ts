@@ -0,0 +1,132 @@
+/**
+ * Encoding Utilities
+ * 
+ * Byte/string conversions and big-integer arithmetic shared by the
+ * cryptographic utilities
+ */
+
+/**
+ * Convert bytes to a lowercase hex string
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Decode a hex string into bytes
+ */
+export function fromHex(hex: string): ArrayBuffer {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Encode bytes as unpadded base64url
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a base64 or base64url string into bytes
+ */
+export function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encode bytes as base58btc (the Bitcoin alphabet)
+ */
+export function toBase58(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let leadingZeros = 0;
+  while (leadingZeros < bytes.length && bytes[leadingZeros] === 0) {
+    leadingZeros++;
+  }
+  return '1'.repeat(leadingZeros) + digits.reverse().map(digit => BASE58_ALPHABET[digit]).join('');
+}
+
+/**
+ * Decode a base58btc string into bytes
+ */
+export function fromBase58(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const character of value) {
+    let carry = BASE58_ALPHABET.indexOf(character);
+    if (carry < 0) {
+      throw new Error('Invalid base58 string');
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  let leadingZeros = 0;
+  while (leadingZeros < value.length && value[leadingZeros] === '1') {
+    leadingZeros++;
+  }
+  return new Uint8Array([...new Array(leadingZeros).fill(0), ...bytes.reverse()]);
+}
+
+/**
+ * Modular exponentiation over big integers
+ */
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = BigInt(1);
+  base %= modulus;
+  while (exponent > BigInt(0)) {
+    if (exponent & BigInt(1)) {
+      result = (result * base) % modulus;
+    }
+    base = (base * base) % modulus;
+    exponent >>= BigInt(1);
+  }
+  return result;
+}
+
+/**
+ * Copy bytes into a standalone ArrayBuffer for Web Crypto calls
+ */
+export function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  const copy = new Uint8Array(bytes.length);
+  copy.set(bytes);
+  return copy.buffer;
+}
@@ -0,0 +1,92 @@
+/**
+ * JSON Web Signatures
+ *
+ * Compact JWS (RFC 7515) over the registered signature suites. Suite
+ * signatures are hex; JWS carries the same bytes base64url-encoded, which
+ * for ECDSA is already the `r || s` form ES256 requires.
+ */
+
+import { Signer } from '../types/crypto';
+import { verifySignature } from './crypto';
+import { toHex, toBase64Url, fromHex, fromBase64Url } from './encoding';
+import { getSignatureSuite, getSignatureSuiteForJws } from './signature-suites';
+
+/**
+ * Decoded parts of a compact JWS
+ */
+export interface DecodedJws {
+  header: { alg: string; typ?: string; kid?: string };
+  payload: any;
+  /** The `header.payload` string the signature covers */
+  signingInput: string;
+  /** Hex signature */
+  signature: string;
+}
+
+function encodeSegment(value: unknown): string {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(new TextDecoder().decode(fromBase64Url(segment)));
+}
+
+/**
+ * Sign a payload as a compact JWS
+ *
+ * `alg` is set from the signer's suite.
+ */
+export async function createJws(
+  payload: unknown,
+  signer: Signer,
+  header: { typ?: string; kid?: string } = {}
+): Promise<string> {
+  const alg = getSignatureSuite(signer.algorithm).jwsAlgorithm;
+  if (!alg) {
+    throw new Error(`Signature suite cannot sign a JWS: ${signer.algorithm}`);
+  }
+
+  const signingInput = `${encodeSegment({ alg, ...header })}.${encodeSegment(payload)}`;
+  const signature = await signer.sign(signingInput);
+  return `${signingInput}.${toBase64Url(new Uint8Array(fromHex(signature)))}`;
+}
+
+/**
+ * Split and decode a compact JWS without verifying it
+ */
+export function decodeJws(jws: string): DecodedJws {
+  const segments = typeof jws === 'string' ? jws.split('.') : [];
+  if (segments.length !== 3) {
+    throw new Error('Malformed JWS');
+  }
+
+  const header = decodeSegment(segments[0]);
+  if (typeof header?.alg !== 'string') {
+    throw new Error('Malformed JWS');
+  }
+
+  return {
+    header,
+    payload: decodeSegment(segments[1]),
+    signingInput: `${segments[0]}.${segments[1]}`,
+    signature: toHex(new Uint8Array(fromBase64Url(segments[2]))),
+  };
+}
+
+/**
+ * Verify a compact JWS against a public key
+ *
+ * `publicKey` may be in any encoding the `alg`'s suite imports, including a
+ * JWK as a JSON string. Returns the decoded JWS, or null if it is malformed
+ * or the signature does not verify.
+ */
+export async function verifyJws(jws: string, publicKey: string): Promise<DecodedJws | null> {
+  try {
+    const decoded = decodeJws(jws);
+    const suite = getSignatureSuiteForJws(decoded.header.alg);
+    return await verifySignature(decoded.signingInput, decoded.signature, publicKey, suite.id) ? decoded : null;
+  } catch (error) {
+    console.error('Error verifying JWS:', error);
+    return null;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Key Agreement
+ *
+ * Maps constitutional identity signing keys onto their key agreement
+ * counterparts: P-256 ECDSA keys onto P-256 ECDH, and Ed25519 keys onto
+ * X25519 via the birational map between the two curves.
+ */
+
+import { createHash } from 'crypto';
+import { toBase64Url, fromBase64Url, modPow, toArrayBuffer } from './encoding';
+import { ECDSA_P256_SUITE_ID, ED25519_SUITE_ID, getSignatureSuite } from './signature-suites';
+
+/**
+ * Key agreement algorithm names, as recorded in encryption envelopes
+ */
+export type KeyAgreementAlgorithm = 'ECDH-P256' | 'X25519';
+
+/**
+ * Every supported key agreement algorithm
+ */
+export const KEY_AGREEMENT_ALGORITHMS: readonly KeyAgreementAlgorithm[] = ['ECDH-P256', 'X25519'];
+
+/**
+ * Field prime of Curve25519 / edwards25519
+ */
+const CURVE25519_P = (BigInt(1) << BigInt(255)) - BigInt(19);
+
+function littleEndianToBigInt(bytes: Uint8Array): bigint {
+  let value = BigInt(0);
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << BigInt(8)) | BigInt(bytes[i]);
+  }
+  return value;
+}
+
+function bigIntToLittleEndian(value: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Number(value & BigInt(0xff));
+    value >>= BigInt(8);
+  }
+  return bytes;
+}
+
+/**
+ * Convert an Ed25519 public key to its X25519 form: u = (1 + y) / (1 - y)
+ */
+function edwardsToMontgomery(edPublicKey: Uint8Array): Uint8Array {
+  const p = CURVE25519_P;
+  const yBytes = edPublicKey.slice();
+  yBytes[31] &= 0x7f; // Clear the sign bit of x
+  const y = littleEndianToBigInt(yBytes);
+  const denominator = ((BigInt(1) - y) % p + p) % p;
+  if (denominator === BigInt(0)) {
+    throw new Error('Ed25519 public key has no X25519 equivalent');
+  }
+  const u = ((BigInt(1) + y) * modPow(denominator, p - BigInt(2), p)) % p;
+  return bigIntToLittleEndian(u, 32);
+}
+
+/**
+ * Algorithm to use for a signature suite
+ */
+export function getKeyAgreementAlgorithm(signatureSuite: string): KeyAgreementAlgorithm {
+  switch (signatureSuite) {
+    case ECDSA_P256_SUITE_ID:
+      return 'ECDH-P256';
+    case ED25519_SUITE_ID:
+      return 'X25519';
+    default:
+      throw new Error(`No key agreement for signature suite: ${signatureSuite}`);
+  }
+}
+
+/**
+ * Algorithm of a key agreement key, as returned by `toAgreementPrivateKey`
+ */
+export function getAgreementKeyAlgorithm(key: CryptoKey): KeyAgreementAlgorithm {
+  const { name, namedCurve } = key.algorithm as EcKeyAlgorithm;
+  if (name === 'ECDH' && namedCurve === 'P-256') {
+    return 'ECDH-P256';
+  }
+  if (name === 'X25519') {
+    return 'X25519';
+  }
+  throw new Error(`Unsupported key agreement key: ${name}`);
+}
+
+/**
+ * Web Crypto parameters for a key agreement algorithm
+ */
+export function getKeyAgreementParams(algorithm: KeyAgreementAlgorithm): EcKeyImportParams | Algorithm {
+  return algorithm === 'ECDH-P256' ? { name: 'ECDH', namedCurve: 'P-256' } : { name: 'X25519' };
+}
+
+/**
+ * Import a published identity public key as a key agreement public key
+ */
+export async function importAgreementPublicKey(publicKey: string, signatureSuite: string): Promise<CryptoKey> {
+  const algorithm = getKeyAgreementAlgorithm(signatureSuite);
+  const signingKey = await getSignatureSuite(signatureSuite).importPublicKey(publicKey);
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', signingKey));
+  const agreementRaw = algorithm === 'X25519' ? edwardsToMontgomery(raw) : raw;
+
+  return await crypto.subtle.importKey('raw', toArrayBuffer(agreementRaw), getKeyAgreementParams(algorithm), true, []);
+}
+
+/**
+ * Convert an identity private key into a key agreement private key
+ *
+ * Keys that are already ECDH or X25519 are returned unchanged; signing keys
+ * must be extractable.
+ */
+export async function toAgreementPrivateKey(privateKey: CryptoKey): Promise<CryptoKey> {
+  const name = privateKey.algorithm.name;
+  if (name === 'ECDH' || name === 'X25519') {
+    return privateKey;
+  }
+
+  const jwk = await crypto.subtle.exportKey('jwk', privateKey);
+
+  if (name === 'ECDSA') {
+    const { kty, crv, x, y, d } = jwk;
+    return await crypto.subtle.importKey(
+      'jwk',
+      { kty, crv, x, y, d },
+      getKeyAgreementParams('ECDH-P256'),
+      false,
+      ['deriveBits']
+    );
+  }
+
+  if (name === 'Ed25519') {
+    // RFC 8032: the secret scalar is the first half of SHA-512(seed); X25519
+    // applies the clamping itself
+    const scalar = new Uint8Array(createHash('sha512').update(new Uint8Array(fromBase64Url(jwk.d!))).digest()).slice(0, 32);
+    const u = edwardsToMontgomery(new Uint8Array(fromBase64Url(jwk.x!)));
+    return await crypto.subtle.importKey(
+      'jwk',
+      { kty: 'OKP', crv: 'X25519', d: toBase64Url(scalar), x: toBase64Url(u) },
+      getKeyAgreementParams('X25519'),
+      false,
+      ['deriveBits']
+    );
+  }
+
+  throw new Error(`No key agreement for key algorithm: ${name}`);
+}
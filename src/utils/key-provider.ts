@@ -0,0 +1,99 @@
+/**
+ * Key Providers
+ *
+ * Signing backends for constitutional identities. Components sign through
+ * a `KeyProvider` rather than holding a `CryptoKey`, so the private key can
+ * live wherever the deployment requires.
+ */
+
+import { KeyProvider, PublicKeyInfo, EncryptedEnvelope, EncryptedKeystore } from '../types/crypto';
+import { ZeroKnowledgeProof } from '../types/attestation';
+import { createSignature, derivePublicKey, exportPublicKey, decrypt } from './crypto';
+import { saveKeystore, loadKeystore } from './keystore';
+import { createSchnorrProof } from './schnorr';
+import { DEFAULT_SIGNATURE_SUITE_ID, getSignatureSuite, resolveSignatureSuite } from './signature-suites';
+
+/**
+ * Check whether a value is a key provider rather than a Web Crypto key
+ */
+export function isKeyProvider(value: CryptoKey | CryptoKeyPair | KeyProvider): value is KeyProvider {
+  return typeof (value as KeyProvider).sign === 'function';
+}
+
+/**
+ * Use a key provider as is, or wrap Web Crypto keys in an in-memory provider
+ */
+export function toKeyProvider(keys: CryptoKey | CryptoKeyPair | KeyProvider): KeyProvider {
+  return isKeyProvider(keys) ? keys : new InMemoryKeyProvider(keys);
+}
+
+/**
+ * Key provider holding a Web Crypto key in the agent process
+ *
+ * Accepts a full key pair, or a lone private key whose public half is
+ * derived on first use; that key must then be extractable.
+ */
+export class InMemoryKeyProvider implements KeyProvider {
+  readonly algorithm: string;
+  private privateKey: CryptoKey;
+  private publicKey?: CryptoKey;
+  private publicKeyInfo?: PublicKeyInfo;
+
+  constructor(keys: CryptoKey | CryptoKeyPair) {
+    if ('privateKey' in keys) {
+      this.privateKey = keys.privateKey;
+      this.publicKey = keys.publicKey;
+    } else {
+      this.privateKey = keys;
+    }
+    this.algorithm = resolveSignatureSuite(this.privateKey).id;
+  }
+
+  async getPublicKey(): Promise<PublicKeyInfo> {
+    if (!this.publicKeyInfo) {
+      if (!this.publicKey) {
+        this.publicKey = await derivePublicKey(this.privateKey);
+      }
+      this.publicKeyInfo = await exportPublicKey(this.publicKey);
+    }
+    return this.publicKeyInfo;
+  }
+
+  async sign(data: string): Promise<string> {
+    return await createSignature(data, this.privateKey);
+  }
+
+  async decrypt(envelope: EncryptedEnvelope, expectedAssociatedData?: string): Promise<string> {
+    return await decrypt(envelope, this.privateKey, expectedAssociatedData);
+  }
+
+  async proveKeyPossession(nonce: string): Promise<ZeroKnowledgeProof> {
+    return await createSchnorrProof(this.privateKey, nonce, this.publicKey);
+  }
+
+  async exportKeystore(
+    password: string,
+    options: { agentId?: string; iterations?: number } = {}
+  ): Promise<EncryptedKeystore> {
+    const keys = this.publicKey ? { privateKey: this.privateKey, publicKey: this.publicKey } : this.privateKey;
+    return await saveKeystore(keys, password, options);
+  }
+
+  async generateSuccessor(): Promise<KeyProvider> {
+    return await InMemoryKeyProvider.generate(this.algorithm);
+  }
+
+  /**
+   * Generate a new key pair for a signature suite
+   */
+  static async generate(signatureSuite: string = DEFAULT_SIGNATURE_SUITE_ID): Promise<InMemoryKeyProvider> {
+    return new InMemoryKeyProvider(await getSignatureSuite(signatureSuite).generateKeyPair());
+  }
+
+  /**
+   * Load a key pair from a password-protected keystore
+   */
+  static async fromKeystore(keystore: EncryptedKeystore | string, password: string): Promise<InMemoryKeyProvider> {
+    return new InMemoryKeyProvider(await loadKeystore(keystore, password));
+  }
+}
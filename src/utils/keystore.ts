@@ -0,0 +1,199 @@
+/**
+ * Keystore
+ *
+ * Password-protected storage of identity private keys, so long-running
+ * agents keep their identity across restarts
+ */
+
+import { EncryptedKeystore, PublicKeyInfo } from '../types/crypto';
+import { derivePublicKey, exportPublicKey } from './crypto';
+import { toBase64Url, fromBase64Url, toArrayBuffer } from './encoding';
+import { canonicalize } from './canonical-json';
+import { getSignatureSuite, resolveSignatureSuite } from './signature-suites';
+
+/**
+ * Current keystore format version
+ */
+const KEYSTORE_VERSION = 1;
+
+/**
+ * PBKDF2 iterations used when none are specified (OWASP 2023 guidance for
+ * PBKDF2-HMAC-SHA256)
+ */
+export const DEFAULT_KEYSTORE_ITERATIONS = 600000;
+
+/**
+ * Bounds on the PBKDF2 iterations of a keystore, so a crafted file can
+ * neither weaken the KDF nor stall the loader
+ */
+export const MIN_KEYSTORE_ITERATIONS = 100000;
+export const MAX_KEYSTORE_ITERATIONS = 10000000;
+
+function checkIterations(iterations: number): number {
+  if (!Number.isInteger(iterations) || iterations < MIN_KEYSTORE_ITERATIONS || iterations > MAX_KEYSTORE_ITERATIONS) {
+    throw new Error(`Keystore KDF iterations must be between ${MIN_KEYSTORE_ITERATIONS} and ${MAX_KEYSTORE_ITERATIONS}`);
+  }
+  return iterations;
+}
+
+/**
+ * Bytes authenticated alongside the wrapped key
+ *
+ * Covers every metadata field, so the suite, public key or KDF parameters
+ * cannot be altered without the password.
+ */
+export function getKeystoreAdditionalData(keystore: Omit<EncryptedKeystore, 'ciphertext'>): string {
+  return canonicalize(keystore);
+}
+
+function keystoreAdditionalData(keystore: Omit<EncryptedKeystore, 'ciphertext'>): ArrayBuffer {
+  return toArrayBuffer(new TextEncoder().encode(getKeystoreAdditionalData(keystore)));
+}
+
+/**
+ * Metadata of a new keystore, with a fresh salt and IV
+ */
+export function createKeystoreHeader(
+  publicKey: PublicKeyInfo,
+  signatureSuite: string,
+  options: { agentId?: string; iterations?: number } = {}
+): Omit<EncryptedKeystore, 'ciphertext'> {
+  return {
+    version: KEYSTORE_VERSION as 1,
+    signatureSuite,
+    publicKey: publicKey.spki,
+    keyFingerprint: publicKey.fingerprint,
+    agentId: options.agentId,
+    createdAt: Date.now(),
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: checkIterations(options.iterations ?? DEFAULT_KEYSTORE_ITERATIONS),
+      salt: toBase64Url(crypto.getRandomValues(new Uint8Array(16))),
+    },
+    cipher: {
+      name: 'AES-256-GCM',
+      iv: toBase64Url(crypto.getRandomValues(new Uint8Array(12))),
+    },
+  };
+}
+
+/**
+ * Parse a keystore and check its version and algorithms are supported
+ */
+export function parseKeystore(keystore: EncryptedKeystore | string): EncryptedKeystore {
+  const parsed: EncryptedKeystore = typeof keystore === 'string' ? JSON.parse(keystore) : keystore;
+
+  if (parsed.version !== KEYSTORE_VERSION) {
+    throw new Error(`Unsupported keystore version: ${parsed.version}`);
+  }
+  if (parsed.kdf.name !== 'PBKDF2' || parsed.kdf.hash !== 'SHA-256' || parsed.cipher.name !== 'AES-256-GCM') {
+    throw new Error('Unsupported keystore algorithms');
+  }
+  checkIterations(parsed.kdf.iterations);
+
+  return parsed;
+}
+
+/**
+ * Derive the AES-256-GCM wrapping key from the password
+ */
+async function deriveWrappingKey(
+  password: string,
+  kdf: EncryptedKeystore['kdf'],
+  usage: 'encrypt' | 'decrypt'
+): Promise<CryptoKey> {
+  const passwordKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      hash: kdf.hash,
+      salt: fromBase64Url(kdf.salt),
+      iterations: kdf.iterations,
+    },
+    passwordKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Encrypt an identity key under a password
+ *
+ * A lone private key must be extractable so its public half can be derived.
+ */
+export async function saveKeystore(
+  keys: CryptoKey | CryptoKeyPair,
+  password: string,
+  options: { agentId?: string; iterations?: number } = {}
+): Promise<EncryptedKeystore> {
+  try {
+    if (!password) {
+      throw new Error('A keystore password is required');
+    }
+
+    const privateKey = 'privateKey' in keys ? keys.privateKey : keys;
+    const publicKey = 'privateKey' in keys ? keys.publicKey : await derivePublicKey(keys);
+    const header = createKeystoreHeader(
+      await exportPublicKey(publicKey),
+      resolveSignatureSuite(privateKey).id,
+      options
+    );
+
+    const wrappingKey = await deriveWrappingKey(password, header.kdf, 'encrypt');
+    const pkcs8 = await crypto.subtle.exportKey('pkcs8', privateKey);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: fromBase64Url(header.cipher.iv), additionalData: keystoreAdditionalData(header) },
+      wrappingKey,
+      pkcs8
+    );
+
+    return {
+      ...header,
+      ciphertext: toBase64Url(new Uint8Array(ciphertext)),
+    };
+  } catch (error) {
+    console.error('Error saving keystore:', error);
+    throw new Error('Failed to save keystore');
+  }
+}
+
+/**
+ * Decrypt a keystore back into the identity's key pair
+ *
+ * Accepts the keystore object or its JSON serialization. The result can be
+ * passed straight to `CHPFactory.fromKeys`.
+ */
+export async function loadKeystore(keystore: EncryptedKeystore | string, password: string): Promise<CryptoKeyPair> {
+  try {
+    const parsed = parseKeystore(keystore);
+    const { ciphertext, ...header } = parsed;
+    const wrappingKey = await deriveWrappingKey(password, parsed.kdf, 'decrypt');
+    const pkcs8 = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64Url(parsed.cipher.iv), additionalData: keystoreAdditionalData(header) },
+      wrappingKey,
+      fromBase64Url(ciphertext)
+    );
+
+    const suite = getSignatureSuite(parsed.signatureSuite);
+    const privateKey = await suite.importPrivateKey(pkcs8);
+    const publicKey = await suite.derivePublicKey(privateKey);
+
+    if ((await exportPublicKey(publicKey)).fingerprint !== parsed.keyFingerprint) {
+      throw new Error('Keystore public key does not match the private key');
+    }
+
+    return { privateKey, publicKey };
+  } catch (error) {
+    console.error('Error loading keystore:', error);
+    throw new Error('Failed to load keystore');
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Multi-Signatures
+ *
+ * k-of-n signatures for decisions that need more than one key holder, such
+ * as steward dual control over high-impact actions
+ */
+
+import { QuorumPolicy, MultiSignature, Signer } from '../types/crypto';
+import { generateHash, verifySignature, generateKeyFingerprint } from './crypto';
+import { canonicalize } from './canonical-json';
+import { DEFAULT_SIGNATURE_SUITE_ID } from './signature-suites';
+import { toKeyProvider } from './key-provider';
+
+/**
+ * Build a quorum policy from the members' published public keys
+ */
+export function createQuorumPolicy(
+  threshold: number,
+  members: Array<{ publicKey: string; signatureSuite?: string }>
+): QuorumPolicy {
+  const policyMembers = members.map(member => ({
+    publicKey: member.publicKey,
+    keyFingerprint: generateKeyFingerprint(member.publicKey),
+    signatureSuite: member.signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID,
+  }));
+
+  const fingerprints = new Set(policyMembers.map(member => member.keyFingerprint));
+  if (fingerprints.size !== policyMembers.length) {
+    throw new Error('Quorum policy members must be distinct');
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > policyMembers.length) {
+    throw new Error(`Quorum threshold must be between 1 and ${policyMembers.length}`);
+  }
+
+  return { threshold, members: policyMembers };
+}
+
+/**
+ * Identifier binding signatures to one exact policy
+ */
+export function getQuorumPolicyId(policy: QuorumPolicy): string {
+  return generateHash(canonicalize(policy));
+}
+
+/**
+ * What each member actually signs: the payload together with the policy, so
+ * signatures cannot be replayed under a weaker policy
+ */
+function multiSignaturePayload(policyId: string, data: string): string {
+  return canonicalize({ policyId, data });
+}
+
+/**
+ * Start an empty multi-signature under a policy
+ */
+export function createMultiSignature(policy: QuorumPolicy): MultiSignature {
+  return {
+    policyId: getQuorumPolicyId(policy),
+    signatures: [],
+  };
+}
+
+/**
+ * Add one member's signature over `data`
+ *
+ * Returns a new multi-signature; the signer must be a member of the policy
+ * and must not have signed already. A lone private key must be extractable.
+ */
+export async function addSignature(
+  multiSignature: MultiSignature,
+  policy: QuorumPolicy,
+  data: string,
+  signer: CryptoKey | CryptoKeyPair | Signer
+): Promise<MultiSignature> {
+  if (multiSignature.policyId !== getQuorumPolicyId(policy)) {
+    throw new Error('Multi-signature was started under a different policy');
+  }
+
+  const keyProvider = toKeyProvider(signer);
+  const { fingerprint } = await keyProvider.getPublicKey();
+
+  const member = policy.members.find(candidate => candidate.keyFingerprint === fingerprint);
+  if (!member || member.signatureSuite !== keyProvider.algorithm) {
+    throw new Error('Signer is not a member of the quorum policy');
+  }
+  if (multiSignature.signatures.some(entry => entry.keyFingerprint === fingerprint)) {
+    throw new Error('Signer has already signed');
+  }
+
+  const signature = await keyProvider.sign(multiSignaturePayload(multiSignature.policyId, data));
+
+  return {
+    ...multiSignature,
+    signatures: [...multiSignature.signatures, { keyFingerprint: fingerprint, signature }],
+  };
+}
+
+/**
+ * Check that at least `threshold` distinct members of `policy` signed `data`
+ *
+ * The policy must come from the verifier, not from the signed object.
+ * Signatures from non-members or duplicates do not count.
+ */
+export async function verifyMultiSignature(
+  data: string,
+  multiSignature: MultiSignature,
+  policy: QuorumPolicy
+): Promise<boolean> {
+  try {
+    if (multiSignature.policyId !== getQuorumPolicyId(policy)) {
+      return false;
+    }
+
+    const payload = multiSignaturePayload(multiSignature.policyId, data);
+    const validSigners = new Set<string>();
+
+    for (const entry of multiSignature.signatures) {
+      const member = policy.members.find(candidate => candidate.keyFingerprint === entry.keyFingerprint);
+      if (!member || validSigners.has(member.keyFingerprint)) {
+        continue;
+      }
+      if (await verifySignature(payload, entry.signature, member.publicKey, member.signatureSuite)) {
+        validSigners.add(member.keyFingerprint);
+      }
+    }
+
+    return validSigners.size >= policy.threshold;
+  } catch (error) {
+    console.error('Error verifying multi-signature:', error);
+    return false;
+  }
+}
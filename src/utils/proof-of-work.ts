@@ -0,0 +1,84 @@
+/**
+ * Proof of Work
+ *
+ * Hashcash-style work for attestation chain entries: an entry's nonce must
+ * make its hash start with a given number of zero bits. Each extra bit
+ * doubles the expected cost of appending an entry, while checking one stays
+ * a single hash.
+ */
+
+import { getHashAlgorithm } from './crypto';
+
+/**
+ * Highest supported difficulty, in leading zero bits
+ */
+export const MAX_PROOF_OF_WORK_DIFFICULTY = 32;
+
+/**
+ * Attempts between yields to the event loop while searching for a nonce
+ */
+const ATTEMPTS_PER_YIELD = 4096;
+
+/**
+ * Throw unless `difficulty` is a supported number of leading zero bits
+ */
+export function validateDifficulty(difficulty: number): void {
+  if (!Number.isInteger(difficulty) || difficulty < 0 || difficulty > MAX_PROOF_OF_WORK_DIFFICULTY) {
+    throw new Error(`Proof-of-work difficulty must be an integer from 0 to ${MAX_PROOF_OF_WORK_DIFFICULTY}`);
+  }
+}
+
+/**
+ * Count the leading zero bits of a hash's digest
+ *
+ * Only the digest of a multihash counts, not its prefix. Legacy and
+ * unrecognised hashes have none.
+ */
+export function countLeadingZeroBits(hash: string): number {
+  const algorithm = getHashAlgorithm(hash);
+  if (algorithm === null || algorithm === 'legacy') {
+    return 0;
+  }
+
+  let bits = 0;
+  for (const digit of hash.slice(4)) {
+    const value = parseInt(digit, 16);
+    if (value !== 0) {
+      return bits + Math.clz32(value) - 28;
+    }
+    bits += 4;
+  }
+  return bits;
+}
+
+/**
+ * Check whether a hash meets a difficulty target
+ */
+export function meetsDifficulty(hash: string, difficulty: number): boolean {
+  return difficulty <= 0 || countLeadingZeroBits(hash) >= difficulty;
+}
+
+/**
+ * Search for a nonce whose hash meets a difficulty target
+ *
+ * `hashWithNonce` hashes the data being protected together with a nonce.
+ * The search starts at a random nonce and yields to the event loop
+ * periodically, since high difficulties can take a long time.
+ */
+export async function findProofOfWork(
+  hashWithNonce: (nonce: number) => string,
+  difficulty: number
+): Promise<{ nonce: number; hash: string }> {
+  validateDifficulty(difficulty);
+
+  let nonce = Math.floor(Math.random() * 1000000);
+  for (let attempts = 1; ; attempts++, nonce++) {
+    const hash = hashWithNonce(nonce);
+    if (meetsDifficulty(hash, difficulty)) {
+      return { nonce, hash };
+    }
+    if (attempts % ATTEMPTS_PER_YIELD === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * Schnorr Proofs of Possession
+ *
+ * Non-interactive Schnorr proofs (Fiat-Shamir) that the presenter knows the
+ * private scalar behind a constitutional identity's public key, bound to a
+ * verifier-chosen nonce. Works over P-256 for ECDSA identities and over
+ * edwards25519 for Ed25519 identities.
+ *
+ * The big-integer arithmetic here is not constant-time; proofs leak no more
+ * about the key than signatures do, but timing side channels are not
+ * defended against.
+ */
+
+import { ZeroKnowledgeProof } from '../types/attestation';
+import { createHash } from 'crypto';
+import { toHex, fromHex, fromBase64Url, modPow } from './encoding';
+import { canonicalize } from './canonical-json';
+import { ECDSA_P256_SUITE_ID, ED25519_SUITE_ID, getSignatureSuite, resolveSignatureSuite } from './signature-suites';
+import { exportPublicKey, derivePublicKey } from './crypto';
+
+/**
+ * Prime-order group used for the proofs of one signature suite
+ */
+interface SchnorrGroup<P> {
+  circuit: string;
+  order: bigint;
+  base: P;
+  add(a: P, b: P): P;
+  negate(a: P): P;
+  isIdentity(a: P): boolean;
+  encode(a: P): Uint8Array;
+  decode(bytes: Uint8Array): P;
+  /** Decode a published public key, rejecting points outside the group */
+  importPublicKey(spki: string): Promise<P>;
+  /** Secret scalar of an extractable private key */
+  secretScalar(privateKey: CryptoKey): Promise<bigint>;
+}
+
+function mod(value: bigint, modulus: bigint): bigint {
+  const result = value % modulus;
+  return result < BigInt(0) ? result + modulus : result;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.length === 0 ? BigInt(0) : BigInt('0x' + toHex(bytes));
+}
+
+function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  return new Uint8Array(fromHex(value.toString(16).padStart(length * 2, '0')));
+}
+
+/**
+ * Double-and-add scalar multiplication
+ */
+function multiply<P>(group: SchnorrGroup<P>, point: P, scalar: bigint, identity: P): P {
+  let result = identity;
+  let addend = point;
+  let remaining = scalar;
+  while (remaining > BigInt(0)) {
+    if (remaining & BigInt(1)) {
+      result = group.add(result, addend);
+    }
+    addend = group.add(addend, addend);
+    remaining >>= BigInt(1);
+  }
+  return result;
+}
+
+/**
+ * P-256 points in Jacobian coordinates; Z = 0 is the point at infinity
+ */
+type JacobianPoint = { x: bigint; y: bigint; z: bigint };
+
+const P256_P = BigInt('0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff');
+const P256_B = BigInt('0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b');
+const P256_INFINITY: JacobianPoint = { x: BigInt(1), y: BigInt(1), z: BigInt(0) };
+
+function p256Double(a: JacobianPoint): JacobianPoint {
+  const p = P256_P;
+  if (a.z === BigInt(0) || a.y === BigInt(0)) {
+    return P256_INFINITY;
+  }
+  // dbl-2001-b, for curves with a = -3
+  const delta = mod(a.z * a.z, p);
+  const gamma = mod(a.y * a.y, p);
+  const beta = mod(a.x * gamma, p);
+  const alpha = mod(BigInt(3) * (a.x - delta) * (a.x + delta), p);
+  const x = mod(alpha * alpha - BigInt(8) * beta, p);
+  const z = mod((a.y + a.z) * (a.y + a.z) - gamma - delta, p);
+  const y = mod(alpha * (BigInt(4) * beta - x) - BigInt(8) * gamma * gamma, p);
+  return { x, y, z };
+}
+
+function p256ToAffine(a: JacobianPoint): { x: bigint; y: bigint } {
+  const zInverse = modPow(a.z, P256_P - BigInt(2), P256_P);
+  const zInverse2 = mod(zInverse * zInverse, P256_P);
+  return { x: mod(a.x * zInverse2, P256_P), y: mod(a.y * zInverse2 * zInverse, P256_P) };
+}
+
+const p256Group: SchnorrGroup<JacobianPoint> = {
+  circuit: 'schnorr-p256-sha256',
+  order: BigInt('0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551'),
+  base: {
+    x: BigInt('0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296'),
+    y: BigInt('0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5'),
+    z: BigInt(1),
+  },
+
+  add(a, b) {
+    const p = P256_P;
+    if (a.z === BigInt(0)) return b;
+    if (b.z === BigInt(0)) return a;
+
+    // add-2007-bl
+    const z1z1 = mod(a.z * a.z, p);
+    const z2z2 = mod(b.z * b.z, p);
+    const u1 = mod(a.x * z2z2, p);
+    const u2 = mod(b.x * z1z1, p);
+    const s1 = mod(a.y * b.z * z2z2, p);
+    const s2 = mod(b.y * a.z * z1z1, p);
+    const h = mod(u2 - u1, p);
+    const r = mod(s2 - s1, p);
+
+    if (h === BigInt(0)) {
+      return r === BigInt(0) ? p256Double(a) : P256_INFINITY;
+    }
+
+    const hh = mod(h * h, p);
+    const hhh = mod(h * hh, p);
+    const v = mod(u1 * hh, p);
+    const x = mod(r * r - hhh - BigInt(2) * v, p);
+    const y = mod(r * (v - x) - s1 * hhh, p);
+    const z = mod(a.z * b.z * h, p);
+    return { x, y, z };
+  },
+
+  negate(a) {
+    return { x: a.x, y: mod(-a.y, P256_P), z: a.z };
+  },
+
+  isIdentity(a) {
+    return a.z === BigInt(0);
+  },
+
+  encode(a) {
+    const { x, y } = p256ToAffine(a);
+    const bytes = new Uint8Array(65);
+    bytes[0] = 0x04;
+    bytes.set(bigIntToBytes(x, 32), 1);
+    bytes.set(bigIntToBytes(y, 32), 33);
+    return bytes;
+  },
+
+  decode(bytes) {
+    if (bytes.length !== 65 || bytes[0] !== 0x04) {
+      throw new Error('Invalid P-256 point encoding');
+    }
+    const x = bytesToBigInt(bytes.slice(1, 33));
+    const y = bytesToBigInt(bytes.slice(33));
+    const p = P256_P;
+    if (x >= p || y >= p || mod(y * y, p) !== mod(x * x * x - BigInt(3) * x + P256_B, p)) {
+      throw new Error('Point is not on P-256');
+    }
+    return { x, y, z: BigInt(1) };
+  },
+
+  async importPublicKey(spki) {
+    const publicKey = await getSignatureSuite(ECDSA_P256_SUITE_ID).importPublicKey(spki);
+    return this.decode(new Uint8Array(await crypto.subtle.exportKey('raw', publicKey)));
+  },
+
+  async secretScalar(privateKey) {
+    const { d } = await crypto.subtle.exportKey('jwk', privateKey);
+    return bytesToBigInt(new Uint8Array(fromBase64Url(d!)));
+  },
+};
+
+/**
+ * edwards25519 points in extended coordinates (x = X/Z, y = Y/Z, xy = T/Z)
+ */
+type ExtendedPoint = { x: bigint; y: bigint; z: bigint; t: bigint };
+
+const ED25519_P = (BigInt(1) << BigInt(255)) - BigInt(19);
+const ED25519_D = mod(BigInt(-121665) * modPow(BigInt(121666), ED25519_P - BigInt(2), ED25519_P), ED25519_P);
+const ED25519_SQRT_M1 = modPow(BigInt(2), (ED25519_P - BigInt(1)) / BigInt(4), ED25519_P);
+const ED25519_BASE_X = BigInt('15112221349535400772501151409588531511454012693041857206046113283949847762202');
+const ED25519_BASE_Y = BigInt('46316835694926478169428394003475163141307993866256225615783033603165251855960');
+const ED25519_IDENTITY: ExtendedPoint = { x: BigInt(0), y: BigInt(1), z: BigInt(1), t: BigInt(0) };
+
+function littleEndianToBigInt(bytes: Uint8Array): bigint {
+  return bytesToBigInt(bytes.slice().reverse());
+}
+
+const ed25519Group: SchnorrGroup<ExtendedPoint> = {
+  circuit: 'schnorr-ed25519-sha256',
+  order: (BigInt(1) << BigInt(252)) + BigInt('27742317777372353535851937790883648493'),
+  base: {
+    x: ED25519_BASE_X,
+    y: ED25519_BASE_Y,
+    z: BigInt(1),
+    t: mod(ED25519_BASE_X * ED25519_BASE_Y, ED25519_P),
+  },
+
+  add(a, b) {
+    // add-2008-hwcd-3, complete for a = -1
+    const p = ED25519_P;
+    const A = mod((a.y - a.x) * (b.y - b.x), p);
+    const B = mod((a.y + a.x) * (b.y + b.x), p);
+    const C = mod(a.t * BigInt(2) * ED25519_D * b.t, p);
+    const D = mod(a.z * BigInt(2) * b.z, p);
+    const E = B - A;
+    const F = D - C;
+    const G = D + C;
+    const H = B + A;
+    return { x: mod(E * F, p), y: mod(G * H, p), z: mod(F * G, p), t: mod(E * H, p) };
+  },
+
+  negate(a) {
+    return { x: mod(-a.x, ED25519_P), y: a.y, z: a.z, t: mod(-a.t, ED25519_P) };
+  },
+
+  isIdentity(a) {
+    return a.x === BigInt(0) && a.y === a.z;
+  },
+
+  encode(a) {
+    const p = ED25519_P;
+    const zInverse = modPow(a.z, p - BigInt(2), p);
+    const x = mod(a.x * zInverse, p);
+    const y = mod(a.y * zInverse, p);
+    const bytes = bigIntToBytes(y, 32).reverse();
+    bytes[31] |= Number(x & BigInt(1)) << 7;
+    return bytes;
+  },
+
+  decode(bytes) {
+    if (bytes.length !== 32) {
+      throw new Error('Invalid edwards25519 point encoding');
+    }
+    const p = ED25519_P;
+    const sign = bytes[31] >> 7;
+    const yBytes = bytes.slice();
+    yBytes[31] &= 0x7f;
+    const y = littleEndianToBigInt(yBytes);
+    if (y >= p) {
+      throw new Error('Invalid edwards25519 point encoding');
+    }
+
+    // RFC 8032 section 5.1.3
+    const u = mod(y * y - BigInt(1), p);
+    const v = mod(ED25519_D * y * y + BigInt(1), p);
+    const v3 = mod(v * v * v, p);
+    let x = mod(u * v3 * modPow(u * v3 * v3 * v, (p - BigInt(5)) / BigInt(8), p), p);
+    const vx2 = mod(v * x * x, p);
+    if (vx2 !== u) {
+      if (vx2 !== mod(-u, p)) {
+        throw new Error('Point is not on edwards25519');
+      }
+      x = mod(x * ED25519_SQRT_M1, p);
+    }
+    if (x === BigInt(0) && sign === 1) {
+      throw new Error('Invalid edwards25519 point encoding');
+    }
+    if (Number(x & BigInt(1)) !== sign) {
+      x = p - x;
+    }
+    return { x, y, z: BigInt(1), t: mod(x * y, p) };
+  },
+
+  async importPublicKey(spki) {
+    const publicKey = await getSignatureSuite(ED25519_SUITE_ID).importPublicKey(spki);
+    const point = this.decode(new Uint8Array(await crypto.subtle.exportKey('raw', publicKey)));
+    // Keys outside the prime-order subgroup have torsion components
+    if (!this.isIdentity(multiply(this, point, this.order, ED25519_IDENTITY))) {
+      throw new Error('Public key is not in the prime-order subgroup');
+    }
+    return point;
+  },
+
+  async secretScalar(privateKey) {
+    // RFC 8032: the secret scalar is the clamped first half of SHA-512(seed)
+    const { d } = await crypto.subtle.exportKey('jwk', privateKey);
+    const scalar = new Uint8Array(createHash('sha512').update(new Uint8Array(fromBase64Url(d!))).digest()).slice(0, 32);
+    scalar[0] &= 248;
+    scalar[31] &= 127;
+    scalar[31] |= 64;
+    return mod(littleEndianToBigInt(scalar), this.order);
+  },
+};
+
+/**
+ * Groups by signature suite, and by circuit name for verification
+ */
+const SCHNORR_GROUPS: Record<string, { group: SchnorrGroup<any>; identity: unknown }> = {
+  [ECDSA_P256_SUITE_ID]: { group: p256Group, identity: P256_INFINITY },
+  [ED25519_SUITE_ID]: { group: ed25519Group, identity: ED25519_IDENTITY },
+};
+
+function groupForCircuit(circuit: string): { group: SchnorrGroup<any>; identity: unknown } | undefined {
+  return Object.values(SCHNORR_GROUPS).find(entry => entry.group.circuit === circuit);
+}
+
+/**
+ * Fiat-Shamir challenge binding the statement, the prover's commitment and
+ * the verifier's nonce
+ */
+function schnorrChallenge(
+  circuit: string,
+  publicKey: string,
+  commitment: Uint8Array,
+  nonce: string,
+  timestamp: number,
+  order: bigint
+): bigint {
+  const transcript = canonicalize({ circuit, publicKey, commitment: toHex(commitment), nonce, timestamp });
+  return mod(bytesToBigInt(new Uint8Array(createHash('sha256').update(transcript, 'utf8').digest())), order);
+}
+
+/**
+ * Random scalar in [1, order)
+ */
+function randomScalar(order: bigint): bigint {
+  let scalar = BigInt(0);
+  while (scalar === BigInt(0)) {
+    // 64 extra bits make the modular bias negligible
+    scalar = mod(bytesToBigInt(crypto.getRandomValues(new Uint8Array(40))), order);
+  }
+  return scalar;
+}
+
+/**
+ * Prove knowledge of the private key behind its public key, bound to `nonce`
+ *
+ * The private key must be extractable. Public inputs are the SPKI public
+ * key and the nonce; the proof is the hex commitment point followed by the
+ * 32-byte response.
+ */
+export async function createSchnorrProof(
+  privateKey: CryptoKey,
+  nonce: string,
+  publicKey?: CryptoKey
+): Promise<ZeroKnowledgeProof> {
+  const suiteId = resolveSignatureSuite(privateKey).id;
+  const entry = SCHNORR_GROUPS[suiteId];
+  if (!entry) {
+    throw new Error(`No Schnorr group for signature suite: ${suiteId}`);
+  }
+
+  const { group, identity } = entry;
+  const { spki } = await exportPublicKey(publicKey ?? await derivePublicKey(privateKey));
+  const secret = await group.secretScalar(privateKey);
+  const timestamp = Date.now();
+
+  const k = randomScalar(group.order);
+  const commitment = group.encode(multiply(group, group.base, k, identity));
+  const challenge = schnorrChallenge(group.circuit, spki, commitment, nonce, timestamp, group.order);
+  const response = mod(k + challenge * secret, group.order);
+
+  return {
+    proof: toHex(commitment) + toHex(bigIntToBytes(response, 32)),
+    publicInputs: [spki, nonce],
+    circuit: group.circuit,
+    timestamp,
+  };
+}
+
+/**
+ * Verify a Schnorr proof of possession
+ *
+ * When `expected` gives a public key or nonce, the proof's public inputs
+ * must match them.
+ */
+export async function verifySchnorrProof(
+  proof: ZeroKnowledgeProof,
+  expected: { publicKey?: string; nonce?: string } = {}
+): Promise<boolean> {
+  try {
+    const entry = groupForCircuit(proof.circuit);
+    if (!entry || !Array.isArray(proof.publicInputs) || proof.publicInputs.length !== 2) {
+      return false;
+    }
+
+    const [publicKey, nonce] = proof.publicInputs;
+    if ((expected.publicKey !== undefined && expected.publicKey !== publicKey) ||
+        (expected.nonce !== undefined && expected.nonce !== nonce)) {
+      return false;
+    }
+
+    const { group, identity } = entry;
+    const commitmentLength = group.encode(group.base).length;
+    if (!/^[0-9a-f]*$/.test(proof.proof) || proof.proof.length !== (commitmentLength + 32) * 2) {
+      return false;
+    }
+
+    const point = await group.importPublicKey(publicKey);
+    if (group.isIdentity(point)) {
+      return false;
+    }
+
+    const commitmentBytes = new Uint8Array(fromHex(proof.proof.slice(0, commitmentLength * 2)));
+    const commitment = group.decode(commitmentBytes);
+    const response = bytesToBigInt(new Uint8Array(fromHex(proof.proof.slice(commitmentLength * 2))));
+    if (response >= group.order) {
+      return false;
+    }
+
+    // s·G must equal R + c·X
+    const challenge = schnorrChallenge(group.circuit, publicKey, commitmentBytes, nonce, proof.timestamp, group.order);
+    const lhs = multiply(group, group.base, response, identity);
+    const rhs = group.add(commitment, multiply(group, point, challenge, identity));
+    return group.isIdentity(group.add(lhs, group.negate(rhs)));
+  } catch (error) {
+    console.error('Error verifying Schnorr proof:', error);
+    return false;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Selective Disclosure
+ *
+ * Salted-hash commitments over individual fields, in the style of SD-JWT.
+ * Each field becomes a disclosure `[salt, name, value]`; the signer commits
+ * to the digests of every disclosure and the holder later reveals only the
+ * disclosures it chooses. Hidden fields stay behind their salted digests.
+ */
+
+import { SelectiveDisclosureProof } from '../types/attestation';
+import { generateHash, getHashAlgorithm, verifySignature, HashAlgorithm, DEFAULT_HASH_ALGORITHM } from './crypto';
+import { canonicalize } from './canonical-json';
+import { toBase64Url, fromBase64Url } from './encoding';
+import { DEFAULT_SIGNATURE_SUITE_ID } from './signature-suites';
+
+/**
+ * A decoded disclosure
+ */
+export interface Disclosure {
+  salt: string;
+  name: string;
+  value: unknown;
+}
+
+/**
+ * Commit to the hash of every digest, sorted so the order of fields is not
+ * revealed
+ */
+function commitToDigests(digests: string[], algorithm: HashAlgorithm): string {
+  return generateHash(canonicalize([...digests].sort()), algorithm);
+}
+
+/**
+ * Algorithm behind a commitment, or null for legacy or unknown hashes
+ */
+function commitmentAlgorithm(commitment: string): HashAlgorithm | null {
+  const algorithm = getHashAlgorithm(commitment);
+  return algorithm === null || algorithm === 'legacy' ? null : algorithm;
+}
+
+/**
+ * Encode one field as a salted disclosure
+ */
+function encodeDisclosure(name: string, value: unknown): string {
+  const salt = toBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+  return toBase64Url(new TextEncoder().encode(canonicalize([salt, name, value])));
+}
+
+/**
+ * Decode a disclosure back into its salt, field name and value
+ */
+export function decodeDisclosure(disclosure: string): Disclosure {
+  const decoded = JSON.parse(new TextDecoder().decode(fromBase64Url(disclosure)));
+  if (!Array.isArray(decoded) || decoded.length !== 3 ||
+      typeof decoded[0] !== 'string' || typeof decoded[1] !== 'string') {
+    throw new Error('Malformed disclosure');
+  }
+  return { salt: decoded[0], name: decoded[1], value: decoded[2] };
+}
+
+/**
+ * Create salted disclosures for every defined field and the commitment to
+ * them
+ *
+ * The disclosures must be kept by the holder; only the commitment is
+ * published and signed.
+ */
+export function createSaltedCommitment(
+  fields: Record<string, unknown>,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM
+): { disclosures: string[]; commitment: string } {
+  const disclosures = Object.keys(fields)
+    .filter(name => fields[name] !== undefined)
+    .map(name => encodeDisclosure(name, fields[name]));
+
+  return {
+    disclosures,
+    commitment: commitToDigests(disclosures.map(disclosure => generateHash(disclosure, algorithm)), algorithm),
+  };
+}
+
+/**
+ * Data signed to bind a commitment to its attestation
+ */
+export function getDisclosurePayload(attestationId: string, commitment: string): string {
+  return canonicalize({ attestationId, commitment });
+}
+
+/**
+ * Split disclosures into those revealing `fields` and the digests of the rest
+ */
+export function selectDisclosures(
+  disclosures: string[],
+  commitment: string,
+  fields: string[]
+): { disclosed: string[]; hidden: string[] } {
+  const algorithm = commitmentAlgorithm(commitment);
+  if (!algorithm) {
+    throw new Error('Unsupported disclosure commitment');
+  }
+
+  const disclosed: string[] = [];
+  const hidden: string[] = [];
+  disclosures.forEach(disclosure => {
+    if (fields.includes(decodeDisclosure(disclosure).name)) {
+      disclosed.push(disclosure);
+    } else {
+      hidden.push(generateHash(disclosure, algorithm));
+    }
+  });
+
+  return { disclosed, hidden: hidden.sort() };
+}
+
+/**
+ * Check disclosed fields against the commitment, without checking the
+ * signature
+ *
+ * Returns the disclosed fields, or null if the disclosures and hidden
+ * digests do not reproduce the commitment.
+ */
+export function verifyDisclosedFields(
+  proof: Pick<SelectiveDisclosureProof, 'disclosed' | 'hidden' | 'commitment'>
+): Record<string, unknown> | null {
+  try {
+    const algorithm = commitmentAlgorithm(proof.commitment);
+    if (!algorithm) {
+      return null;
+    }
+
+    const digests = [...proof.disclosed.map(disclosure => generateHash(disclosure, algorithm)), ...proof.hidden];
+    if (new Set(digests).size !== digests.length || commitToDigests(digests, algorithm) !== proof.commitment) {
+      return null;
+    }
+
+    const fields: Record<string, unknown> = {};
+    for (const disclosure of proof.disclosed) {
+      const { name, value } = decodeDisclosure(disclosure);
+      if (Object.prototype.hasOwnProperty.call(fields, name)) {
+        return null;
+      }
+      fields[name] = value;
+    }
+    return fields;
+  } catch (error) {
+    console.error('Error verifying disclosures:', error);
+    return null;
+  }
+}
+
+/**
+ * Verify a selective disclosure proof against the signer's public key
+ *
+ * Returns the disclosed fields, or null if the disclosures do not match the
+ * commitment or the commitment was not signed by `publicKey`. The key's
+ * `signatureSuite` decides the suite; a proof claiming another one is
+ * rejected.
+ */
+export async function verifySelectiveDisclosure(
+  proof: SelectiveDisclosureProof,
+  publicKey: string,
+  signatureSuite: string = DEFAULT_SIGNATURE_SUITE_ID
+): Promise<Record<string, unknown> | null> {
+  const fields = verifyDisclosedFields(proof);
+  if (!fields || (proof.signatureSuite ?? DEFAULT_SIGNATURE_SUITE_ID) !== signatureSuite) {
+    return null;
+  }
+
+  const signatureValid = await verifySignature(
+    getDisclosurePayload(proof.attestationId, proof.commitment),
+    proof.proof,
+    publicKey,
+    signatureSuite
+  );
+  return signatureValid ? fields : null;
+}
@@ -0,0 +1,268 @@
+/**
+ * Signature Suites
+ *
+ * Pluggable signature algorithms for commitments and attestation proofs
+ */
+
+import { SignatureSuite } from '../types/crypto';
+import { toHex, fromHex, fromBase64Url, modPow } from './encoding';
+
+/**
+ * Identifier of the ECDSA P-256 / SHA-256 suite
+ */
+export const ECDSA_P256_SUITE_ID = 'ecdsa-p256-sha256';
+
+/**
+ * Identifier of the Ed25519 suite
+ */
+export const ED25519_SUITE_ID = 'ed25519';
+
+/**
+ * Suite assumed for commitments and attestations that do not name one
+ */
+export const DEFAULT_SIGNATURE_SUITE_ID = ECDSA_P256_SUITE_ID;
+
+/**
+ * P-256 curve parameters used to decompress public key points
+ */
+const P256 = {
+  p: BigInt('0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff'),
+  b: BigInt('0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b'),
+};
+
+/**
+ * Expand a compressed P-256 point (0x02/0x03 || x) to its uncompressed form
+ *
+ * Not every Web Crypto implementation accepts compressed points directly.
+ */
+function decompressP256Point(compressed: Uint8Array): ArrayBuffer {
+  const { p, b } = P256;
+  const x = BigInt('0x' + toHex(compressed.slice(1)));
+  const rhs = ((modPow(x, BigInt(3), p) - BigInt(3) * x + b) % p + p) % p;
+  let y = modPow(rhs, (p + BigInt(1)) / BigInt(4), p);
+
+  if ((y * y) % p !== rhs) {
+    throw new Error('Invalid compressed public key');
+  }
+  if (Number(y & BigInt(1)) !== (compressed[0] & 1)) {
+    y = p - y;
+  }
+
+  const uncompressed = new Uint8Array(65);
+  uncompressed[0] = 0x04;
+  uncompressed.set(compressed.slice(1), 1);
+  uncompressed.set(new Uint8Array(fromHex(y.toString(16).padStart(64, '0'))), 33);
+  return uncompressed.buffer;
+}
+
+/**
+ * Decode a non-JWK public key string, which may be hex or base64url
+ */
+function decodeKeyBytes(publicKey: string, hexPattern: RegExp): ArrayBuffer {
+  return hexPattern.test(publicKey) ? fromHex(publicKey) : fromBase64Url(publicKey);
+}
+
+/**
+ * ECDSA over P-256 with SHA-256
+ *
+ * Public keys may be a JWK (as a JSON string), a raw EC point (compressed or
+ * uncompressed, hex or base64url) or a base64url-encoded SPKI structure.
+ */
+export const ecdsaP256Suite: SignatureSuite = {
+  id: ECDSA_P256_SUITE_ID,
+  keyAlgorithm: 'ECDSA',
+  jwsAlgorithm: 'ES256',
+
+  async generateKeyPair(): Promise<CryptoKeyPair> {
+    return await crypto.subtle.generateKey(
+      {
+        name: 'ECDSA',
+        namedCurve: 'P-256',
+      },
+      true,
+      ['sign', 'verify']
+    );
+  },
+
+  async sign(data: string, privateKey: CryptoKey): Promise<string> {
+    const signature = await crypto.subtle.sign(
+      {
+        name: 'ECDSA',
+        hash: 'SHA-256',
+      },
+      privateKey,
+      new TextEncoder().encode(data)
+    );
+    return toHex(new Uint8Array(signature));
+  },
+
+  async verify(data: string, signature: string, publicKey: CryptoKey): Promise<boolean> {
+    return await crypto.subtle.verify(
+      {
+        name: 'ECDSA',
+        hash: 'SHA-256',
+      },
+      publicKey,
+      fromHex(signature),
+      new TextEncoder().encode(data)
+    );
+  },
+
+  async importPublicKey(publicKey: string): Promise<CryptoKey> {
+    const algorithm = { name: 'ECDSA', namedCurve: 'P-256' };
+    const trimmed = publicKey.trim();
+
+    if (trimmed.startsWith('{')) {
+      // Keep only the public members so private or sign-only JWKs still import
+      const { kty, crv, x, y } = JSON.parse(trimmed) as JsonWebKey;
+      return await crypto.subtle.importKey('jwk', { kty, crv, x, y }, algorithm, true, ['verify']);
+    }
+
+    const buffer = decodeKeyBytes(trimmed, /^(02|03)[0-9a-fA-F]{64}$|^04[0-9a-fA-F]{128}$/);
+    const bytes = new Uint8Array(buffer);
+
+    if (bytes.length === 33 && (bytes[0] === 0x02 || bytes[0] === 0x03)) {
+      return await crypto.subtle.importKey('raw', decompressP256Point(bytes), algorithm, true, ['verify']);
+    }
+
+    if (bytes.length === 65 && bytes[0] === 0x04) {
+      return await crypto.subtle.importKey('raw', buffer, algorithm, true, ['verify']);
+    }
+
+    return await crypto.subtle.importKey('spki', buffer, algorithm, true, ['verify']);
+  },
+
+  async importPrivateKey(pkcs8: ArrayBuffer): Promise<CryptoKey> {
+    return await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign']);
+  },
+
+  async derivePublicKey(privateKey: CryptoKey): Promise<CryptoKey> {
+    const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', privateKey);
+    return await crypto.subtle.importKey(
+      'jwk',
+      { kty, crv, x, y },
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['verify']
+    );
+  },
+};
+
+/**
+ * Ed25519 (RFC 8032)
+ *
+ * Public keys may be a JWK (as a JSON string), the raw 32-byte key (hex or
+ * base64url) or a base64url-encoded SPKI structure.
+ */
+export const ed25519Suite: SignatureSuite = {
+  id: ED25519_SUITE_ID,
+  keyAlgorithm: 'Ed25519',
+  jwsAlgorithm: 'EdDSA',
+
+  async generateKeyPair(): Promise<CryptoKeyPair> {
+    return await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  },
+
+  async sign(data: string, privateKey: CryptoKey): Promise<string> {
+    const signature = await crypto.subtle.sign({ name: 'Ed25519' }, privateKey, new TextEncoder().encode(data));
+    return toHex(new Uint8Array(signature));
+  },
+
+  async verify(data: string, signature: string, publicKey: CryptoKey): Promise<boolean> {
+    return await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      publicKey,
+      fromHex(signature),
+      new TextEncoder().encode(data)
+    );
+  },
+
+  async importPublicKey(publicKey: string): Promise<CryptoKey> {
+    const algorithm = { name: 'Ed25519' };
+    const trimmed = publicKey.trim();
+
+    if (trimmed.startsWith('{')) {
+      const { kty, crv, x } = JSON.parse(trimmed) as JsonWebKey;
+      return await crypto.subtle.importKey('jwk', { kty, crv, x }, algorithm, true, ['verify']);
+    }
+
+    const buffer = decodeKeyBytes(trimmed, /^[0-9a-fA-F]{64}$/);
+    const format = buffer.byteLength === 32 ? 'raw' : 'spki';
+    return await crypto.subtle.importKey(format, buffer, algorithm, true, ['verify']);
+  },
+
+  async importPrivateKey(pkcs8: ArrayBuffer): Promise<CryptoKey> {
+    return await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'Ed25519' }, true, ['sign']);
+  },
+
+  async derivePublicKey(privateKey: CryptoKey): Promise<CryptoKey> {
+    const { kty, crv, x } = await crypto.subtle.exportKey('jwk', privateKey);
+    return await crypto.subtle.importKey('jwk', { kty, crv, x }, { name: 'Ed25519' }, true, ['verify']);
+  },
+};
+
+/**
+ * Registered signature suites, keyed by identifier
+ */
+const signatureSuites: Map<string, SignatureSuite> = new Map([
+  [ecdsaP256Suite.id, ecdsaP256Suite],
+  [ed25519Suite.id, ed25519Suite],
+]);
+
+/**
+ * Register an additional signature suite
+ */
+export function registerSignatureSuite(suite: SignatureSuite): void {
+  signatureSuites.set(suite.id, suite);
+}
+
+/**
+ * Look up a signature suite by identifier
+ */
+export function getSignatureSuite(id: string = DEFAULT_SIGNATURE_SUITE_ID): SignatureSuite {
+  const suite = signatureSuites.get(id);
+  if (!suite) {
+    throw new Error(`Unsupported signature suite: ${id}`);
+  }
+  return suite;
+}
+
+/**
+ * Identifiers of every registered signature suite
+ */
+export function getSupportedSignatureSuites(): string[] {
+  return Array.from(signatureSuites.keys());
+}
+
+/**
+ * Find the suite that produced a key, from the key's Web Crypto algorithm
+ */
+export function resolveSignatureSuite(key: CryptoKey): SignatureSuite {
+  for (const suite of signatureSuites.values()) {
+    if (suite.keyAlgorithm === key.algorithm.name) {
+      return suite;
+    }
+  }
+  throw new Error(`No signature suite for key algorithm: ${key.algorithm.name}`);
+}
+
+/**
+ * Find the suite whose signatures a JWS `alg` names
+ */
+export function getSignatureSuiteForJws(algorithm: string): SignatureSuite {
+  for (const suite of signatureSuites.values()) {
+    if (suite.jwsAlgorithm === algorithm) {
+      return suite;
+    }
+  }
+  throw new Error(`Unsupported JWS algorithm: ${algorithm}`);
+}
+
+/**
+ * Pick the first suite in `offered` that is also in `accepted` and registered
+ *
+ * The offerer's preference order wins. Returns `null` when there is no overlap.
+ */
+export function negotiateSignatureSuite(offered: string[], accepted: string[]): string | null {
+  return offered.find(id => accepted.includes(id) && signatureSuites.has(id)) ?? null;
+}
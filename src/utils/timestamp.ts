@@ -0,0 +1,150 @@
+/**
+ * Timestamp Tokens
+ *
+ * Creation and verification of RFC 3161-style timestamp tokens. A token is
+ * a timestamp authority's signed statement that a hash existed at a given
+ * time, giving verifiers time evidence that does not rest on the signer's
+ * own clock.
+ */
+
+import { TimestampRequest, TimestampToken, TimestampPolicy, TimestampVerificationResult } from '../types/timestamp';
+import { AttestationChainEntry } from '../types/attestation';
+import { generateHash, generateNonce, generateKeyFingerprint, verifyHash, verifySignature, HashAlgorithm, DEFAULT_HASH_ALGORITHM } from './crypto';
+import { canonicalize } from './canonical-json';
+
+/**
+ * How long before its token an entry may claim to have been created, unless
+ * the policy says otherwise
+ */
+export const DEFAULT_MAX_TIMESTAMP_DELAY = 5 * 60 * 1000;
+
+/**
+ * Build a timestamp request for some data, with a fresh nonce
+ */
+export function createTimestampRequest(
+  data: string,
+  algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM
+): TimestampRequest {
+  return { messageImprint: generateHash(data, algorithm), nonce: generateNonce() };
+}
+
+/**
+ * The canonical bytes a timestamp authority signs
+ */
+export function getTimestampTokenPayload(token: Omit<TimestampToken, 'signature'>): string {
+  return canonicalize({
+    version: token.version,
+    policy: token.policy,
+    messageImprint: token.messageImprint,
+    serialNumber: token.serialNumber,
+    genTime: token.genTime,
+    accuracy: token.accuracy,
+    nonce: token.nonce,
+    publicKey: token.publicKey,
+    keyFingerprint: token.keyFingerprint,
+    signatureSuite: token.signatureSuite,
+  });
+}
+
+/**
+ * Verify a timestamp token over some data
+ *
+ * Checks the imprint, the echoed nonce when one was sent, that the TSA key
+ * is one of `trustedAuthorities`, and the TSA signature. Anyone can run a
+ * TSA, so without a list of trusted authorities no token verifies.
+ */
+export async function verifyTimestampToken(
+  token: TimestampToken,
+  data: string,
+  options: { nonce?: string; trustedAuthorities?: string[] } = {}
+): Promise<boolean> {
+  try {
+    if (token.version !== 1 || !verifyHash(data, token.messageImprint, false)) {
+      return false;
+    }
+    if (options.nonce !== undefined && token.nonce !== options.nonce) {
+      return false;
+    }
+    if (generateKeyFingerprint(token.publicKey) !== token.keyFingerprint) {
+      return false;
+    }
+    if (!options.trustedAuthorities?.includes(token.keyFingerprint)) {
+      return false;
+    }
+
+    return await verifySignature(getTimestampTokenPayload(token), token.signature, token.publicKey, token.signatureSuite);
+  } catch (error) {
+    console.error('Error verifying timestamp token:', error);
+    return false;
+  }
+}
+
+/**
+ * Verify the timestamp tokens of chain entries
+ *
+ * Each token must countersign its entry's hash. Tokens must not go back in
+ * time along the chain, and the creation times an entry and its attestation
+ * claim must fall between `maxDelay` before the token and the token itself,
+ * so entries cannot be backdated. Tokens from authorities outside the
+ * policy's `trustedAuthorities` are invalid. `notBefore` and `notAfter`
+ * bound the token times by the wall clock. Every bound allows for the
+ * token's accuracy.
+ */
+export async function verifyChainTimestamps(
+  entries: AttestationChainEntry[],
+  policy: TimestampPolicy = {}
+): Promise<TimestampVerificationResult> {
+  const errors: string[] = [];
+  const maxDelay = policy.maxDelay ?? DEFAULT_MAX_TIMESTAMP_DELAY;
+  const lastSerialNumbers: Map<string, number> = new Map();
+  let previous: TimestampToken | undefined;
+  let timestampedEntries = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const token = entry.timestampToken;
+
+    if (!token) {
+      if (policy.required) {
+        errors.push(`Entry ${i} has no timestamp token`);
+      }
+      continue;
+    }
+
+    if (!(await verifyTimestampToken(token, entry.hash, { trustedAuthorities: policy.trustedAuthorities }))) {
+      errors.push(`Entry ${i} has an invalid timestamp token`);
+      continue;
+    }
+    timestampedEntries++;
+
+    const earliest = token.genTime - token.accuracy;
+    const latest = token.genTime + token.accuracy;
+
+    const lastSerialNumber = lastSerialNumbers.get(token.keyFingerprint);
+    if (lastSerialNumber !== undefined && token.serialNumber <= lastSerialNumber) {
+      errors.push(`Entry ${i} has a timestamp token issued before the previous entry's`);
+    } else if (previous && latest < previous.genTime - previous.accuracy) {
+      errors.push(`Entry ${i} is timestamped before the previous entry`);
+    }
+    lastSerialNumbers.set(token.keyFingerprint, token.serialNumber);
+    previous = token;
+
+    const claimedTimes = [entry.timestamp, entry.attestation?.timestamp];
+    if (claimedTimes.some(time => typeof time !== 'number' || time > latest || time < earliest - maxDelay)) {
+      errors.push(`Entry ${i} claims a creation time outside its timestamp`);
+    }
+
+    if (policy.notBefore !== undefined && latest < policy.notBefore) {
+      errors.push(`Entry ${i} is timestamped before ${policy.notBefore}`);
+    }
+    if (policy.notAfter !== undefined && earliest > policy.notAfter) {
+      errors.push(`Entry ${i} is timestamped after ${policy.notAfter}`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    timestampedEntries,
+    errors,
+  };
+}
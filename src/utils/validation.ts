@@ -8,6 +8,25 @@ import { ConstitutionalCommitment } from '../types/constitutional';
 import { BehavioralAttestation, AttestationVerification } from '../types/attestation';
 import { TrustRelationship, TrustNode } from '../types/trust';
 
+/**
+ * Validity period of a commitment that does not set one, in milliseconds
+ */
+export const DEFAULT_COMMITMENT_VALIDITY = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * End of a commitment's validity window
+ */
+export function getCommitmentExpiry(commitment: ConstitutionalCommitment): number {
+  return commitment.expiresAt ?? commitment.timestamp + DEFAULT_COMMITMENT_VALIDITY;
+}
+
+/**
+ * Check whether a commitment's validity window has ended
+ */
+export function isCommitmentExpired(commitment: ConstitutionalCommitment, now: number = Date.now()): boolean {
+  return getCommitmentExpiry(commitment) <= now;
+}
+
 /**
  * Validate constitutional commitment
  */
@@ -42,10 +61,11 @@ export function validateConstitutionalCommitment(commitment: ConstitutionalCommi
     errors.push('Timestamp cannot be in the future');
   }
 
-  // Validate timestamp is not too old (e.g., more than 1 year)
-  const oneYearAgo = Date.now() - (365 * 24 * 60 * 60 * 1000);
-  if (commitment.timestamp < oneYearAgo) {
-    errors.push('Commitment timestamp is too old');
+  if (commitment.expiresAt !== undefined &&
+      (typeof commitment.expiresAt !== 'number' || commitment.expiresAt <= commitment.timestamp)) {
+    errors.push('Invalid validity window');
+  } else if (isCommitmentExpired(commitment)) {
+    errors.push('Commitment has expired');
   }
 
   return {
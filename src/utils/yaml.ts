@@ -0,0 +1,293 @@
+/**
+ * YAML Parsing
+ *
+ * A parser for the block-style YAML subset the constitution files are
+ * written in: nested mappings and sequences by indentation, flow sequences
+ * and mappings of scalars, quoted and plain scalars, and comments. Anchors,
+ * tags, multi-line strings and multiple documents are rejected rather than
+ * misread.
+ */
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+/**
+ * Parse a YAML document into plain JSON values
+ */
+export function parseYaml(text: string): unknown {
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const content = stripComment(raw).trimEnd();
+    const trimmed = content.trim();
+    if (trimmed === '' || (index === 0 && trimmed === '---')) {
+      return;
+    }
+    const indentation = content.slice(0, content.length - content.trimStart().length);
+    if (indentation.includes('\t')) {
+      throw yamlError(index + 1, 'tabs cannot be used for indentation');
+    }
+    lines.push({ indent: indentation.length, text: trimmed, number: index + 1 });
+  });
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const parser = new YamlBlockParser(lines);
+  const value = parser.parseBlock(lines[0].indent);
+  parser.expectEnd();
+  return value;
+}
+
+class YamlBlockParser {
+  private lines: YamlLine[];
+  private position: number = 0;
+
+  constructor(lines: YamlLine[]) {
+    this.lines = lines;
+  }
+
+  parseBlock(indent: number): unknown {
+    const line = this.lines[this.position];
+    return isSequenceItem(line.text) ? this.parseSequence(indent) : this.parseMapping(indent);
+  }
+
+  expectEnd(): void {
+    const line = this.lines[this.position];
+    if (line) {
+      throw yamlError(line.number, 'unexpected indentation');
+    }
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.indent < indent) {
+        break;
+      }
+      if (line.indent > indent || isSequenceItem(line.text)) {
+        throw yamlError(line.number, 'unexpected indentation');
+      }
+
+      const separator = findMappingSeparator(line.text);
+      if (separator < 0) {
+        throw yamlError(line.number, 'expected a "key: value" pair');
+      }
+      const key = String(parseScalar(line.text.slice(0, separator).trim(), line.number));
+      const valueText = line.text.slice(separator + 1).trim();
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw yamlError(line.number, `duplicate key "${key}"`);
+      }
+      this.position++;
+
+      mapping[key] = valueText !== '' ? parseInlineValue(valueText, line.number) : this.parseNested(indent, true);
+    }
+
+    return mapping;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const sequence: unknown[] = [];
+
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.indent < indent || (line.indent === indent && !isSequenceItem(line.text))) {
+        break;
+      }
+      if (line.indent > indent) {
+        throw yamlError(line.number, 'unexpected indentation');
+      }
+
+      const itemText = line.text.slice(1).trimStart();
+      if (itemText === '') {
+        this.position++;
+        sequence.push(this.parseNested(indent, false));
+      } else if (!isFlowCollection(itemText) && findMappingSeparator(itemText) >= 0) {
+        // A mapping that starts on the item's line continues at the column of its first key
+        const itemIndent = line.indent + line.text.length - itemText.length;
+        this.lines[this.position] = { indent: itemIndent, text: itemText, number: line.number };
+        sequence.push(this.parseMapping(itemIndent));
+      } else {
+        this.position++;
+        sequence.push(parseInlineValue(itemText, line.number));
+      }
+    }
+
+    return sequence;
+  }
+
+  /**
+   * Parse the block under a key or item with no inline value, or null if
+   * there is none. A mapping's sequence value may sit at the key's own
+   * indentation.
+   */
+  private parseNested(parentIndent: number, allowSameIndentSequence: boolean): unknown {
+    const next = this.lines[this.position];
+    if (next && next.indent > parentIndent) {
+      return this.parseBlock(next.indent);
+    }
+    if (next && allowSameIndentSequence && next.indent === parentIndent && isSequenceItem(next.text)) {
+      return this.parseSequence(parentIndent);
+    }
+    return null;
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function isFlowCollection(text: string): boolean {
+  return text.startsWith('[') || text.startsWith('{');
+}
+
+/**
+ * Index of the colon separating a key from its value, skipping quoted keys
+ */
+function findMappingSeparator(text: string): number {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Remove a trailing comment, leaving `#` inside quotes alone
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function parseInlineValue(text: string, lineNumber: number): unknown {
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw yamlError(lineNumber, 'unterminated flow sequence');
+    }
+    return splitFlowItems(text.slice(1, -1), lineNumber).map(item => parseScalar(item, lineNumber));
+  }
+
+  if (text.startsWith('{')) {
+    if (!text.endsWith('}')) {
+      throw yamlError(lineNumber, 'unterminated flow mapping');
+    }
+    const mapping: Record<string, unknown> = {};
+    for (const item of splitFlowItems(text.slice(1, -1), lineNumber)) {
+      const separator = findMappingSeparator(item);
+      if (separator < 0) {
+        throw yamlError(lineNumber, 'expected a "key: value" pair');
+      }
+      mapping[String(parseScalar(item.slice(0, separator).trim(), lineNumber))] =
+        parseScalar(item.slice(separator + 1).trim(), lineNumber);
+    }
+    return mapping;
+  }
+
+  if (/^[&*!|>]/.test(text)) {
+    throw yamlError(lineNumber, 'anchors, aliases, tags and block scalars are not supported');
+  }
+
+  return parseScalar(text, lineNumber);
+}
+
+/**
+ * Split the inside of a flow collection on commas outside quotes
+ */
+function splitFlowItems(text: string, lineNumber: number): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      throw yamlError(lineNumber, 'nested flow collections are not supported');
+    } else if (char === ',') {
+      items.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  const last = text.slice(start).trim();
+  if (last !== '' || items.length > 0) {
+    items.push(last);
+  }
+  if (items.some(item => item === '')) {
+    throw yamlError(lineNumber, 'empty flow collection item');
+  }
+  return items;
+}
+
+function parseScalar(text: string, lineNumber: number): unknown {
+  if (text.startsWith('"')) {
+    if (text.length < 2 || !text.endsWith('"')) {
+      throw yamlError(lineNumber, 'unterminated double-quoted string');
+    }
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw yamlError(lineNumber, 'invalid double-quoted string');
+    }
+  }
+
+  if (text.startsWith('\'')) {
+    if (text.length < 2 || !text.endsWith('\'') || text.slice(1, -1).replace(/''/g, '').includes('\'')) {
+      throw yamlError(lineNumber, 'unterminated single-quoted string');
+    }
+    return text.slice(1, -1).replace(/''/g, '\'');
+  }
+
+  if (text === '' || text === '~' || text === 'null') {
+    return null;
+  }
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][-+]?\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+function yamlError(lineNumber: number, message: string): Error {
+  return new Error(`Invalid YAML at line ${lineNumber}: ${message}`);
+}